@@ -0,0 +1,175 @@
+import type { AnalysisChannel } from './AudioController';
+import type { TapChunk } from './AnalysisTapProcessor';
+import processorUrl from './AnalysisTapProcessor.ts?worker&url';
+
+// AnalysisTap: Every sample the analysers hear, in order, stamped with audio time
+// An AnalyserNode only shows its latest fftSize samples at the moment we ask, once
+// per rendered frame: at 60 fps some samples are never seen, and when rendering
+// stutters others are analysed twice. The tap instead receives the input block by
+// block from an AudioWorklet and keeps the last few seconds in a ring buffer, so a
+// TapReader can step through it with a fixed hop, at the audio's own pace.
+//
+// Frames are counted from the start of the AudioContext: frame / sampleRate is
+// the same clock as audioContext.currentTime.
+
+const PROCESSOR_NAME = 'analysis-tap'; // Registered by AnalysisTapProcessor
+const CHANNEL_COUNT = 2;
+// Ring buffer length: readers that fall further behind than this lose samples
+const RING_SECONDS = 4;
+
+export class AnalysisTap {
+    private node: AudioWorkletNode;
+    private sampleRate: number;
+    private ring: Float32Array[] = [];
+    private capacity: number;
+    private endFrame: number = 0; // One past the newest frame received
+
+    private constructor(node: AudioWorkletNode, sampleRate: number) {
+        this.node = node;
+        this.sampleRate = sampleRate;
+        // Power of two so positions wrap with a bit mask
+        this.capacity = Math.pow(2, Math.ceil(Math.log2(RING_SECONDS * sampleRate)));
+        for (let channel = 0; channel < CHANNEL_COUNT; channel++) {
+            this.ring.push(new Float32Array(this.capacity));
+        }
+        this.node.port.onmessage = (event: MessageEvent<TapChunk>) => this.write(event.data);
+    }
+
+    // Load the worklet module and listen to `input`. Rejects where AudioWorklet is
+    // unavailable (old browsers, pages not served over https or localhost).
+    static async create(audioContext: AudioContext, input: AudioNode): Promise<AnalysisTap> {
+        if (!audioContext.audioWorklet) {
+            throw new Error('AudioWorklet is not supported here');
+        }
+        await audioContext.audioWorklet.addModule(processorUrl);
+
+        // No outputs: the browser still runs a node that has no outputs, and nothing
+        // reaches the speakers
+        const node = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+            numberOfInputs: 1,
+            numberOfOutputs: 0,
+            channelCount: CHANNEL_COUNT,
+            channelCountMode: 'explicit',
+            channelInterpretation: 'speakers'
+        });
+        input.connect(node);
+        return new AnalysisTap(node, audioContext.sampleRate);
+    }
+
+    getSampleRate(): number {
+        return this.sampleRate;
+    }
+
+    // Newest frame available + 1
+    getEndFrame(): number {
+        return this.endFrame;
+    }
+
+    // Oldest frame still in the ring buffer
+    getStartFrame(): number {
+        return Math.max(0, this.endFrame - this.capacity);
+    }
+
+    // Context time (seconds) of a frame number
+    frameToTime(frame: number): number {
+        return frame / this.sampleRate;
+    }
+
+    // Copy out.length samples starting at `startFrame`. Returns false (and leaves
+    // `out` untouched) when part of the range has been overwritten or not arrived yet.
+    read(startFrame: number, out: Float32Array, channel: AnalysisChannel = 'mix'): boolean {
+        if (startFrame < this.getStartFrame() || startFrame + out.length > this.endFrame) return false;
+
+        const mask = this.capacity - 1;
+        const [left, right] = this.ring;
+        for (let i = 0; i < out.length; i++) {
+            const index = (startFrame + i) & mask;
+            switch (channel) {
+                case 'left': out[i] = left[index]; break;
+                case 'right': out[i] = right[index]; break;
+                case 'side': out[i] = (left[index] - right[index]) / 2; break;
+                // mix and mid are the same sum here (the analyser's mono down-mix)
+                default: out[i] = (left[index] + right[index]) / 2;
+            }
+        }
+        return true;
+    }
+
+    // Step through the stream in frames of frameSize samples, hopSize apart
+    createReader(frameSize: number, hopSize: number, channel: AnalysisChannel = 'mix'): TapReader {
+        return new TapReader(this, frameSize, hopSize, channel);
+    }
+
+    dispose() {
+        this.node.port.onmessage = null;
+        this.node.disconnect();
+    }
+
+    private write(chunk: TapChunk) {
+        const length = chunk.channels[0].length;
+        const mask = this.capacity - 1;
+
+        // A chunk that starts later than expected (the audio thread skipped) is
+        // preceded by silence, so frame numbers and positions stay in step
+        for (let frame = Math.max(this.endFrame, chunk.startFrame - this.capacity); frame < chunk.startFrame; frame++) {
+            this.ring.forEach(channel => channel[frame & mask] = 0);
+        }
+
+        chunk.channels.forEach((samples, channel) => {
+            for (let i = 0; i < length; i++) {
+                this.ring[channel][(chunk.startFrame + i) & mask] = samples[i];
+            }
+        });
+        this.endFrame = Math.max(this.endFrame, chunk.startFrame + length);
+    }
+}
+
+// TapReader: A cursor over the tap that hands out every frame exactly once
+export class TapReader {
+    private tap: AnalysisTap;
+    private frame: Float32Array;
+    private hopSize: number;
+    private channel: AnalysisChannel;
+    private nextStart: number;
+    private droppedFrames: number = 0;
+
+    constructor(tap: AnalysisTap, frameSize: number, hopSize: number, channel: AnalysisChannel) {
+        this.tap = tap;
+        this.frame = new Float32Array(frameSize);
+        this.hopSize = hopSize;
+        this.channel = channel;
+        this.nextStart = Math.max(0, tap.getEndFrame() - frameSize);
+    }
+
+    // Call as often as convenient (e.g. once per rendered frame): `callback` runs for
+    // every complete frame since the last call, in order, with the context time of
+    // the frame's last sample (the moment an analyser would have shown it).
+    // The frame array is reused between calls. Returns how many frames were read.
+    read(callback: (frame: Float32Array, time: number) => void): number {
+        // After a long stall, skip what the ring buffer no longer holds
+        const oldest = this.tap.getStartFrame();
+        if (this.nextStart < oldest) {
+            const skipped = Math.ceil((oldest - this.nextStart) / this.hopSize);
+            this.droppedFrames += skipped;
+            this.nextStart += skipped * this.hopSize;
+        }
+
+        let count = 0;
+        while (this.tap.read(this.nextStart, this.frame, this.channel)) {
+            callback(this.frame, this.tap.frameToTime(this.nextStart + this.frame.length));
+            this.nextStart += this.hopSize;
+            count++;
+        }
+        return count;
+    }
+
+    // Start again from the newest samples (e.g. after switching sources)
+    skipToEnd() {
+        this.nextStart = Math.max(this.nextStart, this.tap.getEndFrame() - this.frame.length);
+    }
+
+    // Frames lost because the reader fell more than the ring buffer length behind
+    getDroppedFrames(): number {
+        return this.droppedFrames;
+    }
+}
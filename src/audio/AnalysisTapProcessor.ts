@@ -0,0 +1,75 @@
+// AnalysisTapProcessor: Runs on the audio rendering thread (AudioWorklet)
+// Sees every 128-sample render block of its input, gathers them into chunks and
+// posts each chunk to the main thread together with the frame number of its first
+// sample. currentFrame counts samples since the context started, so
+// startFrame / sampleRate is exactly the context time of the chunk.
+
+// The worklet scope is not part of the DOM typings
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+declare const currentFrame: number;
+
+// (AnalysisTap uses the same name and channel count; this file only runs in the worklet)
+const PROCESSOR_NAME = 'analysis-tap';
+const TAP_CHANNEL_COUNT = 2;
+// 1024 frames (~21 ms at 48 kHz): 8 render blocks per message keeps the message
+// rate low without adding noticeable latency
+const CHUNK_FRAMES = 1024;
+
+export interface TapChunk {
+    startFrame: number;
+    channels: Float32Array[]; // TAP_CHANNEL_COUNT × CHUNK_FRAMES
+}
+
+class AnalysisTapProcessor extends AudioWorkletProcessor {
+    private chunk: Float32Array[] = this.createChunk();
+    private filled: number = 0;
+    private chunkStartFrame: number = 0;
+
+    process(inputs: Float32Array[][]): boolean {
+        const input = inputs[0];
+        // With nothing connected the input has no channels: record silence so the
+        // stream stays continuous
+        const blockLength = input.length > 0 ? input[0].length : 128;
+        let offset = 0;
+
+        while (offset < blockLength) {
+            if (this.filled === 0) this.chunkStartFrame = currentFrame + offset;
+            const count = Math.min(blockLength - offset, CHUNK_FRAMES - this.filled);
+            for (let channel = 0; channel < TAP_CHANNEL_COUNT; channel++) {
+                // Mono input (only possible if the node's channel mode changes) feeds both channels
+                const source = input[Math.min(channel, input.length - 1)];
+                if (source) {
+                    this.chunk[channel].set(source.subarray(offset, offset + count), this.filled);
+                } else {
+                    this.chunk[channel].fill(0, this.filled, this.filled + count);
+                }
+            }
+            this.filled += count;
+            offset += count;
+
+            if (this.filled === CHUNK_FRAMES) {
+                const message: TapChunk = { startFrame: this.chunkStartFrame, channels: this.chunk };
+                // Transfer instead of copy; a fresh chunk takes its place
+                this.port.postMessage(message, this.chunk.map(channel => channel.buffer));
+                this.chunk = this.createChunk();
+                this.filled = 0;
+            }
+        }
+
+        // Keep running even while no source is connected
+        return true;
+    }
+
+    private createChunk(): Float32Array[] {
+        const chunk: Float32Array[] = [];
+        for (let channel = 0; channel < TAP_CHANNEL_COUNT; channel++) {
+            chunk.push(new Float32Array(CHUNK_FRAMES));
+        }
+        return chunk;
+    }
+}
+
+registerProcessor(PROCESSOR_NAME, AnalysisTapProcessor);
@@ -1,32 +1,189 @@
+import { AnalysisTap, type TapReader } from './AnalysisTap';
+import { BeatDetector, type BeatState, type RhythmAnalysis } from './BeatDetector';
+import { ChannelAnalyser } from './ChannelAnalyser';
+import { computeChromaEnergy, createChromaMap, normalizeChroma } from './Chroma';
+import { FilterChain, type FilterBandParams } from './FilterChain';
+import { LoudnessMeter, type LoudnessReading } from './LoudnessMeter';
+import { MicrophoneInput, type MicrophoneParams } from './MicrophoneInput';
+import { PitchDetector, type PitchResult } from './PitchDetector';
+import { SignalGenerator, type SignalComponent, type SignalGeneratorParams } from './SignalGenerator';
+import { SpectrumAnalyzer } from './SpectrumAnalyzer';
+import { createWindow, DEFAULT_KAISER_BETA, type WindowType } from './WindowFunctions';
+
+// 'native' = let the AnalyserNode do the FFT (always Blackman window)
+export type AnalysisWindow = WindowType | 'native';
+
+// Which signal an analysis call reads:
+// mix = mono sum (the original single analyser), left/right = individual channels,
+// mid = (L + R) / 2 (what both speakers share), side = (L - R) / 2 (the stereo difference)
+export type AnalysisChannel = 'mix' | 'left' | 'right' | 'mid' | 'side';
+
+export const ANALYSIS_CHANNELS: AnalysisChannel[] = ['mix', 'left', 'right', 'mid', 'side'];
+
+// Where the analysers listen: before the filter chain (the raw source) or after it
+export type FilterTap = 'pre' | 'post';
+
+// A–B loop points in seconds of the current file
+export interface LoopRegion {
+    start: number;
+    end: number;
+}
+
+// Shorter regions are treated as a click, not a loop
+const MIN_LOOP_LENGTH = 0.05;
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 2;
+// Live onset detection frames read from the analysis tap (~86 frames/s at 44.1 kHz)
+const ONSET_FRAME_SIZE = 1024;
+const ONSET_HOP_SIZE = 512;
+
 export class AudioController {
     private audioContext: AudioContext;
     private analyser: AnalyserNode;
-    private frequencyData: Uint8Array;
-    private timeDomainData: Uint8Array;
-    private micSource: MediaStreamAudioSourceNode | null = null;
+    private inputBus: GainNode;
+    // Sources -> sourceBus -> filterChain -> monitorBus -> speakers
+    private sourceBus: GainNode;
+    private filterChain: FilterChain;
+    private monitorBus: GainNode;
+    private filterTap: FilterTap = 'post';
+    private analysisTapNode: AudioNode | null = null;
+    private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+    private channels: Record<AnalysisChannel, ChannelAnalyser>;
+    private microphone: MicrophoneInput | null = null;
     private fileSource: MediaElementAudioSourceNode | null = null;
     private audioElement: HTMLAudioElement | null = null;
+    private audioElementUrl: string | null = null;
+    private signalGenerator: SignalGenerator | null = null;
+    private analysisWindow: AnalysisWindow = 'native';
+    private nativeWindowShape: Float32Array | null = null;
     private _fftSize: number = 512;
-    private currentSourceType: 'microphone' | 'file' | 'none' = 'none';
+    private currentSourceType: 'microphone' | 'file' | 'generator' | 'none' = 'none';
+    private loopRegion: LoopRegion | null = null;
+    private loopTimer: number | null = null;
+    private playbackRate: number = 1;
+    private preservesPitch: boolean = true;
+    // Rhythm: live onsets from every hop of the analysis tap (or, where AudioWorklet
+    // is unavailable, a dedicated unsmoothed analyser polled per frame), or the
+    // offline analysis of the current file once it is available
+    private beatAnalyser: ChannelAnalyser;
+    private onsetReader: TapReader | null = null;
+    private onsetSpectrum = new SpectrumAnalyzer(ONSET_FRAME_SIZE, 'blackman', DEFAULT_KAISER_BETA);
+    private onsetDecibels = new Float32Array(ONSET_FRAME_SIZE / 2);
+    private onsetLevels = new Float32Array(ONSET_FRAME_SIZE / 2);
+    private beatDetector = new BeatDetector();
+    private rhythmAnalysis: RhythmAnalysis | null = null;
+    private beatState: BeatState = { isBeat: false, bpm: 0, phase: 0, confidence: 0 };
+    // Pitch: a fixed 2048-sample window, long enough for low notes whatever the FFT size
+    private pitchAnalyser: ChannelAnalyser;
+    private pitchDetector = new PitchDetector();
+    // Chroma: a long 8192-sample FFT, fine enough to separate semitones down to ~90 Hz
+    private chromaAnalyser: ChannelAnalyser;
+    private chromaMap: Int8Array;
+    private chromaMagnitudes: Float32Array;
+    private chroma = new Float32Array(12);
+    // Levels and EBU R128 loudness of what the analysers hear
+    private loudnessMeter: LoudnessMeter;
+    // Sample-accurate copy of the analysed signal (null until the worklet has loaded)
+    private analysisTap: AnalysisTap | null = null;
+    // Fired when a file reaches its end (used by the playlist for auto-advance)
+    public onTrackEnded: (() => void) | null = null;
 
     constructor() {
         this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        this.analyser = this.audioContext.createAnalyser();
 
-        // Theory Check: FFT (Fast Fourier Transform)
-        // The FFT is an algorithm that converts a signal from the Time Domain (waveform, amplitude over time)
-        // to the Frequency Domain (spectral content, amplitude of component frequencies).
-        //
-        // fftSize:
-        // This defines the window size for the FFT. It must be a power of 2 (e.g., 512, 1024, 2048).
-        // A larger fftSize means more frequency bins (finer resolution), but it's computationally more expensive.
-        // The number of data points we get back is fftSize / 2 (the "frequencyBinCount").
-        // We choose 512 to get 256 data points, which is a good balance for our visualizer.
-        this.analyser.fftSize = this._fftSize;
+        // Every source connects to this bus; the analysers all listen to it.
+        // Forcing 2 channels means mono sources (most microphones) appear in both L and R.
+        // The live analysis is stereo only: surround files (5.1 etc.) are down-mixed to
+        // L/R here by the standard speaker rules. (The 3D model still shows every channel.)
+        this.inputBus = this.audioContext.createGain();
+        this.inputBus.channelCount = 2;
+        this.inputBus.channelCountMode = 'explicit';
+        this.inputBus.channelInterpretation = 'speakers';
+
+        this.channels = {
+            mix: new ChannelAnalyser(this.audioContext, this._fftSize),
+            left: new ChannelAnalyser(this.audioContext, this._fftSize),
+            right: new ChannelAnalyser(this.audioContext, this._fftSize),
+            mid: new ChannelAnalyser(this.audioContext, this._fftSize),
+            side: new ChannelAnalyser(this.audioContext, this._fftSize)
+        };
+        this.analyser = this.channels.mix.analyser;
+
+        this.buildChannelGraph();
+
+        this.sourceBus = this.audioContext.createGain();
+        this.filterChain = new FilterChain(this.audioContext);
+        this.monitorBus = this.audioContext.createGain();
+        this.sourceBus.connect(this.filterChain.input);
+        this.filterChain.output.connect(this.monitorBus);
+        this.monitorBus.connect(this.audioContext.destination);
+        this.connectAnalysisTap();
+
+        // Smoothing would blur the very attacks onset detection looks for
+        this.beatAnalyser = new ChannelAnalyser(this.audioContext, 1024);
+        this.beatAnalyser.setSmoothingTimeConstant(0);
+        this.inputBus.connect(this.beatAnalyser.analyser);
+
+        this.pitchAnalyser = new ChannelAnalyser(this.audioContext, 2048);
+        this.inputBus.connect(this.pitchAnalyser.analyser);
+
+        this.chromaAnalyser = new ChannelAnalyser(this.audioContext, 8192);
+        this.chromaAnalyser.setSmoothingTimeConstant(0.5);
+        this.inputBus.connect(this.chromaAnalyser.analyser);
+        const chromaBins = this.chromaAnalyser.analyser.frequencyBinCount;
+        this.chromaMap = createChromaMap(chromaBins, bin => (bin * this.audioContext.sampleRate) / 8192);
+        this.chromaMagnitudes = new Float32Array(chromaBins);
+
+        this.loudnessMeter = new LoudnessMeter(this.audioContext, this.inputBus);
+
+        AnalysisTap.create(this.audioContext, this.inputBus)
+            .then(tap => {
+                this.analysisTap = tap;
+                this.onsetReader = tap.createReader(ONSET_FRAME_SIZE, ONSET_HOP_SIZE);
+            })
+            .catch(err => console.warn('Analysis tap unavailable, polling the analyser instead:', err));
+    }
 
-        const bufferLength = this.analyser.frequencyBinCount;
-        this.frequencyData = new Uint8Array(bufferLength);
-        this.timeDomainData = new Uint8Array(this.analyser.fftSize);
+    // Theory Check: Stereo, Mid and Side
+    // A stereo signal is two channels, Left and Right. Rotating them by 45° gives:
+    //   Mid  = (L + R) / 2  -> everything panned centre (vocals, bass, kick)
+    //   Side = (L - R) / 2  -> only what differs between speakers (reverb, wide synths)
+    // A mono recording has Side = 0.
+    //
+    // Graph:
+    //   inputBus ──> mix analyser (the analyser down-mixes to mono itself)
+    //            └─> splitter ─ L ─> left analyser, ×0.5 ─> mid, ×0.5 ─> side
+    //                         └ R ─> right analyser, ×0.5 ─> mid, ×-0.5 ─> side
+    private buildChannelGraph() {
+        const ctx = this.audioContext;
+        this.inputBus.connect(this.channels.mix.analyser);
+
+        const splitter = ctx.createChannelSplitter(2);
+        this.inputBus.connect(splitter);
+        splitter.connect(this.channels.left.analyser, 0);
+        splitter.connect(this.channels.right.analyser, 1);
+
+        const midBus = ctx.createGain();
+        const sideBus = ctx.createGain();
+
+        const leftHalf = ctx.createGain();
+        leftHalf.gain.value = 0.5;
+        const rightHalf = ctx.createGain();
+        rightHalf.gain.value = 0.5;
+        const rightHalfInverted = ctx.createGain();
+        rightHalfInverted.gain.value = -0.5;
+
+        splitter.connect(leftHalf, 0);
+        splitter.connect(rightHalf, 1);
+        splitter.connect(rightHalfInverted, 1);
+
+        leftHalf.connect(midBus);
+        rightHalf.connect(midBus);
+        leftHalf.connect(sideBus);
+        rightHalfInverted.connect(sideBus);
+
+        midBus.connect(this.channels.mid.analyser);
+        sideBus.connect(this.channels.side.analyser);
     }
 
     // Educational Feature: Allow dynamic FFT size changes
@@ -39,15 +196,57 @@ export class AudioController {
         }
 
         this._fftSize = size;
-        this.analyser.fftSize = size;
-
-        // Resize data arrays
-        this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
-        this.timeDomainData = new Uint8Array(this.analyser.fftSize);
+        ANALYSIS_CHANNELS.forEach(channel => this.channels[channel].setFFTSize(size));
 
         console.log(`FFT size changed to ${size}, frequency bins: ${this.analyser.frequencyBinCount}`);
     }
 
+    // Educational Feature: Adjustable decibel window
+    // Everything quieter than minDecibels reads as 0, everything louder than maxDecibels as full scale
+    setDecibelRange(minDecibels: number, maxDecibels: number) {
+        if (minDecibels >= maxDecibels) {
+            console.warn('minDecibels must be lower than maxDecibels');
+            return;
+        }
+
+        ANALYSIS_CHANNELS.forEach(channel => this.channels[channel].setDecibelRange(minDecibels, maxDecibels));
+    }
+
+    getDecibelRange(): { min: number; max: number } {
+        return { min: this.analyser.minDecibels, max: this.analyser.maxDecibels };
+    }
+
+    // 0 = no averaging (jumpy), close to 1 = heavy averaging (slow, smooth)
+    setSmoothingTimeConstant(value: number) {
+        const clamped = Math.min(Math.max(value, 0), 1);
+        ANALYSIS_CHANNELS.forEach(channel => this.channels[channel].setSmoothingTimeConstant(clamped));
+    }
+
+    getSmoothingTimeConstant(): number {
+        return this.analyser.smoothingTimeConstant;
+    }
+
+    // Educational Feature: Selectable window function
+    // 'native' keeps the AnalyserNode's built-in Blackman window; any other choice
+    // routes the raw samples through our own SpectrumAnalyzer with that window.
+    setAnalysisWindow(window: AnalysisWindow, kaiserBeta: number = DEFAULT_KAISER_BETA) {
+        this.analysisWindow = window;
+        ANALYSIS_CHANNELS.forEach(channel =>
+            this.channels[channel].setWindow(window === 'native' ? null : window, kaiserBeta));
+    }
+
+    // The window currently applied before the FFT (fftSize coefficients, 0-1)
+    getAnalysisWindowShape(): Float32Array {
+        const customWindow = this.channels.mix.getCustomWindow();
+        if (this.analysisWindow !== 'native' && customWindow) {
+            return customWindow;
+        }
+        if (!this.nativeWindowShape || this.nativeWindowShape.length !== this._fftSize) {
+            this.nativeWindowShape = createWindow('blackman', this._fftSize);
+        }
+        return this.nativeWindowShape;
+    }
+
     getFFTSize(): number {
         return this._fftSize;
     }
@@ -64,21 +263,23 @@ export class AudioController {
         return this.audioContext;
     }
 
-    // Setup microphone input
-    async setupMicrophone(): Promise<void> {
+    // Setup microphone input (chosen device and processing, input gain, noise gate)
+    async setupMicrophone(params: MicrophoneParams): Promise<void> {
         try {
             // Disconnect any existing sources
             this.disconnectAllSources();
 
-            // Access user's microphone
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            if (!this.microphone) {
+                this.microphone = new MicrophoneInput(this.audioContext);
+            }
 
-            // Create Source
-            this.micSource = this.audioContext.createMediaStreamSource(stream);
+            // Access user's microphone
+            await this.microphone.start(params);
 
-            // Connect to Analyser
-            // We do NOT connect to audioContext.destination to avoid feedback loop (hearing yourself).
-            this.micSource.connect(this.analyser);
+            // Connect to Analyser (through the filter chain)
+            // We mute the speaker output to avoid a feedback loop (hearing yourself).
+            this.microphone.output.connect(this.sourceBus);
+            this.monitorBus.gain.value = 0;
 
             // Resume context if suspended (browser autoplay policy)
             if (this.audioContext.state === 'suspended') {
@@ -93,7 +294,26 @@ export class AudioController {
         }
     }
 
+    // Live changes from the source panel (ignored unless the microphone is the active
+    // source). Switching device reopens the stream without touching the rest of the graph.
+    async updateMicrophone(params: MicrophoneParams): Promise<void> {
+        if (this.microphone && this.currentSourceType === 'microphone') {
+            await this.microphone.update(params);
+        }
+    }
+
+    // Input level after the gain stage (dBFS) and the gate state, null without a microphone
+    getMicrophoneLevel(): { level: number; gateOpen: boolean } | null {
+        if (!this.microphone || this.currentSourceType !== 'microphone') return null;
+        return { level: this.microphone.getLevel(), gateOpen: this.microphone.isGateOpen() };
+    }
+
+    getActiveMicrophoneId(): string {
+        return this.microphone && this.currentSourceType === 'microphone' ? this.microphone.getActiveDeviceId() : '';
+    }
+
     // NEW: Setup audio file input
+    // Can be called again to replace the current track (playlist next/previous).
     async setupAudioFile(file: File): Promise<void> {
         try {
             // Disconnect any existing sources
@@ -103,18 +323,38 @@ export class AudioController {
             if (!this.audioElement) {
                 this.audioElement = new Audio();
                 this.audioElement.controls = false;
+                this.audioElement.addEventListener('ended', () => {
+                    // A loop ending at the very end of the file wraps instead of finishing
+                    if (this.loopRegion && this.audioElement) {
+                        this.audioElement.currentTime = this.loopRegion.start;
+                        this.audioElement.play();
+                        return;
+                    }
+                    if (this.currentSourceType === 'file' && this.onTrackEnded) {
+                        this.onTrackEnded();
+                    }
+                });
             }
 
-            // Load the file
-            const url = URL.createObjectURL(file);
-            this.audioElement.src = url;
+            // Load the file, releasing the previous track's blob URL
+            if (this.audioElementUrl) {
+                URL.revokeObjectURL(this.audioElementUrl);
+            }
+            this.audioElementUrl = URL.createObjectURL(file);
+            this.audioElement.src = this.audioElementUrl;
+            // The rate carries over to the next track (loop points do not)
+            this.applyPlaybackRate();
 
             // Create media element source
-            this.fileSource = this.audioContext.createMediaElementSource(this.audioElement);
+            // An <audio> element can only ever have ONE MediaElementAudioSourceNode (the browser
+            // throws on a second one), so we create it once and just reconnect it for later tracks.
+            if (!this.fileSource) {
+                this.fileSource = this.audioContext.createMediaElementSource(this.audioElement);
+            }
 
-            // Connect to analyser AND destination (so we can hear it)
-            this.fileSource.connect(this.analyser);
-            this.fileSource.connect(this.audioContext.destination);
+            // Connect to analysers AND destination (so we can hear it)
+            this.fileSource.connect(this.sourceBus);
+            this.monitorBus.gain.value = 1;
 
             // Resume context if suspended
             if (this.audioContext.state === 'suspended') {
@@ -132,22 +372,78 @@ export class AudioController {
         }
     }
 
+    // Setup the built-in test-signal generator (third source besides microphone and file)
+    async setupSignalGenerator(params: SignalGeneratorParams): Promise<void> {
+        try {
+            // Disconnect any existing sources
+            this.disconnectAllSources();
+
+            if (!this.signalGenerator) {
+                this.signalGenerator = new SignalGenerator(this.audioContext);
+            }
+
+            // Connect to analysers AND destination (so we can hear it)
+            this.signalGenerator.output.connect(this.sourceBus);
+            this.monitorBus.gain.value = 1;
+
+            // Resume context if suspended
+            if (this.audioContext.state === 'suspended') {
+                await this.audioContext.resume();
+            }
+
+            this.signalGenerator.start(params);
+            this.currentSourceType = 'generator';
+            console.log(`Signal generator started: ${params.type}`);
+        } catch (err) {
+            console.error('Error starting signal generator:', err);
+            throw err;
+        }
+    }
+
+    // Live parameter changes from the GUI (ignored unless the generator is the active source)
+    updateSignalGenerator(params: SignalGeneratorParams) {
+        if (this.signalGenerator && this.currentSourceType === 'generator') {
+            this.signalGenerator.update(params);
+        }
+    }
+
+    // The sinusoids the generator is known to output, for comparison with the analysis
+    getSignalComponents(): SignalComponent[] {
+        if (this.signalGenerator && this.currentSourceType === 'generator') {
+            return this.signalGenerator.getComponents();
+        }
+        return [];
+    }
+
     // Disconnect all audio sources
     private disconnectAllSources() {
-        if (this.micSource) {
-            this.micSource.disconnect();
-            this.micSource = null;
+        // Stops the device too, so the browser's recording indicator goes off
+        if (this.microphone) {
+            this.microphone.stop();
+            this.microphone.output.disconnect();
         }
 
+        // Keep the node itself: it is tied to audioElement for the element's lifetime
         if (this.fileSource) {
             this.fileSource.disconnect();
-            this.fileSource = null;
+        }
+
+        if (this.signalGenerator) {
+            this.signalGenerator.stop();
+            this.signalGenerator.output.disconnect();
         }
 
         if (this.audioElement) {
             this.audioElement.pause();
             this.audioElement.currentTime = 0;
         }
+
+        // Loop points and rhythm belong to the track that was playing
+        this.clearLoopRegion();
+        this.rhythmAnalysis = null;
+        this.beatDetector.reset();
+        this.onsetReader?.skipToEnd();
+        this.loudnessMeter.reset();
     }
 
     // Playback controls for audio files
@@ -177,25 +473,262 @@ export class AudioController {
 
     seek(time: number) {
         if (this.audioElement && this.currentSourceType === 'file') {
+            // While looping, seeking stays inside the loop
+            if (this.loopRegion) {
+                time = Math.min(Math.max(time, this.loopRegion.start), this.loopRegion.end);
+            }
             this.audioElement.currentTime = time;
         }
     }
 
-    getFrequencyData(): Uint8Array {
+    // Educational Feature: A–B Loop
+    // Repeat one passage (a riff, a drum fill, a vowel) to study it in every view.
+    setLoopRegion(start: number, end: number) {
+        const duration = this.getDuration() || Infinity;
+        const a = Math.max(0, Math.min(start, end));
+        const b = Math.min(duration, Math.max(start, end));
+
+        if (b - a < MIN_LOOP_LENGTH) {
+            this.clearLoopRegion();
+            return;
+        }
+
+        this.loopRegion = { start: a, end: b };
+
+        // The media element has no loop points of its own, so we poll. 'timeupdate'
+        // only fires about 4 times a second; at 15 ms the overshoot stays inaudible.
+        if (this.loopTimer === null) {
+            this.loopTimer = window.setInterval(() => this.enforceLoop(), 15);
+        }
+
+        const current = this.getCurrentTime();
+        if (current < a || current > b) {
+            this.seek(a);
+        }
+    }
+
+    clearLoopRegion() {
+        this.loopRegion = null;
+        if (this.loopTimer !== null) {
+            window.clearInterval(this.loopTimer);
+            this.loopTimer = null;
+        }
+    }
+
+    getLoopRegion(): LoopRegion | null {
+        return this.loopRegion ? { ...this.loopRegion } : null;
+    }
+
+    private enforceLoop() {
+        if (!this.loopRegion || !this.audioElement || this.currentSourceType !== 'file') return;
+        if (this.audioElement.currentTime >= this.loopRegion.end) {
+            this.audioElement.currentTime = this.loopRegion.start;
+        }
+    }
+
+    // Educational Feature: Playback Rate
+    // Slowing down makes fast passages easy to follow. With pitch preservation the
+    // browser time-stretches (same notes, longer); without it the whole spectrum
+    // shifts down with the speed, like a slowed-down tape (0.5x = one octave lower).
+    setPlaybackRate(rate: number) {
+        this.playbackRate = Math.min(Math.max(rate, MIN_PLAYBACK_RATE), MAX_PLAYBACK_RATE);
+        this.applyPlaybackRate();
+    }
+
+    getPlaybackRate(): number {
+        return this.playbackRate;
+    }
+
+    setPreservesPitch(preserve: boolean) {
+        this.preservesPitch = preserve;
+        this.applyPlaybackRate();
+    }
+
+    getPreservesPitch(): boolean {
+        return this.preservesPitch;
+    }
+
+    private applyPlaybackRate() {
+        if (!this.audioElement) return;
+        // Loading a new src resets playbackRate to defaultPlaybackRate, so set both
+        this.audioElement.defaultPlaybackRate = this.playbackRate;
+        this.audioElement.playbackRate = this.playbackRate;
+        this.audioElement.preservesPitch = this.preservesPitch;
+    }
+
+    // Educational Feature: Filters / EQ
+    setFilterBands(bands: FilterBandParams[]) {
+        this.filterChain.setBands(bands);
+    }
+
+    setFilterBypass(bypass: boolean) {
+        this.filterChain.setBypass(bypass);
+    }
+
+    // Analyse the raw source ('pre') or what the filters let through ('post')
+    setFilterTap(tap: FilterTap) {
+        if (this.filterTap === tap) return;
+        this.filterTap = tap;
+        this.connectAnalysisTap();
+    }
+
+    getFilterTap(): FilterTap {
+        return this.filterTap;
+    }
+
+    // Combined response of the chain in dB at the given frequencies (0 dB everywhere when bypassed)
+    getFilterResponse(frequencies: Float32Array<ArrayBuffer>): Float32Array {
+        return this.filterChain.getFrequencyResponse(frequencies);
+    }
+
+    private connectAnalysisTap() {
+        if (this.analysisTapNode) {
+            this.analysisTapNode.disconnect(this.inputBus);
+        }
+        this.analysisTapNode = this.filterTap === 'pre' ? this.sourceBus : this.filterChain.output;
+        this.analysisTapNode.connect(this.inputBus);
+    }
+
+    // Audio for screen recordings: the post-filter signal. Tapped before the speaker
+    // mute, so microphone input is recorded too. Adding the tap does not affect playback.
+    getRecordingStream(): MediaStream {
+        if (!this.recordingDestination) {
+            this.recordingDestination = this.audioContext.createMediaStreamDestination();
+            this.filterChain.output.connect(this.recordingDestination);
+        }
+        return this.recordingDestination.stream;
+    }
+
+    // Educational Feature: Rhythm
+    // Offline onsets/tempo of the current file (computed from its spectrogram)
+    setRhythmAnalysis(analysis: RhythmAnalysis | null) {
+        this.rhythmAnalysis = analysis;
+        this.beatDetector.reset();
+    }
+
+    getRhythmAnalysis(): RhythmAnalysis | null {
+        return this.rhythmAnalysis;
+    }
+
+    // Advance beat tracking by one rendered frame and return BPM, beat phase and
+    // whether a beat starts now. Files use their offline beat grid against the
+    // media clock (so seeking, looping and playback rate are respected); live
+    // sources run spectral-flux onset detection on every hop of the analysis tap,
+    // so the onset times don't depend on the frame rate.
+    updateBeat(): BeatState {
+        if (this.currentSourceType === 'none') {
+            this.beatState = { isBeat: false, bpm: 0, phase: 0, confidence: 0 };
+        } else if (this.currentSourceType === 'file' && this.rhythmAnalysis) {
+            this.beatState = this.beatDetector.updateBeatState(this.getCurrentTime(), this.rhythmAnalysis, false);
+            if (!this.isPlaying()) this.beatState.isBeat = false;
+        } else if (this.onsetReader) {
+            let onsets = 0;
+            this.onsetReader.read((frame, time) => {
+                if (this.beatDetector.process(this.getOnsetLevels(frame), time)) onsets++;
+            });
+            const time = this.audioContext.currentTime;
+            this.beatState = this.beatDetector.updateBeatState(time, this.beatDetector.getTempo(), onsets > 0);
+        } else {
+            const time = this.audioContext.currentTime;
+            const isOnset = this.beatDetector.process(this.beatAnalyser.getFrequencyLevels(true), time);
+            this.beatState = this.beatDetector.updateBeatState(time, this.beatDetector.getTempo(), isOnset);
+        }
+        return this.beatState;
+    }
+
+    // 0-1 levels of one tap frame, scaled like the beat analyser's (default -100..-30 dB)
+    private getOnsetLevels(frame: Float32Array): Float32Array {
+        this.onsetSpectrum.process(frame, 0, this.onsetDecibels);
+        const min = this.beatAnalyser.analyser.minDecibels;
+        const range = this.beatAnalyser.analyser.maxDecibels - min;
+        for (let i = 0; i < this.onsetDecibels.length; i++) {
+            const level = (this.onsetDecibels[i] - min) / range;
+            this.onsetLevels[i] = level > 0 ? Math.min(level, 1) : 0;
+        }
+        return this.onsetLevels;
+    }
+
+    // Every sample of the analysed signal with its context time, for analyses that
+    // must not skip or repeat frames. Null until the worklet has loaded (or where
+    // AudioWorklet is unsupported).
+    getAnalysisTap(): AnalysisTap | null {
+        return this.analysisTap;
+    }
+
+    // The state from the most recent updateBeat()
+    getBeatState(): BeatState {
+        return this.beatState;
+    }
+
+    // Educational Feature: Pitch Detection
+    // f0, nearest note and cents offset of the current input, or null when
+    // nothing pitched is playing (silence, noise, drums)
+    getPitch(): PitchResult | null {
+        if (this.currentSourceType === 'none') return null;
+        return this.pitchDetector.detect(this.pitchAnalyser.getFloatTimeDomainData(), this.audioContext.sampleRate);
+    }
+
+    // Educational Feature: Chroma
+    // Energy of the 12 pitch classes (C..B) in the current input, loudest = 1
+    getChroma(): Float32Array {
+        if (this.currentSourceType === 'none') return this.chroma.fill(0);
+        const decibels = this.chromaAnalyser.getFloatFrequencyData();
+        for (let bin = 0; bin < decibels.length; bin++) {
+            this.chromaMagnitudes[bin] = Math.pow(10, decibels[bin] / 20);
+        }
+        computeChromaEnergy(this.chromaMagnitudes, this.chromaMap, this.chroma);
+        // Near silence, normalising would blow the noise floor up to full height
+        if (Math.max(...this.chroma) < 1e-7) return this.chroma.fill(0);
+        return normalizeChroma(this.chroma);
+    }
+
+    // Educational Feature: Level & Loudness Metering
+    // Call once per frame. The bus is always stereo, so a mono source is measured
+    // as dual mono (3 LU louder than the same file measured as one channel).
+    updateLoudness(): LoudnessReading {
+        return this.loudnessMeter.update();
+    }
+
+    // Start a new integrated / LRA / true peak measurement
+    resetLoudness() {
+        this.loudnessMeter.reset();
+    }
+
+    getFrequencyData(channel: AnalysisChannel = 'mix'): Uint8Array {
         // Populates the frequencyData array with current frequency data (0-255).
         // The array indices correspond to frequency bands.
         // Lower indices (0, 1, 2...) = Deep Bass (Low Frequencies)
         // Higher indices = High Treble (High Frequencies)
-        this.analyser.getByteFrequencyData(this.frequencyData);
-        return this.frequencyData;
+        return this.channels[channel].getFrequencyData();
     }
 
     // Educational Feature: Get Time Domain Data
     // This shows the RAW WAVEFORM (what the microphone captures)
     // BEFORE the FFT transforms it into frequency data
-    getTimeDomainData(): Uint8Array {
-        this.analyser.getByteTimeDomainData(this.timeDomainData);
-        return this.timeDomainData;
+    getTimeDomainData(channel: AnalysisChannel = 'mix'): Uint8Array {
+        return this.channels[channel].getTimeDomainData();
+    }
+
+    // Float API: Real decibel values per bin (dBFS, 0 dB = full scale, -Infinity = silence)
+    getFloatFrequencyData(channel: AnalysisChannel = 'mix'): Float32Array {
+        return this.channels[channel].getFloatFrequencyData();
+    }
+
+    // Float API: Raw samples in the range -1..1 (no 8-bit quantisation)
+    getFloatTimeDomainData(channel: AnalysisChannel = 'mix'): Float32Array {
+        return this.channels[channel].getFloatTimeDomainData();
+    }
+
+    // Normalised frequency levels (0-1) for the visualizers.
+    // useFloat = false: byte data / 255 (the classic path)
+    // useFloat = true: real dB values mapped across minDecibels..maxDecibels, without 8-bit steps
+    getFrequencyLevels(useFloat: boolean, channel: AnalysisChannel = 'mix'): Float32Array {
+        return this.channels[channel].getFrequencyLevels(useFloat);
+    }
+
+    // Time domain samples in the range -1..1 from either path
+    getTimeDomainSamples(useFloat: boolean, channel: AnalysisChannel = 'mix'): Float32Array {
+        return this.channels[channel].getTimeDomainSamples(useFloat);
     }
 
     // Get the frequency (in Hz) for a given bin index
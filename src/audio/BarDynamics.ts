@@ -0,0 +1,92 @@
+// BarDynamics: How bar levels move over time, like the ballistics of a hardware analyser
+// Raw frame levels jump around from one frame to the next. Three classic aids:
+//   - Envelope follower: each bar rises with the attack time and falls with the
+//     release time, instead of jumping straight to every new value.
+//   - Peak hold: a cap marks each bar's recent maximum, waits for the hold time,
+//     then falls slowly, so short transients stay readable.
+//   - Max hold: the highest level each bar has reached since the last reset.
+export interface BarDynamicsParams {
+    attack: number;       // ms for a rising bar to cover ~63 % of the gap (0 = instant)
+    release: number;      // ms for a falling bar to cover ~63 % of the gap (0 = instant)
+    peakHold: boolean;
+    holdTime: number;     // Seconds a peak cap stays put
+    peakFallRate: number; // Level units (full height = 1) per second once the hold ends
+    maxHold: boolean;
+}
+
+export function createDefaultBarDynamics(): BarDynamicsParams {
+    return {
+        attack: 5,
+        release: 150,
+        peakHold: true,
+        holdTime: 1,
+        peakFallRate: 0.5,
+        maxHold: false
+    };
+}
+
+// Theory Check: One-Pole Envelope Follower
+// Every frame the level moves a fraction of the way towards its target:
+//   level += (target - level) · (1 - e^(-Δt / τ))
+// τ is the time constant (attack while rising, release while falling). Using Δt keeps
+// the speed the same at 30 or 144 fps.
+function followCoefficient(timeConstantMs: number, deltaTime: number): number {
+    return timeConstantMs > 0 ? 1 - Math.exp(-deltaTime / (timeConstantMs / 1000)) : 1;
+}
+
+export class BarDynamics {
+    private levels = new Float32Array(0);
+    private peaks = new Float32Array(0);
+    private maxima = new Float32Array(0);
+    private holdTimers = new Float32Array(0);
+
+    // Advance every bar by one frame. Returns the smoothed levels (reused array).
+    process(input: Float32Array, deltaTime: number, params: BarDynamicsParams): Float32Array {
+        if (input.length !== this.levels.length) {
+            this.levels = new Float32Array(input);
+            this.peaks = new Float32Array(input);
+            this.maxima = new Float32Array(input);
+            this.holdTimers = new Float32Array(input.length);
+            return this.levels;
+        }
+
+        const attack = followCoefficient(params.attack, deltaTime);
+        const release = followCoefficient(params.release, deltaTime);
+
+        for (let i = 0; i < input.length; i++) {
+            const target = input[i];
+            const level = this.levels[i] + (target - this.levels[i]) * (target > this.levels[i] ? attack : release);
+            this.levels[i] = level;
+
+            // Peak cap: jump up with the bar, hold, then fall at a constant rate
+            if (level >= this.peaks[i]) {
+                this.peaks[i] = level;
+                this.holdTimers[i] = 0;
+            } else {
+                this.holdTimers[i] += deltaTime;
+                if (this.holdTimers[i] > params.holdTime) {
+                    this.peaks[i] = Math.max(level, this.peaks[i] - params.peakFallRate * deltaTime);
+                }
+            }
+
+            if (level > this.maxima[i]) this.maxima[i] = level;
+        }
+        return this.levels;
+    }
+
+    getLevels(): Float32Array {
+        return this.levels;
+    }
+
+    getPeaks(): Float32Array {
+        return this.peaks;
+    }
+
+    getMaxima(): Float32Array {
+        return this.maxima;
+    }
+
+    resetMaxHold() {
+        this.maxima.set(this.levels);
+    }
+}
@@ -0,0 +1,311 @@
+import type { Spectrogram } from './Spectrogram';
+
+// Tempo search range (typical music sits comfortably inside it)
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+// Below this normalised autocorrelation there is no steady pulse worth trusting
+const MIN_TEMPO_CONFIDENCE = 0.15;
+// Two onsets closer than this are one event (a flam, not two hits)
+const MIN_ONSET_INTERVAL = 0.1;
+// Live mode keeps this much onset-strength history for the tempo estimate
+const LIVE_HISTORY_SECONDS = 8;
+const LIVE_ENVELOPE_RATE = 50; // Hz the live history is resampled to
+
+export interface TempoEstimate {
+    bpm: number;        // 0 when no steady pulse was found
+    confidence: number; // 0-1 (normalised autocorrelation at the chosen period)
+    offset: number;     // Time (s) of one beat; beats fall at offset + k · 60 / bpm
+}
+
+export interface RhythmAnalysis extends TempoEstimate {
+    onsets: number[];   // Onset times in seconds
+    beats: number[];    // Beat grid in seconds, covering the whole track
+}
+
+export interface BeatState {
+    isBeat: boolean;    // True on the frame a beat starts
+    bpm: number;
+    phase: number;      // 0-1 position inside the current beat (0 = on the beat)
+    confidence: number;
+}
+
+// Theory Check: Spectral Flux
+// An onset (a drum hit, a plucked note) is a sudden rise of energy in some
+// frequency bands. Spectral flux adds up only the increases from one frame to
+// the next, so steady tones score zero and new sounds score high.
+export function spectralFlux(current: Float32Array, previous: Float32Array): number {
+    let flux = 0;
+    const length = Math.min(current.length, previous.length);
+    for (let i = 0; i < length; i++) {
+        const rise = current[i] - previous[i];
+        if (rise > 0) flux += rise;
+    }
+    return length > 0 ? flux / length : 0;
+}
+
+// Peaks of the onset-strength envelope that stand out from their neighbourhood
+export function detectOnsets(envelope: Float32Array, frameRate: number, startTime: number = 0): number[] {
+    const onsets: number[] = [];
+    const neighbourhood = Math.max(1, Math.round(frameRate * 0.1));
+    const average = Math.max(1, Math.round(frameRate * 0.5));
+
+    let globalMean = 0;
+    for (let i = 0; i < envelope.length; i++) globalMean += envelope[i];
+    globalMean /= Math.max(envelope.length, 1);
+
+    let lastOnset = -Infinity;
+    for (let i = 0; i < envelope.length; i++) {
+        const value = envelope[i];
+
+        // Must be the local maximum...
+        let isPeak = true;
+        for (let j = Math.max(0, i - neighbourhood); j <= Math.min(envelope.length - 1, i + neighbourhood); j++) {
+            if (envelope[j] > value) {
+                isPeak = false;
+                break;
+            }
+        }
+        if (!isPeak) continue;
+
+        // ...and clearly above the recent average (adaptive threshold)
+        let localMean = 0;
+        const from = Math.max(0, i - average);
+        for (let j = from; j <= i; j++) localMean += envelope[j];
+        localMean /= i - from + 1;
+        if (value < localMean + globalMean * 0.5 || value <= 0) continue;
+
+        const time = startTime + i / frameRate;
+        if (time - lastOnset >= MIN_ONSET_INTERVAL) {
+            onsets.push(time);
+            lastOnset = time;
+        }
+    }
+
+    return onsets;
+}
+
+// Theory Check: Tempo by Autocorrelation
+// Comparing the onset envelope with a delayed copy of itself gives a strong match
+// whenever the delay equals the beat period. A gentle preference for ~120 BPM picks
+// between equally good candidates an octave apart (60 vs 120 vs 240 BPM).
+export function estimateTempo(envelope: Float32Array, frameRate: number, startTime: number = 0): TempoEstimate {
+    const none: TempoEstimate = { bpm: 0, confidence: 0, offset: 0 };
+    const minLag = Math.max(1, Math.floor((frameRate * 60) / MAX_BPM));
+    const maxLag = Math.ceil((frameRate * 60) / MIN_BPM);
+    if (envelope.length < maxLag * 2) return none;
+
+    // Blur by ~30 ms so slightly early or late hits still line up, then remove
+    // the mean so loud passages do not correlate with everything
+    const radius = Math.max(1, Math.round(frameRate * 0.015));
+    const x = new Float32Array(envelope.length);
+    let mean = 0;
+    for (let i = 0; i < envelope.length; i++) {
+        let sum = 0;
+        let count = 0;
+        for (let j = Math.max(0, i - radius); j <= Math.min(envelope.length - 1, i + radius); j++) {
+            sum += envelope[j];
+            count++;
+        }
+        x[i] = sum / count;
+        mean += x[i];
+    }
+    mean /= envelope.length;
+    for (let i = 0; i < x.length; i++) x[i] -= mean;
+
+    let energy = 0;
+    for (let i = 0; i < x.length; i++) energy += x[i] * x[i];
+    energy /= x.length;
+    if (energy <= 0) return none;
+
+    const acf = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let i = 0; i + lag < x.length; i++) sum += x[i] * x[i + lag];
+        acf[lag] = sum / (x.length - lag);
+    }
+
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const bpm = (frameRate * 60) / lag;
+        const octavesFrom120 = Math.log2(bpm / 120);
+        const score = acf[lag] * Math.exp(-0.5 * octavesFrom120 * octavesFrom120);
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+
+    // Parabolic interpolation between neighbouring lags for a sub-frame period
+    const a = acf[bestLag - 1], b = acf[bestLag], c = acf[bestLag + 1];
+    const denominator = a - 2 * b + c;
+    const shift = denominator !== 0 ? Math.min(Math.max(0.5 * (a - c) / denominator, -0.5), 0.5) : 0;
+    const period = bestLag + shift; // In frames
+
+    // Beat phase: the offset within one period where the onsets line up best
+    let bestOffset = 0;
+    let bestSum = -Infinity;
+    for (let offset = 0; offset < Math.round(period); offset++) {
+        let sum = 0;
+        for (let position = offset; position < envelope.length; position += period) {
+            sum += envelope[Math.round(position)] || 0;
+        }
+        if (sum > bestSum) {
+            bestSum = sum;
+            bestOffset = offset;
+        }
+    }
+
+    return {
+        bpm: (frameRate * 60) / period,
+        confidence: Math.min(Math.max(b / energy, 0), 1),
+        offset: startTime + bestOffset / frameRate
+    };
+}
+
+// Full-track onsets, tempo and beat grid from the offline spectrogram
+export function analyzeRhythm(spectrogram: Spectrogram): RhythmAnalysis {
+    const frameRate = spectrogram.sampleRate / spectrogram.hopSize;
+    const envelope = new Float32Array(spectrogram.frameCount);
+    let previous = new Float32Array(spectrogram.binCount);
+    let current = new Float32Array(spectrogram.binCount);
+
+    for (let frame = 0; frame < spectrogram.frameCount; frame++) {
+        const magnitudes = spectrogram.getFrame(frame);
+        // Log compression, so quiet instruments count as well as loud ones
+        for (let bin = 0; bin < magnitudes.length; bin++) {
+            current[bin] = Math.log1p(100 * magnitudes[bin]);
+        }
+        envelope[frame] = frame > 0 ? spectralFlux(current, previous) : 0;
+        [previous, current] = [current, previous];
+    }
+
+    const onsets = detectOnsets(envelope, frameRate);
+    const tempo = estimateTempo(envelope, frameRate);
+
+    const beats: number[] = [];
+    if (tempo.bpm > 0 && tempo.confidence >= MIN_TEMPO_CONFIDENCE) {
+        const period = 60 / tempo.bpm;
+        const first = tempo.offset - Math.floor(tempo.offset / period) * period;
+        for (let time = first; time <= spectrogram.duration; time += period) {
+            beats.push(time);
+        }
+    }
+
+    return { ...tempo, onsets, beats };
+}
+
+// BeatDetector: Live onset detection and tempo tracking on analyser frames,
+// plus the per-frame beat state (phase, beat events) for either source of tempo.
+export class BeatDetector {
+    private previousLevels: Float32Array | null = null;
+    private fluxTimes: number[] = [];
+    private fluxValues: number[] = [];
+    private lastOnsetTime: number = -Infinity;
+    private tempo: TempoEstimate = { bpm: 0, confidence: 0, offset: 0 };
+    private lastTempoUpdate: number = -Infinity;
+    private lastPhase: number = 0;
+    private lastTime: number = 0;
+
+    reset() {
+        this.previousLevels = null;
+        this.fluxTimes = [];
+        this.fluxValues = [];
+        this.lastOnsetTime = -Infinity;
+        this.tempo = { bpm: 0, confidence: 0, offset: 0 };
+        this.lastTempoUpdate = -Infinity;
+        this.lastPhase = 0;
+        this.lastTime = 0;
+    }
+
+    // Feed one spectrum frame (0-1 levels per bin) taken at `time` seconds.
+    // Returns true when the frame is an onset.
+    process(levels: Float32Array, time: number): boolean {
+        if (!this.previousLevels || this.previousLevels.length !== levels.length) {
+            this.previousLevels = new Float32Array(levels);
+            return false;
+        }
+
+        const flux = spectralFlux(levels, this.previousLevels);
+        this.previousLevels.set(levels);
+
+        // Adaptive threshold from the last second of flux
+        let sum = 0;
+        let sumSquares = 0;
+        let count = 0;
+        for (let i = this.fluxTimes.length - 1; i >= 0 && time - this.fluxTimes[i] < 1; i--) {
+            sum += this.fluxValues[i];
+            sumSquares += this.fluxValues[i] * this.fluxValues[i];
+            count++;
+        }
+        const mean = count > 0 ? sum / count : 0;
+        const deviation = count > 0 ? Math.sqrt(Math.max(sumSquares / count - mean * mean, 0)) : 0;
+        const isOnset = count > 5 && flux > mean + 1.5 * deviation && flux > 0.01 &&
+            time - this.lastOnsetTime >= MIN_ONSET_INTERVAL;
+        if (isOnset) this.lastOnsetTime = time;
+
+        this.fluxTimes.push(time);
+        this.fluxValues.push(flux);
+        while (this.fluxTimes.length > 0 && time - this.fluxTimes[0] > LIVE_HISTORY_SECONDS) {
+            this.fluxTimes.shift();
+            this.fluxValues.shift();
+        }
+
+        // Re-estimate the tempo once a second
+        if (time - this.lastTempoUpdate >= 1) {
+            this.lastTempoUpdate = time;
+            this.updateTempo();
+        }
+
+        return isOnset;
+    }
+
+    getTempo(): TempoEstimate {
+        return { ...this.tempo };
+    }
+
+    // Beat phase for `time`; a beat event fires when the phase wraps around.
+    // Without a trustworthy tempo, onsets stand in for beats.
+    updateBeatState(time: number, tempo: TempoEstimate, isOnset: boolean): BeatState {
+        const hasTempo = tempo.bpm > 0 && tempo.confidence >= MIN_TEMPO_CONFIDENCE;
+        if (!hasTempo) {
+            this.lastTime = time;
+            return { isBeat: isOnset, bpm: 0, phase: 0, confidence: tempo.confidence };
+        }
+
+        const period = 60 / tempo.bpm;
+        const beats = (time - tempo.offset) / period;
+        const phase = beats - Math.floor(beats);
+
+        // Only count a wrap while time runs forward normally (not on seeks or loops)
+        const elapsed = time - this.lastTime;
+        const isBeat = phase < this.lastPhase && elapsed > 0 && elapsed < period;
+
+        this.lastPhase = phase;
+        this.lastTime = time;
+        return { isBeat, bpm: tempo.bpm, phase, confidence: tempo.confidence };
+    }
+
+    // Resample the irregular per-frame flux history to a fixed rate and autocorrelate it
+    private updateTempo() {
+        if (this.fluxTimes.length < 2) return;
+
+        const start = this.fluxTimes[0];
+        const end = this.fluxTimes[this.fluxTimes.length - 1];
+        const length = Math.floor((end - start) * LIVE_ENVELOPE_RATE);
+        if (length <= 0) return;
+
+        const envelope = new Float32Array(length);
+        let source = 0;
+        for (let i = 0; i < length; i++) {
+            const t = start + i / LIVE_ENVELOPE_RATE;
+            while (source < this.fluxTimes.length - 2 && this.fluxTimes[source + 1] < t) source++;
+            const t0 = this.fluxTimes[source];
+            const t1 = this.fluxTimes[source + 1];
+            const blend = t1 > t0 ? Math.min(Math.max((t - t0) / (t1 - t0), 0), 1) : 0;
+            envelope[i] = this.fluxValues[source] * (1 - blend) + this.fluxValues[source + 1] * blend;
+        }
+
+        this.tempo = estimateTempo(envelope, LIVE_ENVELOPE_RATE, start);
+    }
+}
@@ -0,0 +1,177 @@
+import { SpectrumAnalyzer } from './SpectrumAnalyzer';
+import type { WindowType } from './WindowFunctions';
+
+// ChannelAnalyser: One AnalyserNode plus the buffers that read it
+// AudioController keeps one of these per analysis channel (mix, left, right, mid, side)
+// so every channel can be queried with the same byte and float API.
+export class ChannelAnalyser {
+    public readonly analyser: AnalyserNode;
+    private audioContext: BaseAudioContext;
+    private frequencyData: Uint8Array<ArrayBuffer>;
+    private timeDomainData: Uint8Array<ArrayBuffer>;
+    private floatFrequencyData: Float32Array<ArrayBuffer>;
+    private floatTimeDomainData: Float32Array<ArrayBuffer>;
+    private frequencyLevels: Float32Array;
+    private timeDomainSamples: Float32Array;
+    private customAnalyzer: SpectrumAnalyzer | null = null;
+    private lastCustomFrameTime: number = -1;
+
+    constructor(audioContext: BaseAudioContext, fftSize: number) {
+        this.audioContext = audioContext;
+        this.analyser = audioContext.createAnalyser();
+
+        // Theory Check: FFT (Fast Fourier Transform)
+        // The FFT is an algorithm that converts a signal from the Time Domain (waveform, amplitude over time)
+        // to the Frequency Domain (spectral content, amplitude of component frequencies).
+        //
+        // fftSize:
+        // This defines the window size for the FFT. It must be a power of 2 (e.g., 512, 1024, 2048).
+        // A larger fftSize means more frequency bins (finer resolution), but it's computationally more expensive.
+        // The number of data points we get back is fftSize / 2 (the "frequencyBinCount").
+        // We choose 512 to get 256 data points, which is a good balance for our visualizer.
+        this.analyser.fftSize = fftSize;
+
+        // Theory Check: Decibels
+        // The analyser measures each bin in decibels (dB), a logarithmic scale where
+        // every -20 dB is 10x quieter. The byte API squeezes minDecibels..maxDecibels
+        // into 0-255; the float API returns the real dB values.
+        // smoothingTimeConstant (0-1) averages each frame with the previous ones.
+        this.analyser.minDecibels = -100;
+        this.analyser.maxDecibels = -30;
+        this.analyser.smoothingTimeConstant = 0.8;
+
+        const bufferLength = this.analyser.frequencyBinCount;
+        this.frequencyData = new Uint8Array(bufferLength);
+        this.timeDomainData = new Uint8Array(this.analyser.fftSize);
+        this.floatFrequencyData = new Float32Array(bufferLength);
+        this.floatTimeDomainData = new Float32Array(this.analyser.fftSize);
+        this.frequencyLevels = new Float32Array(bufferLength);
+        this.timeDomainSamples = new Float32Array(this.analyser.fftSize);
+    }
+
+    setFFTSize(size: number) {
+        this.analyser.fftSize = size;
+
+        // Resize data arrays
+        this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+        this.timeDomainData = new Uint8Array(this.analyser.fftSize);
+        this.floatFrequencyData = new Float32Array(this.analyser.frequencyBinCount);
+        this.floatTimeDomainData = new Float32Array(this.analyser.fftSize);
+        this.frequencyLevels = new Float32Array(this.analyser.frequencyBinCount);
+        this.timeDomainSamples = new Float32Array(this.analyser.fftSize);
+        this.customAnalyzer?.setSize(size);
+        this.lastCustomFrameTime = -1;
+    }
+
+    setDecibelRange(minDecibels: number, maxDecibels: number) {
+        // Set in an order that never makes min >= max, or the analyser throws
+        if (minDecibels >= this.analyser.maxDecibels) {
+            this.analyser.maxDecibels = maxDecibels;
+            this.analyser.minDecibels = minDecibels;
+        } else {
+            this.analyser.minDecibels = minDecibels;
+            this.analyser.maxDecibels = maxDecibels;
+        }
+    }
+
+    setSmoothingTimeConstant(value: number) {
+        this.analyser.smoothingTimeConstant = value;
+    }
+
+    // null = the AnalyserNode's own FFT (Blackman window)
+    setWindow(window: WindowType | null, kaiserBeta: number) {
+        if (window === null) {
+            this.customAnalyzer = null;
+        } else if (this.customAnalyzer) {
+            this.customAnalyzer.setWindow(window, kaiserBeta);
+        } else {
+            this.customAnalyzer = new SpectrumAnalyzer(this.analyser.fftSize, window, kaiserBeta);
+        }
+        this.lastCustomFrameTime = -1;
+    }
+
+    getCustomWindow(): Float32Array | null {
+        return this.customAnalyzer ? this.customAnalyzer.getWindow() : null;
+    }
+
+    getFrequencyData(): Uint8Array {
+        // Populates the frequencyData array with current frequency data (0-255).
+        // The array indices correspond to frequency bands.
+        // Lower indices (0, 1, 2...) = Deep Bass (Low Frequencies)
+        // Higher indices = High Treble (High Frequencies)
+        if (this.customAnalyzer) {
+            // Same byte conversion the AnalyserNode uses, applied to our own dB values
+            const data = this.getFloatFrequencyData();
+            const min = this.analyser.minDecibels;
+            const scale = 255 / (this.analyser.maxDecibels - min);
+            for (let i = 0; i < data.length; i++) {
+                this.frequencyData[i] = Math.min(Math.max(Math.floor((data[i] - min) * scale), 0), 255);
+            }
+            return this.frequencyData;
+        }
+
+        this.analyser.getByteFrequencyData(this.frequencyData);
+        return this.frequencyData;
+    }
+
+    getTimeDomainData(): Uint8Array {
+        this.analyser.getByteTimeDomainData(this.timeDomainData);
+        return this.timeDomainData;
+    }
+
+    getFloatFrequencyData(): Float32Array {
+        if (this.customAnalyzer) {
+            // Only compute a new frame when audio time has moved on, so calling this
+            // several times per render frame does not apply the smoothing twice
+            const now = this.audioContext.currentTime;
+            if (now !== this.lastCustomFrameTime) {
+                this.customAnalyzer.process(
+                    this.getFloatTimeDomainData(),
+                    this.analyser.smoothingTimeConstant,
+                    this.floatFrequencyData
+                );
+                this.lastCustomFrameTime = now;
+            }
+            return this.floatFrequencyData;
+        }
+
+        this.analyser.getFloatFrequencyData(this.floatFrequencyData);
+        return this.floatFrequencyData;
+    }
+
+    getFloatTimeDomainData(): Float32Array {
+        this.analyser.getFloatTimeDomainData(this.floatTimeDomainData);
+        return this.floatTimeDomainData;
+    }
+
+    getFrequencyLevels(useFloat: boolean): Float32Array {
+        if (useFloat) {
+            const data = this.getFloatFrequencyData();
+            const min = this.analyser.minDecibels;
+            const range = this.analyser.maxDecibels - min;
+            for (let i = 0; i < data.length; i++) {
+                const level = (data[i] - min) / range;
+                // -Infinity (digital silence) becomes NaN-free 0
+                this.frequencyLevels[i] = level > 0 ? Math.min(level, 1) : 0;
+            }
+        } else {
+            const data = this.getFrequencyData();
+            for (let i = 0; i < data.length; i++) {
+                this.frequencyLevels[i] = data[i] / 255;
+            }
+        }
+        return this.frequencyLevels;
+    }
+
+    getTimeDomainSamples(useFloat: boolean): Float32Array {
+        if (useFloat) {
+            return this.getFloatTimeDomainData();
+        }
+
+        const data = this.getTimeDomainData();
+        for (let i = 0; i < data.length; i++) {
+            this.timeDomainSamples[i] = data[i] / 128 - 1;
+        }
+        return this.timeDomainSamples;
+    }
+}
@@ -0,0 +1,142 @@
+import { NOTE_NAMES } from './PitchDetector';
+import type { Spectrogram } from './Spectrogram';
+
+// Chroma: The spectrum folded into the 12 pitch classes (C, C#, ... B)
+// A C played in any octave (65 Hz, 131 Hz, 262 Hz...) lands in the same class,
+// so the 12 values describe *which notes* sound, whatever the register.
+// That is what harmony, chords and keys are made of.
+
+// Pitch classes above this range are mostly noise and cymbals
+const MAX_CHROMA_FREQUENCY = 5000;
+const MIN_CHROMA_FREQUENCY = 55; // A1
+// Strip resolution for the whole-track chromagram
+const CHROMAGRAM_FRAME_DURATION = 0.1;
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+    tonic: number;      // Pitch class 0-11 (0 = C)
+    mode: KeyMode;
+    name: string;       // e.g. 'A minor'
+    confidence: number; // Correlation with the best key profile (-1..1)
+}
+
+// Whole-track chroma: frameCount columns of 12 values (0-1, loudest class = 1 per frame)
+export interface Chromagram {
+    frames: Float32Array;  // frameCount × 12, frame-major
+    frameCount: number;
+    frameDuration: number; // Seconds per frame
+    key: KeyEstimate | null;
+}
+
+// Pitch class of a frequency (equal temperament, A4 = 440 Hz)
+export function frequencyToPitchClass(frequency: number): number {
+    const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+    return ((midi % 12) + 12) % 12;
+}
+
+// Lookup table bin -> pitch class (-1 = ignored). Bins are only used where they are
+// narrower than a semitone; below that the bass is too coarse to tell notes apart
+// (its harmonics, higher up, still count).
+export function createChromaMap(binCount: number, getFrequencyForBin: (bin: number) => number): Int8Array {
+    const map = new Int8Array(binCount).fill(-1);
+    const binWidth = getFrequencyForBin(1) - getFrequencyForBin(0);
+    // A semitone is ~5.9 % wide: f · (2^(1/12) - 1) > binWidth
+    const minFrequency = Math.max(MIN_CHROMA_FREQUENCY, binWidth / (Math.pow(2, 1 / 12) - 1));
+
+    for (let bin = 1; bin < binCount; bin++) {
+        const frequency = getFrequencyForBin(bin);
+        if (frequency >= minFrequency && frequency <= MAX_CHROMA_FREQUENCY) {
+            map[bin] = frequencyToPitchClass(frequency);
+        }
+    }
+    return map;
+}
+
+// Energy per pitch class from linear magnitudes (not normalised)
+export function computeChromaEnergy(magnitudes: ArrayLike<number>, chromaMap: Int8Array, out?: Float32Array): Float32Array {
+    const chroma = out && out.length === 12 ? out.fill(0) : new Float32Array(12);
+    for (let bin = 0; bin < chromaMap.length; bin++) {
+        const pitchClass = chromaMap[bin];
+        if (pitchClass >= 0) chroma[pitchClass] += magnitudes[bin] * magnitudes[bin];
+    }
+    return chroma;
+}
+
+// Scale so the strongest pitch class is 1 (silence stays all zero)
+export function normalizeChroma(chroma: Float32Array): Float32Array {
+    let max = 0;
+    for (let i = 0; i < 12; i++) max = Math.max(max, chroma[i]);
+    if (max > 0) {
+        for (let i = 0; i < 12; i++) chroma[i] /= max;
+    }
+    return chroma;
+}
+
+// Theory Check: Key Profiles (Krumhansl & Kessler)
+// Listeners rated how well each pitch class "fits" after hearing a key.
+// The tonic, fifth and third score highest. Correlating a track's total chroma
+// with all 24 rotations of the major and minor profiles gives the most likely key.
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+function correlation(a: ArrayLike<number>, b: ArrayLike<number>, shift: number): number {
+    let meanA = 0, meanB = 0;
+    for (let i = 0; i < 12; i++) {
+        meanA += a[i] / 12;
+        meanB += b[i] / 12;
+    }
+    let covariance = 0, varianceA = 0, varianceB = 0;
+    for (let i = 0; i < 12; i++) {
+        const da = a[(i + shift) % 12] - meanA;
+        const db = b[i] - meanB;
+        covariance += da * db;
+        varianceA += da * da;
+        varianceB += db * db;
+    }
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+export function estimateKey(chroma: ArrayLike<number>): KeyEstimate | null {
+    let best: KeyEstimate | null = null;
+    for (let tonic = 0; tonic < 12; tonic++) {
+        for (const mode of ['major', 'minor'] as KeyMode[]) {
+            // Rotate the chroma so the candidate tonic sits where the profile expects it
+            const score = correlation(chroma, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE, tonic);
+            if (!best || score > best.confidence) {
+                best = { tonic, mode, name: `${NOTE_NAMES[tonic]} ${mode}`, confidence: score };
+            }
+        }
+    }
+    // All-zero chroma (silence) correlates with nothing
+    return best && best.confidence > 0 ? best : null;
+}
+
+// Chroma over time for a whole track, averaged into 100 ms frames, plus its key
+export function computeChromagram(spectrogram: Spectrogram): Chromagram {
+    const chromaMap = createChromaMap(spectrogram.binCount, bin => spectrogram.getFrequencyForBin(bin));
+    const framesPerColumn = Math.max(1, Math.round((CHROMAGRAM_FRAME_DURATION * spectrogram.sampleRate) / spectrogram.hopSize));
+    const frameCount = Math.ceil(spectrogram.frameCount / framesPerColumn);
+    const frames = new Float32Array(frameCount * 12);
+    const energy = new Float32Array(12);
+
+    for (let frame = 0; frame < spectrogram.frameCount; frame++) {
+        computeChromaEnergy(spectrogram.getFrame(frame), chromaMap, energy);
+        const offset = Math.floor(frame / framesPerColumn) * 12;
+        for (let i = 0; i < 12; i++) frames[offset + i] += energy[i];
+    }
+
+    // Every 100 ms counts equally towards the key, so one loud chord can't decide it
+    const total = new Float32Array(12);
+    for (let column = 0; column < frameCount; column++) {
+        const chroma = normalizeChroma(frames.subarray(column * 12, column * 12 + 12));
+        for (let i = 0; i < 12; i++) total[i] += chroma[i];
+    }
+
+    return {
+        frames,
+        frameCount,
+        frameDuration: (framesPerColumn * spectrogram.hopSize) / spectrogram.sampleRate,
+        key: estimateKey(total)
+    };
+}
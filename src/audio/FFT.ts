@@ -0,0 +1,83 @@
+// FFT: Pure TypeScript radix-2 Fast Fourier Transform
+// Used wherever we need our own spectrum instead of the browser's AnalyserNode
+// (offline full-track analysis, custom windows, real DFT decomposition).
+export class FFT {
+    public readonly size: number;
+    private cosTable: Float32Array;
+    private sinTable: Float32Array;
+    private reverseTable: Uint32Array;
+
+    constructor(size: number) {
+        // Validate: the radix-2 algorithm only works on powers of 2
+        if (size < 2 || (size & (size - 1)) !== 0) {
+            throw new Error(`FFT size must be a power of 2, got ${size}`);
+        }
+
+        this.size = size;
+
+        // Theory Check: Twiddle Factors
+        // Every butterfly multiplies by e^(-2πik/N) = cos(2πk/N) - i·sin(2πk/N).
+        // These never change for a given size, so we precompute them once.
+        this.cosTable = new Float32Array(size / 2);
+        this.sinTable = new Float32Array(size / 2);
+        for (let i = 0; i < size / 2; i++) {
+            this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+            this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+        }
+
+        // Bit-reversal permutation: the iterative algorithm expects its input
+        // reordered so that index 0b001 swaps with 0b100, and so on.
+        const bits = Math.log2(size);
+        this.reverseTable = new Uint32Array(size);
+        for (let i = 0; i < size; i++) {
+            let reversed = 0;
+            for (let b = 0; b < bits; b++) {
+                reversed = (reversed << 1) | ((i >> b) & 1);
+            }
+            this.reverseTable[i] = reversed;
+        }
+    }
+
+    // In-place forward transform.
+    // real/imag must both have `size` elements; on return they hold the complex spectrum.
+    transform(real: Float32Array, imag: Float32Array) {
+        const n = this.size;
+
+        // 1. Reorder input in bit-reversed order
+        for (let i = 0; i < n; i++) {
+            const j = this.reverseTable[i];
+            if (j > i) {
+                let tmp = real[i];
+                real[i] = real[j];
+                real[j] = tmp;
+                tmp = imag[i];
+                imag[i] = imag[j];
+                imag[j] = tmp;
+            }
+        }
+
+        // 2. Butterflies: combine pairs of half-size DFTs into full-size DFTs
+        for (let blockSize = 2; blockSize <= n; blockSize <<= 1) {
+            const halfSize = blockSize >> 1;
+            const tableStep = n / blockSize;
+
+            for (let start = 0; start < n; start += blockSize) {
+                for (let k = 0; k < halfSize; k++) {
+                    const twiddleRe = this.cosTable[k * tableStep];
+                    const twiddleIm = -this.sinTable[k * tableStep];
+
+                    const even = start + k;
+                    const odd = even + halfSize;
+
+                    const oddRe = real[odd] * twiddleRe - imag[odd] * twiddleIm;
+                    const oddIm = real[odd] * twiddleIm + imag[odd] * twiddleRe;
+
+                    real[odd] = real[even] - oddRe;
+                    imag[odd] = imag[even] - oddIm;
+                    real[even] += oddRe;
+                    imag[even] += oddIm;
+                }
+            }
+        }
+    }
+}
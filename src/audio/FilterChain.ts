@@ -0,0 +1,110 @@
+// FilterChain: A series of BiquadFilterNodes between the sources and the output
+// Lets students hear AND see what an EQ does: sweep a low-pass down and watch
+// the treble bars disappear from the ring.
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass' | 'peaking' | 'lowshelf' | 'highshelf' | 'notch';
+
+export const FILTER_TYPES: FilterType[] = ['lowpass', 'highpass', 'bandpass', 'peaking', 'lowshelf', 'highshelf', 'notch'];
+
+// Only these types use the gain parameter (the others just pass or cut)
+export const GAIN_FILTER_TYPES: FilterType[] = ['peaking', 'lowshelf', 'highshelf'];
+
+export interface FilterBandParams {
+    enabled: boolean;
+    type: FilterType;
+    frequency: number; // Cutoff / centre in Hz
+    gain: number;      // dB (peaking and shelves only)
+    Q: number;         // Resonance / bandwidth
+}
+
+export function createDefaultFilterBands(): FilterBandParams[] {
+    return [
+        { enabled: false, type: 'highpass', frequency: 80, gain: 0, Q: 0.707 },
+        { enabled: true, type: 'peaking', frequency: 300, gain: 0, Q: 1 },
+        { enabled: true, type: 'peaking', frequency: 3000, gain: 0, Q: 1 },
+        { enabled: false, type: 'lowpass', frequency: 8000, gain: 0, Q: 0.707 }
+    ];
+}
+
+export class FilterChain {
+    public readonly input: GainNode;
+    public readonly output: GainNode;
+    private audioContext: BaseAudioContext;
+    private filters: BiquadFilterNode[] = [];
+    private bands: FilterBandParams[] = [];
+    private bypassed: boolean = false;
+
+    constructor(audioContext: BaseAudioContext) {
+        this.audioContext = audioContext;
+        this.input = audioContext.createGain();
+        this.output = audioContext.createGain();
+        this.connectChain();
+    }
+
+    // Replace all bands (creates or removes filter nodes as needed)
+    setBands(bands: FilterBandParams[]) {
+        // Rewiring can click, so only do it when the set of active filters changes
+        const rewire = bands.length !== this.bands.length ||
+            bands.some((band, index) => band.enabled !== this.bands[index].enabled);
+        this.bands = bands.map(band => ({ ...band }));
+
+        while (this.filters.length < bands.length) {
+            this.filters.push(this.audioContext.createBiquadFilter());
+        }
+        this.filters.length = bands.length;
+
+        this.filters.forEach((filter, index) => this.applyBand(filter, this.bands[index]));
+        if (rewire) this.connectChain();
+    }
+
+    setBypass(bypass: boolean) {
+        if (this.bypassed === bypass) return;
+        this.bypassed = bypass;
+        this.connectChain();
+    }
+
+    isBypassed(): boolean {
+        return this.bypassed;
+    }
+
+    // Theory Check: Frequency Response
+    // How much the chain boosts or cuts each frequency, in dB. Filters in series
+    // multiply their gains, so their dB responses simply add up.
+    getFrequencyResponse(frequencies: Float32Array<ArrayBuffer>): Float32Array {
+        const total = new Float32Array(frequencies.length);
+        if (this.bypassed) return total;
+
+        const magnitude = new Float32Array(frequencies.length);
+        const phase = new Float32Array(frequencies.length);
+        this.filters.forEach((filter, index) => {
+            if (!this.bands[index].enabled) return;
+            filter.getFrequencyResponse(frequencies, magnitude, phase);
+            for (let i = 0; i < total.length; i++) {
+                total[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+            }
+        });
+        return total;
+    }
+
+    private applyBand(filter: BiquadFilterNode, band: FilterBandParams) {
+        const now = this.audioContext.currentTime;
+        filter.type = band.type;
+        // Short glides avoid zipper noise while dragging
+        filter.frequency.setTargetAtTime(band.frequency, now, 0.01);
+        filter.gain.setTargetAtTime(band.gain, now, 0.01);
+        filter.Q.setTargetAtTime(band.Q, now, 0.01);
+    }
+
+    // input -> enabled filters in order -> output (or input -> output when bypassed)
+    private connectChain() {
+        this.input.disconnect();
+        this.filters.forEach(filter => filter.disconnect());
+
+        const active = this.bypassed ? [] : this.filters.filter((_, index) => this.bands[index].enabled);
+        let node: AudioNode = this.input;
+        active.forEach(filter => {
+            node.connect(filter);
+            node = filter;
+        });
+        node.connect(this.output);
+    }
+}
@@ -0,0 +1,103 @@
+import { FFT } from './FFT';
+
+// FourierDecomposition: The current time window as a sum of a few real sinusoids
+// Any N samples are exactly the sum of N/2 + 1 cosines (the DFT bins). Keeping only the
+// strongest few gives the best approximation with that many terms; what is left over
+// (the residual) is everything the kept components can't explain.
+export interface FourierComponent {
+    bin: number;       // DFT bin k: exactly k cycles per window
+    frequency: number; // Hz
+    amplitude: number; // Peak amplitude, in sample units (-1..1 scale)
+    phase: number;     // Radians, of a cosine at the window's first sample
+}
+
+export interface DecompositionResult {
+    components: FourierComponent[]; // Strongest first
+    energy: number;                 // Σ x[n]² over the window
+    residualEnergy: number;         // Σ (x[n] - x̂[n])², the part the components miss
+    residualRms: number;
+}
+
+export class FourierDecomposition {
+    private fft: FFT;
+    private real: Float32Array;
+    private imag: Float32Array;
+
+    constructor(size: number) {
+        this.fft = new FFT(size);
+        this.real = new Float32Array(size);
+        this.imag = new Float32Array(size);
+    }
+
+    getSize(): number {
+        return this.fft.size;
+    }
+
+    setSize(size: number) {
+        if (size === this.fft.size) return;
+        this.fft = new FFT(size);
+        this.real = new Float32Array(size);
+        this.imag = new Float32Array(size);
+    }
+
+    // Theory Check: Real DFT Synthesis
+    // x[n] = X₀/N + Σ (2|Xₖ|/N)·cos(2πkn/N + ∠Xₖ) + X_{N/2}/N·(-1)ⁿ,  k = 1 … N/2-1
+    // This is exact, but only without a window: a taper would be "baked into" every
+    // component, so the decomposition here runs on the raw (rectangular) window.
+    //
+    // Theory Check: Parseval's Theorem
+    // Σ x[n]² = Σ |Xₖ|² / N over all bins. Each component holds its own share of the
+    // energy and the cosines are orthogonal, so the strongest-energy components give
+    // the smallest residual, and residual energy = total energy - kept energy.
+    decompose(samples: Float32Array, sampleRate: number, count: number): DecompositionResult {
+        const size = this.fft.size;
+        let energy = 0;
+        for (let i = 0; i < size; i++) {
+            const sample = samples[i] || 0;
+            this.real[i] = sample;
+            this.imag[i] = 0;
+            energy += sample * sample;
+        }
+
+        this.fft.transform(this.real, this.imag);
+
+        // Energy of each real component: DC and Nyquist appear once, every other
+        // frequency twice (its positive and negative bin)
+        const half = size / 2;
+        const binEnergy = new Float32Array(half + 1);
+        for (let bin = 0; bin <= half; bin++) {
+            const power = (this.real[bin] * this.real[bin] + this.imag[bin] * this.imag[bin]) / size;
+            binEnergy[bin] = bin === 0 || bin === half ? power : 2 * power;
+        }
+
+        const bins = Array.from({ length: half + 1 }, (_, bin) => bin)
+            .sort((a, b) => binEnergy[b] - binEnergy[a])
+            .slice(0, Math.max(0, Math.min(count, half + 1)))
+            .filter(bin => binEnergy[bin] > 0);
+
+        let keptEnergy = 0;
+        const components = bins.map(bin => {
+            keptEnergy += binEnergy[bin];
+            const scale = bin === 0 || bin === half ? 1 / size : 2 / size;
+            return {
+                bin,
+                frequency: (bin * sampleRate) / size,
+                amplitude: Math.hypot(this.real[bin], this.imag[bin]) * scale,
+                phase: Math.atan2(this.imag[bin], this.real[bin])
+            };
+        });
+
+        const residualEnergy = Math.max(0, energy - keptEnergy);
+        return {
+            components,
+            energy,
+            residualEnergy,
+            residualRms: Math.sqrt(residualEnergy / size)
+        };
+    }
+}
+
+// One component's value at sample n of a window of `size` samples
+export function evaluateComponent(component: FourierComponent, n: number, size: number): number {
+    return component.amplitude * Math.cos((2 * Math.PI * component.bin * n) / size + component.phase);
+}
@@ -0,0 +1,148 @@
+// Frequency Scales: How the bars divide the spectrum
+//
+// Theory Check: Linear vs Perceptual Frequency
+// FFT bins are spaced linearly (every bin is the same number of Hz wide), but hearing
+// is roughly logarithmic: 100 Hz -> 200 Hz sounds like the same step as 1 kHz -> 2 kHz.
+// With linear bars, half the ring ends up above 10 kHz and the bass gets one or two bars.
+// Warping the axis (log, mel, Bark, octave bands) gives each bar a perceptually similar slice.
+export type FrequencyScaleType = 'linear' | 'logarithmic' | 'mel' | 'bark' | 'third-octave';
+
+export const FREQUENCY_SCALES: FrequencyScaleType[] = ['linear', 'logarithmic', 'mel', 'bark', 'third-octave'];
+
+export interface FrequencyBand {
+    lowHz: number;
+    highHz: number;
+    centerHz: number;
+    startBin: number; // First FFT bin in this band (inclusive)
+    endBin: number;   // Last FFT bin (exclusive); equal to startBin when the band is narrower than a bin
+}
+
+// Lowest frequency for the logarithmic scale (log(0) is undefined, and we hear down to ~20 Hz)
+const MIN_LOG_FREQUENCY = 20;
+
+// Mel scale: pitch as perceived by listeners (O'Shaughnessy formula)
+function hzToMel(hz: number): number {
+    return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+    return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+// Bark scale: the ear's critical bands (Traunmüller formula)
+function hzToBark(hz: number): number {
+    return (26.81 * hz) / (1960 + hz) - 0.53;
+}
+
+function barkToHz(bark: number): number {
+    return (1960 * (bark + 0.53)) / (26.28 - bark);
+}
+
+// ISO 266 1/3-octave bands: centre = 1000 · 2^(n/3), edges a sixth of an octave either side
+function getThirdOctaveBands(nyquist: number): { lowHz: number; highHz: number; centerHz: number }[] {
+    const bands = [];
+    // n = -16 is the 25 Hz band, n = 13 the 20 kHz band
+    for (let n = -16; n <= 13; n++) {
+        const centerHz = 1000 * Math.pow(2, n / 3);
+        const lowHz = centerHz / Math.pow(2, 1 / 6);
+        const highHz = Math.min(centerHz * Math.pow(2, 1 / 6), nyquist);
+        if (lowHz >= nyquist) break;
+        bands.push({ lowHz, highHz, centerHz });
+    }
+    return bands;
+}
+
+// Compute the Hz edges and FFT bin range of every bar.
+// getFrequencyForBin: usually AudioController.getFrequencyForBin, so the mapping follows the FFT size.
+export function computeFrequencyBands(
+    scale: FrequencyScaleType,
+    bandCount: number,
+    binCount: number,
+    getFrequencyForBin: (bin: number) => number
+): FrequencyBand[] {
+    const binWidth = getFrequencyForBin(1);
+    const nyquist = getFrequencyForBin(binCount);
+    const edges: { lowHz: number; highHz: number; centerHz: number }[] = [];
+
+    if (scale === 'third-octave') {
+        // Fixed ISO bands: consecutive bars share a band when there are more bars than bands
+        const isoBands = getThirdOctaveBands(nyquist);
+        for (let i = 0; i < bandCount; i++) {
+            edges.push(isoBands[Math.floor((i / bandCount) * isoBands.length)]);
+        }
+    } else {
+        // Warp: Hz -> scale units, split evenly in scale units, then map back to Hz
+        let toScale = (hz: number) => hz;
+        let fromScale = (value: number) => value;
+        let minHz = 0;
+
+        if (scale === 'logarithmic') {
+            toScale = Math.log;
+            fromScale = Math.exp;
+            minHz = MIN_LOG_FREQUENCY;
+        } else if (scale === 'mel') {
+            toScale = hzToMel;
+            fromScale = melToHz;
+        } else if (scale === 'bark') {
+            toScale = hzToBark;
+            fromScale = barkToHz;
+        }
+
+        const low = toScale(minHz);
+        const high = toScale(nyquist);
+        for (let i = 0; i < bandCount; i++) {
+            edges.push({
+                lowHz: fromScale(low + ((high - low) * i) / bandCount),
+                highHz: fromScale(low + ((high - low) * (i + 1)) / bandCount),
+                centerHz: fromScale(low + ((high - low) * (i + 0.5)) / bandCount)
+            });
+        }
+    }
+
+    return edges.map(({ lowHz, highHz, centerHz }) => {
+        const startBin = Math.min(Math.floor(lowHz / binWidth), binCount - 1);
+        // Small epsilon so exp(log(nyquist)) rounding down does not drop the last bin
+        const endBin = Math.min(Math.floor(highHz / binWidth + 1e-6), binCount);
+        return { lowHz, highHz, centerHz, startBin, endBin };
+    });
+}
+
+// Reduce per-bin levels to one value per band
+export function sampleBands(levels: ArrayLike<number>, bands: FrequencyBand[], out?: Float32Array): Float32Array {
+    const result = out && out.length === bands.length ? out : new Float32Array(bands.length);
+
+    for (let i = 0; i < bands.length; i++) {
+        const { startBin, endBin } = bands[i];
+
+        // If bins > bars (Downsampling): Average the values in the range
+        if (endBin > startBin) {
+            let sum = 0;
+            for (let bin = startBin; bin < endBin; bin++) {
+                sum += levels[bin];
+            }
+            result[i] = sum / (endBin - startBin);
+        }
+        // If bars >= bins (Upsampling): Just take the nearest bin value
+        else {
+            result[i] = levels[startBin] || 0;
+        }
+    }
+
+    return result;
+}
+
+// Index of the band (bar) containing `hz`, or -1 if it falls outside all bands
+export function findBandIndex(bands: FrequencyBand[], hz: number): number {
+    for (let i = 0; i < bands.length; i++) {
+        if (hz >= bands[i].lowHz && hz < bands[i].highHz) return i;
+    }
+    return -1;
+}
+
+// Compact Hz label for axes: 850 -> "850", 1200 -> "1.2k"
+export function formatFrequency(hz: number): string {
+    if (hz >= 1000) {
+        return `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k`;
+    }
+    return `${Math.round(hz)}`;
+}
@@ -0,0 +1,408 @@
+// LoudnessMeter: Level and loudness measurement (sample peak, RMS, true peak, EBU R128)
+// Peak and RMS describe the *signal*; loudness (LUFS) describes what we *hear*.
+// EBU R128 / ITU-R BS.1770 loudness is a mean square like RMS, but measured after
+// a "K-weighting" filter that mimics the ear's sensitivity, and gated so that
+// silence and quiet passages don't drag the programme level down.
+
+// Loudness is built from 100 ms segments: momentary = last 4 (400 ms), short-term = last 30 (3 s)
+export const LOUDNESS_SEGMENT = 0.1;
+const MOMENTARY_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+// RMS window for the level meter (a classic VU-style integration time)
+const RMS_WINDOW = 0.3;
+
+// Gates from BS.1770-4 (integrated) and EBU Tech 3342 (loudness range)
+const ABSOLUTE_GATE = -70;         // LUFS
+const RELATIVE_GATE = -10;         // LU below the ungated level
+const RANGE_RELATIVE_GATE = -20;   // LU below the ungated level
+
+export interface BiquadCoefficients {
+    b: [number, number, number]; // Feedforward
+    a: [number, number, number]; // Feedback (a[0] = 1)
+}
+
+// Live readings (-Infinity = silence)
+export interface LoudnessReading {
+    peak: number[];     // Sample peak of the newest samples per channel, dBFS
+    rms: number[];      // RMS of the last 300 ms per channel, dBFS
+    crest: number;      // Peak-to-RMS ratio of the last 300 ms, dB (loudest channel)
+    truePeak: number;   // Highest 4× oversampled peak since reset, dBTP
+    momentary: number;  // LUFS over 400 ms
+    shortTerm: number;  // LUFS over 3 s
+    integrated: number; // Gated LUFS since reset
+    range: number;      // Loudness range (LRA) since reset, LU
+}
+
+// Whole-file measurement (computed offline from the AudioBuffer)
+export interface LoudnessAnalysis {
+    integrated: number;      // LUFS
+    range: number;           // LU
+    samplePeak: number;      // dBFS
+    truePeak: number;        // dBTP
+    momentary: Float32Array; // LUFS per 100 ms segment (window ending at that segment)
+    shortTerm: Float32Array; // LUFS per 100 ms segment
+}
+
+// Theory Check: K-weighting
+// Stage 1 is a high shelf (+4 dB above ~1.7 kHz: the head makes us more sensitive
+// to treble), stage 2 a high-pass at ~38 Hz (we hardly hear deep bass). These are the
+// BS.1770 filters re-derived for any sample rate (the standard lists 48 kHz only).
+export function getKWeightingCoefficients(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelf: BiquadCoefficients = {
+        b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+        a: [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+    };
+
+    K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highPass: BiquadCoefficients = {
+        b: [1, -2, 1],
+        a: [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+    };
+
+    return [shelf, highPass];
+}
+
+// BS.1770: loudness = -0.691 + 10·log10(Σ channel mean squares) (the -0.691 makes a 1 kHz sine read its RMS in dB)
+export function powerToLoudness(power: number): number {
+    return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+function toDecibels(amplitude: number): number {
+    return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+function mean(values: ArrayLike<number>, start: number, end: number): number {
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += values[i];
+    return end > start ? sum / (end - start) : 0;
+}
+
+// Theory Check: Gating
+// Integrated loudness = mean power of the 400 ms blocks above -70 LUFS, then again
+// over only the blocks within 10 LU of that first result. Pauses don't count.
+export function integratedLoudness(blockPowers: ArrayLike<number>): number {
+    const aboveAbsolute: number[] = [];
+    for (let i = 0; i < blockPowers.length; i++) {
+        if (powerToLoudness(blockPowers[i]) > ABSOLUTE_GATE) aboveAbsolute.push(blockPowers[i]);
+    }
+    if (aboveAbsolute.length === 0) return -Infinity;
+
+    const relativeGate = powerToLoudness(mean(aboveAbsolute, 0, aboveAbsolute.length)) + RELATIVE_GATE;
+    const gated = aboveAbsolute.filter(power => powerToLoudness(power) > relativeGate);
+    return powerToLoudness(mean(gated, 0, gated.length));
+}
+
+// Loudness Range (LRA): spread between the 10th and 95th percentile of the gated
+// short-term loudness. Small for compressed pop, large for film and classical music.
+export function loudnessRange(shortTermPowers: ArrayLike<number>): number {
+    const aboveAbsolute: number[] = [];
+    for (let i = 0; i < shortTermPowers.length; i++) {
+        if (powerToLoudness(shortTermPowers[i]) > ABSOLUTE_GATE) aboveAbsolute.push(shortTermPowers[i]);
+    }
+    if (aboveAbsolute.length === 0) return 0;
+
+    const relativeGate = powerToLoudness(mean(aboveAbsolute, 0, aboveAbsolute.length)) + RANGE_RELATIVE_GATE;
+    const levels = aboveAbsolute.map(powerToLoudness).filter(level => level > relativeGate).sort((a, b) => a - b);
+    if (levels.length === 0) return 0;
+
+    const percentile = (p: number) => levels[Math.min(levels.length - 1, Math.round(p * (levels.length - 1)))];
+    return percentile(0.95) - percentile(0.1);
+}
+
+// Theory Check: True Peak
+// The DAC draws a smooth curve through the samples, and that curve can overshoot
+// between two samples. Oversampling 4× (windowed-sinc interpolation) finds those
+// inter-sample peaks, which can clip a converter even when no sample reaches 0 dBFS.
+const TRUE_PEAK_PHASES = 4;
+const TRUE_PEAK_TAPS = 12; // Samples per interpolated point (6 on each side)
+const TRUE_PEAK_FILTER = createTruePeakFilter();
+
+function createTruePeakFilter(): Float32Array[] {
+    const half = TRUE_PEAK_TAPS / 2;
+    const phases: Float32Array[] = [];
+    for (let p = 1; p < TRUE_PEAK_PHASES; p++) {
+        const taps = new Float32Array(TRUE_PEAK_TAPS);
+        for (let j = 0; j < TRUE_PEAK_TAPS; j++) {
+            // Distance from the interpolated point (i + p/4) to sample i + j - half + 1
+            const t = p / TRUE_PEAK_PHASES - (j - half + 1);
+            const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+            const hann = 0.5 * (1 + Math.cos(Math.PI * t / half));
+            taps[j] = sinc * hann;
+        }
+        phases.push(taps);
+    }
+    return phases;
+}
+
+// Largest absolute value of the 4× oversampled signal over samples[start..end).
+// Samples outside the range are used as filter context when available.
+// Points between two samples quieter than `skipBelow` are not interpolated (an
+// overshoot only matters next to loud samples), which keeps whole files fast.
+export function computeTruePeak(samples: Float32Array, start: number = 0, end: number = samples.length, skipBelow: number = 0): number {
+    const half = TRUE_PEAK_TAPS / 2;
+    let peak = 0;
+    for (let i = start; i < end; i++) {
+        const current = Math.abs(samples[i]);
+        if (current > peak) peak = current;
+
+        const next = i + 1 < samples.length ? Math.abs(samples[i + 1]) : 0;
+        if (current < skipBelow && next < skipBelow) continue;
+
+        for (const taps of TRUE_PEAK_FILTER) {
+            let value = 0;
+            for (let j = 0; j < TRUE_PEAK_TAPS; j++) {
+                value += (samples[i + j - half + 1] || 0) * taps[j];
+            }
+            if (Math.abs(value) > peak) peak = Math.abs(value);
+        }
+    }
+    return peak;
+}
+
+// Sliding momentary (4 segments) and short-term (30 segments) powers
+function slidingMeans(segmentPowers: ArrayLike<number>, window: number): Float32Array {
+    const result = new Float32Array(segmentPowers.length);
+    for (let i = 0; i < segmentPowers.length; i++) {
+        result[i] = mean(segmentPowers, Math.max(0, i - window + 1), i + 1);
+    }
+    return result;
+}
+
+// Offline measurement of a whole decoded file (channels as AudioBuffer.getChannelData
+// returns them). Only windows that lie completely inside the file count towards the
+// integrated loudness and LRA. Takes seconds for a long track: run it in a worker.
+export function analyzeLoudness(channels: Float32Array[], sampleRate: number): LoudnessAnalysis {
+    const length = channels.length > 0 ? channels[0].length : 0;
+    const segmentLength = Math.round(LOUDNESS_SEGMENT * sampleRate);
+    const segmentCount = Math.floor(length / segmentLength);
+    const segmentPowers = new Float64Array(segmentCount);
+    const [shelf, highPass] = getKWeightingCoefficients(sampleRate);
+    let samplePeak = 0;
+    let truePeak = 0;
+
+    channels.forEach(data => {
+        // Both biquads inline (direct form I): this loop runs for every sample of the file
+        const [b0, b1, b2] = shelf.b, [, a1, a2] = shelf.a;
+        const [c0, c1, c2] = highPass.b, [, d1, d2] = highPass.a;
+        let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+
+        for (let s = 0; s < segmentCount; s++) {
+            let sumSquares = 0;
+            for (let i = s * segmentLength; i < (s + 1) * segmentLength; i++) {
+                const x = data[i];
+                const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+                const z = c0 * y + c1 * y1 + c2 * y2 - d1 * z1 - d2 * z2;
+                x2 = x1; x1 = x;
+                y2 = y1; y1 = y;
+                z2 = z1; z1 = z;
+                sumSquares += z * z;
+            }
+            // Channel weights are 1 for L, R and C (surround channels would get 1.41)
+            segmentPowers[s] += sumSquares / segmentLength;
+        }
+
+        let channelPeak = 0;
+        for (let i = 0; i < data.length; i++) channelPeak = Math.max(channelPeak, Math.abs(data[i]));
+        samplePeak = Math.max(samplePeak, channelPeak);
+        // Overshoot between samples more than 6 dB below the loudest one can't set the true peak
+        truePeak = Math.max(truePeak, computeTruePeak(data, 0, data.length, channelPeak * 0.5));
+    });
+
+    const momentaryPowers = slidingMeans(segmentPowers, MOMENTARY_SEGMENTS);
+    const shortTermPowers = slidingMeans(segmentPowers, SHORT_TERM_SEGMENTS);
+
+    return {
+        integrated: integratedLoudness(momentaryPowers.subarray(MOMENTARY_SEGMENTS - 1)),
+        range: loudnessRange(shortTermPowers.subarray(SHORT_TERM_SEGMENTS - 1)),
+        samplePeak: toDecibels(samplePeak),
+        truePeak: toDecibels(truePeak),
+        momentary: momentaryPowers.map(powerToLoudness),
+        shortTerm: shortTermPowers.map(powerToLoudness)
+    };
+}
+
+// Live meter: taps a stereo node with unweighted and K-weighted analysers and turns
+// the samples that arrived since the last update into 100 ms loudness segments.
+export class LoudnessMeter {
+    private audioContext: BaseAudioContext;
+    private rawAnalysers: AnalyserNode[] = [];
+    private weightedAnalysers: AnalyserNode[] = [];
+    private rawData: Float32Array<ArrayBuffer>[] = [];
+    private weightedData: Float32Array<ArrayBuffer>[] = [];
+    private lastUpdateTime: number = -1;
+    // K-weighted power (summed over channels) of the segment being filled
+    private pendingPower: number = 0;
+    private pendingSamples: number = 0;
+    // Completed segments, plus every 400 ms block and 3 s window since reset
+    private segmentPowers: number[] = [];
+    private momentaryPowers: number[] = [];
+    private shortTermPowers: number[] = [];
+    private integrated: number = -Infinity;
+    private range: number = 0;
+    private truePeak: number = 0;
+    private reading: LoudnessReading = LoudnessMeter.silentReading(2);
+
+    constructor(audioContext: BaseAudioContext, input: AudioNode) {
+        this.audioContext = audioContext;
+
+        // One analyser holds at least 400 ms (the momentary window), up to the 32768 maximum
+        const bufferSize = Math.min(32768, Math.pow(2, Math.ceil(Math.log2(0.4 * audioContext.sampleRate))));
+
+        // Web Audio runs the K-weighting: two IIR filters with the exact BS.1770 coefficients
+        const [shelf, highPass] = getKWeightingCoefficients(audioContext.sampleRate);
+        const shelfFilter = audioContext.createIIRFilter(shelf.b, shelf.a);
+        const highPassFilter = audioContext.createIIRFilter(highPass.b, highPass.a);
+        input.connect(shelfFilter);
+        shelfFilter.connect(highPassFilter);
+
+        const rawSplitter = audioContext.createChannelSplitter(2);
+        const weightedSplitter = audioContext.createChannelSplitter(2);
+        input.connect(rawSplitter);
+        highPassFilter.connect(weightedSplitter);
+
+        for (let channel = 0; channel < 2; channel++) {
+            const raw = audioContext.createAnalyser();
+            const weighted = audioContext.createAnalyser();
+            raw.fftSize = bufferSize;
+            weighted.fftSize = bufferSize;
+            rawSplitter.connect(raw, channel);
+            weightedSplitter.connect(weighted, channel);
+            this.rawAnalysers.push(raw);
+            this.weightedAnalysers.push(weighted);
+            this.rawData.push(new Float32Array(bufferSize));
+            this.weightedData.push(new Float32Array(bufferSize));
+        }
+    }
+
+    private static silentReading(channels: number): LoudnessReading {
+        return {
+            peak: new Array(channels).fill(-Infinity),
+            rms: new Array(channels).fill(-Infinity),
+            crest: 0,
+            truePeak: -Infinity,
+            momentary: -Infinity,
+            shortTerm: -Infinity,
+            integrated: -Infinity,
+            range: 0
+        };
+    }
+
+    // Forget the integrated history (new track, new measurement)
+    reset() {
+        this.segmentPowers = [];
+        this.momentaryPowers = [];
+        this.shortTermPowers = [];
+        this.integrated = -Infinity;
+        this.range = 0;
+        this.truePeak = 0;
+        this.pendingPower = 0;
+        this.pendingSamples = 0;
+        this.reading = LoudnessMeter.silentReading(this.rawAnalysers.length);
+    }
+
+    getReading(): LoudnessReading {
+        return this.reading;
+    }
+
+    // Call once per rendered frame
+    update(): LoudnessReading {
+        const now = this.audioContext.currentTime;
+        const sampleRate = this.audioContext.sampleRate;
+        const bufferSize = this.rawData[0].length;
+        const newSamples = this.lastUpdateTime < 0 ? 0 :
+            Math.min(bufferSize, Math.round((now - this.lastUpdateTime) * sampleRate));
+        this.lastUpdateTime = now;
+        if (newSamples <= 0) return this.reading;
+
+        const rmsLength = Math.min(bufferSize, Math.round(RMS_WINDOW * sampleRate));
+        const peak: number[] = [];
+        const rms: number[] = [];
+        let crest = 0;
+
+        this.rawAnalysers.forEach((analyser, channel) => {
+            const data = this.rawData[channel];
+            analyser.getFloatTimeDomainData(data);
+
+            let newPeak = 0;
+            for (let i = bufferSize - newSamples; i < bufferSize; i++) newPeak = Math.max(newPeak, Math.abs(data[i]));
+            peak.push(toDecibels(newPeak));
+            // The interpolator needs TRUE_PEAK_TAPS/2 samples after each point, which the
+            // newest samples don't have yet: stop that far from the end, and pick those
+            // samples up next update (the whole range shifts back by the same amount)
+            const lag = TRUE_PEAK_TAPS / 2;
+            this.truePeak = Math.max(this.truePeak, computeTruePeak(data, Math.max(0, bufferSize - newSamples - lag), bufferSize - lag));
+
+            let sumSquares = 0;
+            let windowPeak = 0;
+            for (let i = bufferSize - rmsLength; i < bufferSize; i++) {
+                sumSquares += data[i] * data[i];
+                windowPeak = Math.max(windowPeak, Math.abs(data[i]));
+            }
+            const channelRms = Math.sqrt(sumSquares / rmsLength);
+            rms.push(toDecibels(channelRms));
+            if (channelRms > 0) crest = Math.max(crest, toDecibels(windowPeak / channelRms));
+        });
+
+        // K-weighted power of the new samples, summed over channels, closes a 100 ms segment
+        // whenever enough samples have arrived (frames rarely line up with segment edges,
+        // so a segment may be a few ms longer; no sample is counted twice or skipped)
+        let power = 0;
+        this.weightedAnalysers.forEach((analyser, channel) => {
+            const data = this.weightedData[channel];
+            analyser.getFloatTimeDomainData(data);
+            let sumSquares = 0;
+            for (let i = bufferSize - newSamples; i < bufferSize; i++) sumSquares += data[i] * data[i];
+            power += sumSquares;
+        });
+        this.accumulateSegment(power, newSamples, sampleRate);
+
+        const recent = (count: number) => {
+            const segments = this.segmentPowers.slice(-count);
+            return powerToLoudness(mean(segments, 0, segments.length));
+        };
+
+        this.reading = {
+            peak,
+            rms,
+            crest,
+            truePeak: toDecibels(this.truePeak),
+            momentary: recent(MOMENTARY_SEGMENTS),
+            shortTerm: recent(SHORT_TERM_SEGMENTS),
+            integrated: this.integrated,
+            range: this.range
+        };
+        return this.reading;
+    }
+
+    private accumulateSegment(sumSquares: number, samples: number, sampleRate: number) {
+        this.pendingPower += sumSquares;
+        this.pendingSamples += samples;
+        if (this.pendingSamples < LOUDNESS_SEGMENT * sampleRate) return;
+
+        this.segmentPowers.push(this.pendingPower / this.pendingSamples);
+        this.pendingPower = 0;
+        this.pendingSamples = 0;
+
+        // Completed 400 ms blocks and 3 s windows (every 100 ms, as the standard asks)
+        const count = this.segmentPowers.length;
+        if (count >= MOMENTARY_SEGMENTS) {
+            this.momentaryPowers.push(mean(this.segmentPowers, count - MOMENTARY_SEGMENTS, count));
+        }
+        if (count >= SHORT_TERM_SEGMENTS) {
+            this.shortTermPowers.push(mean(this.segmentPowers, count - SHORT_TERM_SEGMENTS, count));
+        }
+        // Only the last 3 s of segments are needed again
+        if (count > SHORT_TERM_SEGMENTS * 2) this.segmentPowers.splice(0, count - SHORT_TERM_SEGMENTS);
+
+        // The gated values only change when a block completes
+        this.integrated = integratedLoudness(this.momentaryPowers);
+        this.range = loudnessRange(this.shortTermPowers);
+    }
+}
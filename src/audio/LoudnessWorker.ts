@@ -0,0 +1,28 @@
+import { analyzeLoudness, type LoudnessAnalysis } from './LoudnessMeter';
+
+// Web Worker entry point for OfflineAnalyzer.measureLoudness.
+// K-weighting and 4× oversampling touch every sample several times; a long track takes seconds.
+export interface LoudnessRequest {
+    id: number;
+    channels: Float32Array[];
+    sampleRate: number;
+}
+
+export interface LoudnessResponse {
+    id: number;
+    analysis?: LoudnessAnalysis;
+    error?: string;
+}
+
+self.addEventListener('message', (event: MessageEvent<LoudnessRequest>) => {
+    const { id, channels, sampleRate } = event.data;
+
+    try {
+        const analysis = analyzeLoudness(channels, sampleRate);
+        const response: LoudnessResponse = { id, analysis };
+        self.postMessage(response, { transfer: [analysis.momentary.buffer, analysis.shortTerm.buffer] });
+    } catch (err) {
+        const response: LoudnessResponse = { id, error: (err as Error).message };
+        self.postMessage(response);
+    }
+});
@@ -0,0 +1,144 @@
+import { NoiseGate } from './NoiseGate';
+
+// MicrophoneInput: A capture device with an input gain stage and a noise gate
+// Graph: getUserMedia stream -> gain -> noise gate -> output
+//
+// Browsers clean up voice for calls by default: echo cancellation, noise suppression
+// and automatic gain control (AGC). All three rewrite the spectrum (AGC pumps the
+// level, noise suppression carves out steady tones), so for analysis they start off.
+export interface MicrophoneParams {
+    deviceId: string;           // '' = the browser's default input
+    echoCancellation: boolean;
+    noiseSuppression: boolean;
+    autoGainControl: boolean;
+    gain: number;               // Input gain in dB
+    gateEnabled: boolean;
+    gateThreshold: number;      // dBFS
+}
+
+export interface InputDevice {
+    deviceId: string;
+    label: string;
+}
+
+export function createDefaultMicrophoneParams(): MicrophoneParams {
+    return {
+        deviceId: '',
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        gain: 0,
+        gateEnabled: false,
+        gateThreshold: -50
+    };
+}
+
+// Audio inputs the browser knows about. Labels stay empty until the page has been
+// granted microphone access once, so unnamed devices are numbered instead.
+export async function listInputDevices(): Promise<InputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+        .filter(device => device.kind === 'audioinput')
+        .map((device, index) => ({
+            deviceId: device.deviceId,
+            label: device.label || `Microphone ${index + 1}`
+        }));
+}
+
+// Settings that change the stream itself; the rest apply to the running graph
+function needsNewStream(previous: MicrophoneParams, params: MicrophoneParams): boolean {
+    return previous.deviceId !== params.deviceId ||
+        previous.echoCancellation !== params.echoCancellation ||
+        previous.noiseSuppression !== params.noiseSuppression ||
+        previous.autoGainControl !== params.autoGainControl;
+}
+
+export class MicrophoneInput {
+    public readonly output: GainNode;
+    private audioContext: AudioContext;
+    private stream: MediaStream | null = null;
+    private source: MediaStreamAudioSourceNode | null = null;
+    private inputGain: GainNode;
+    private gate: NoiseGate;
+    private params: MicrophoneParams = createDefaultMicrophoneParams();
+
+    constructor(audioContext: AudioContext) {
+        this.audioContext = audioContext;
+        this.inputGain = audioContext.createGain();
+        this.gate = new NoiseGate(audioContext);
+        this.output = this.gate.output;
+        this.inputGain.connect(this.gate.input);
+    }
+
+    // Open the device (or switch to another one). The old stream is only released
+    // once the new one works, so a refused device leaves the current input running.
+    async start(params: MicrophoneParams) {
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+                deviceId: params.deviceId ? { exact: params.deviceId } : undefined,
+                echoCancellation: params.echoCancellation,
+                noiseSuppression: params.noiseSuppression,
+                autoGainControl: params.autoGainControl
+            }
+        });
+
+        this.releaseStream();
+        this.stream = stream;
+        this.source = this.audioContext.createMediaStreamSource(stream);
+        this.source.connect(this.inputGain);
+        this.gate.start();
+        this.applyParams(params);
+    }
+
+    stop() {
+        this.releaseStream();
+        this.gate.stop();
+    }
+
+    isRunning(): boolean {
+        return this.stream !== null;
+    }
+
+    // Apply new parameters live. Gain and gate change at once; a different device
+    // or processing option reopens the stream.
+    async update(params: MicrophoneParams) {
+        if (this.stream && needsNewStream(this.params, params)) {
+            await this.start(params);
+        } else {
+            this.applyParams(params);
+        }
+    }
+
+    // The device actually in use (after a default-device start, this is its real id)
+    getActiveDeviceId(): string {
+        return this.stream?.getAudioTracks()[0]?.getSettings().deviceId ?? '';
+    }
+
+    // Level after the input gain (what the gate sees), in dBFS
+    getLevel(): number {
+        return this.gate.getLevel();
+    }
+
+    isGateOpen(): boolean {
+        return this.gate.isOpen();
+    }
+
+    private applyParams(params: MicrophoneParams) {
+        this.params = { ...params };
+        // dB -> linear: +6 dB doubles the amplitude
+        this.inputGain.gain.setTargetAtTime(Math.pow(10, params.gain / 20), this.audioContext.currentTime, 0.01);
+        this.gate.setThreshold(params.gateThreshold);
+        this.gate.setEnabled(params.gateEnabled);
+    }
+
+    // Stopping the tracks turns off the browser's recording indicator
+    private releaseStream() {
+        if (this.source) {
+            this.source.disconnect();
+            this.source = null;
+        }
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+    }
+}
@@ -0,0 +1,108 @@
+// NoiseGate: Mutes the signal while it stays below a threshold
+// Between words or notes a microphone still picks up fans, hum and room noise,
+// which fills the spectrum with a grey "floor". The gate closes on that quiet
+// background and opens again as soon as the level rises above the threshold.
+//
+// Web Audio has no gate node, so the level is measured with an AnalyserNode on a
+// short timer and a GainNode is opened or closed. The gate reacts a few ms late,
+// which is fine for visualisation (a sample-accurate gate would need a worklet).
+
+// How often the level is checked, and the samples it is measured over (~10 ms)
+const GATE_INTERVAL = 10;
+const GATE_WINDOW = 512;
+// Opening is fast so attacks survive; closing waits and fades so word endings don't chop
+const ATTACK_TIME = 0.002;
+const HOLD_TIME = 0.15;
+const RELEASE_TIME = 0.06;
+// Hysteresis: once open, the level must fall this far below the threshold to close
+const HYSTERESIS = 6;
+
+export class NoiseGate {
+    public readonly input: GainNode;
+    public readonly output: GainNode;
+    private audioContext: BaseAudioContext;
+    private analyser: AnalyserNode;
+    private samples: Float32Array<ArrayBuffer>;
+    private enabled: boolean = false;
+    private threshold: number = -50;  // dBFS
+    private open: boolean = true;
+    private lastAboveTime: number = 0;
+    private level: number = -Infinity; // dBFS RMS of the last window
+    private timer: number | null = null;
+
+    constructor(audioContext: BaseAudioContext) {
+        this.audioContext = audioContext;
+        this.input = audioContext.createGain();
+        this.output = audioContext.createGain();
+        this.analyser = audioContext.createAnalyser();
+        this.analyser.fftSize = GATE_WINDOW;
+        this.samples = new Float32Array(GATE_WINDOW);
+
+        this.input.connect(this.output);
+        this.input.connect(this.analyser);
+    }
+
+    // Measuring only runs while a source is connected
+    start() {
+        if (this.timer === null) {
+            this.timer = window.setInterval(() => this.process(), GATE_INTERVAL);
+        }
+    }
+
+    stop() {
+        if (this.timer !== null) {
+            window.clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.level = -Infinity;
+    }
+
+    setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+        if (!enabled) this.setOpen(true);
+    }
+
+    setThreshold(threshold: number) {
+        this.threshold = threshold;
+    }
+
+    getThreshold(): number {
+        return this.threshold;
+    }
+
+    // Input level (before the gate) in dBFS
+    getLevel(): number {
+        return this.level;
+    }
+
+    // True while the signal passes (always true when the gate is disabled)
+    isOpen(): boolean {
+        return this.open;
+    }
+
+    private process() {
+        this.analyser.getFloatTimeDomainData(this.samples);
+        let sumSquares = 0;
+        for (let i = 0; i < this.samples.length; i++) {
+            sumSquares += this.samples[i] * this.samples[i];
+        }
+        this.level = 10 * Math.log10(sumSquares / this.samples.length);
+
+        if (!this.enabled) return;
+        const now = this.audioContext.currentTime;
+        if (this.level > this.threshold) {
+            this.lastAboveTime = now;
+            this.setOpen(true);
+        } else if (this.open && this.level < this.threshold - HYSTERESIS && now - this.lastAboveTime > HOLD_TIME) {
+            this.setOpen(false);
+        }
+    }
+
+    private setOpen(open: boolean) {
+        if (this.open === open) return;
+        this.open = open;
+        const now = this.audioContext.currentTime;
+        this.output.gain.cancelScheduledValues(now);
+        this.output.gain.setTargetAtTime(open ? 1 : 0, now, open ? ATTACK_TIME : RELEASE_TIME);
+    }
+}
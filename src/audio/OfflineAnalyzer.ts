@@ -0,0 +1,167 @@
+import type { RhythmAnalysis } from './BeatDetector';
+import type { Chromagram } from './Chroma';
+import type { LoudnessAnalysis } from './LoudnessMeter';
+import type { LoudnessResponse } from './LoudnessWorker';
+import type { SpectralFeatures } from './SpectralFeatures';
+import { Spectrogram } from './Spectrogram';
+import type { STFTOptions } from './STFT';
+import type { SpectrogramRequest, SpectrogramResponse } from './SpectrogramWorker';
+
+// Largest spectrogram matrix (frames × bins) kept in memory: 2^25 floats = 128 MB.
+// Longer tracks get a larger hop instead, so an hour-long file stays within it.
+const MAX_SPECTROGRAM_VALUES = 1 << 25;
+
+// A full-track spectrogram and the analyses derived from it
+export interface OfflineAnalysis {
+    spectrogram: Spectrogram;
+    rhythm: RhythmAnalysis;
+    chromagram: Chromagram;
+    features: SpectralFeatures;
+}
+
+// OfflineAnalyzer: Runs a full-track STFT off the main thread
+// Takes a decoded AudioBuffer (from WaveformModel3D.loadAudioFile) and resolves
+// with a Spectrogram once the worker has processed every frame.
+// Loudness (EBU R128) has its own worker so it doesn't queue behind a long STFT.
+export class OfflineAnalyzer {
+    private worker: Worker;
+    private loudnessWorker: Worker;
+    private nextRequestId: number = 1;
+    // Track whose samples the STFT worker holds, so a re-analysis sends only its id
+    private workerTrack: AudioBuffer | null = null;
+    private workerTrackId: number = 0;
+    private pendingLoudness = new Map<number, {
+        resolve: (analysis: LoudnessAnalysis) => void;
+        reject: (err: Error) => void;
+    }>();
+    private pending = new Map<number, {
+        resolve: (analysis: OfflineAnalysis) => void;
+        reject: (err: Error) => void;
+        options: STFTOptions;
+        sampleRate: number;
+        duration: number;
+    }>();
+
+    constructor() {
+        this.worker = new Worker(new URL('./SpectrogramWorker.ts', import.meta.url), { type: 'module' });
+        this.worker.addEventListener('message', (event: MessageEvent<SpectrogramResponse>) => {
+            this.handleResponse(event.data);
+        });
+
+        this.loudnessWorker = new Worker(new URL('./LoudnessWorker.ts', import.meta.url), { type: 'module' });
+        this.loudnessWorker.addEventListener('message', (event: MessageEvent<LoudnessResponse>) => {
+            this.handleLoudnessResponse(event.data);
+        });
+    }
+
+    // The spectrogram may use a larger hop than requested, to stay within
+    // MAX_SPECTROGRAM_VALUES (its hopSize is the one actually used)
+    analyze(buffer: AudioBuffer, requested: STFTOptions): Promise<OfflineAnalysis> {
+        const id = this.nextRequestId++;
+        const maxFrames = Math.floor(MAX_SPECTROGRAM_VALUES / (requested.frameSize / 2));
+        const options = { ...requested, hopSize: Math.max(requested.hopSize, Math.ceil(buffer.length / maxFrames)) };
+
+        // A new track: hand its channels to the worker once (it mixes them to mono itself)
+        let channels: Float32Array[] | undefined;
+        if (buffer !== this.workerTrack) {
+            this.workerTrack = buffer;
+            this.workerTrackId++;
+            channels = this.copyChannels(buffer);
+        }
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, {
+                resolve,
+                reject,
+                options,
+                sampleRate: buffer.sampleRate,
+                duration: buffer.duration
+            });
+
+            const raised = options.hopSize > requested.hopSize ? ` raised from ${requested.hopSize} for length` : '';
+            console.log(`[OfflineAnalyzer] Analysing ${buffer.duration.toFixed(2)}s (frame ${options.frameSize}, hop ${options.hopSize}${raised}, ${options.window})`);
+            const message: SpectrogramRequest = {
+                id,
+                trackId: this.workerTrackId,
+                channels,
+                options,
+                sampleRate: buffer.sampleRate,
+                duration: buffer.duration
+            };
+            this.worker.postMessage(message, channels ? channels.map(channel => channel.buffer) : []);
+        });
+    }
+
+    // Integrated loudness, LRA and true peak of the whole track, plus its loudness curves
+    measureLoudness(buffer: AudioBuffer): Promise<LoudnessAnalysis> {
+        const id = this.nextRequestId++;
+        const channels = this.copyChannels(buffer);
+
+        return new Promise((resolve, reject) => {
+            this.pendingLoudness.set(id, { resolve, reject });
+            this.loudnessWorker.postMessage({ id, channels, sampleRate: buffer.sampleRate }, channels.map(channel => channel.buffer));
+        });
+    }
+
+    private handleLoudnessResponse(response: LoudnessResponse) {
+        const request = this.pendingLoudness.get(response.id);
+        if (!request) return;
+        this.pendingLoudness.delete(response.id);
+
+        if (response.error || !response.analysis) {
+            request.reject(new Error(response.error || 'Loudness worker returned no data'));
+            return;
+        }
+        request.resolve(response.analysis);
+    }
+
+    private handleResponse(response: SpectrogramResponse) {
+        const request = this.pending.get(response.id);
+        if (!request) return;
+        this.pending.delete(response.id);
+
+        if (response.error || !response.magnitudes || !response.rhythm || !response.chromagram || !response.features) {
+            // The worker may not hold the track's samples: send them again next time
+            this.workerTrack = null;
+            request.reject(new Error(response.error || 'STFT worker returned no data'));
+            return;
+        }
+
+        const spectrogram = new Spectrogram(
+            {
+                magnitudes: response.magnitudes,
+                frameCount: response.frameCount!,
+                binCount: response.binCount!
+            },
+            request.options,
+            request.sampleRate,
+            request.duration
+        );
+        console.log(`[OfflineAnalyzer] Spectrogram ready: ${spectrogram.frameCount} frames × ${spectrogram.binCount} bins`);
+        request.resolve({
+            spectrogram,
+            rhythm: response.rhythm,
+            chromagram: response.chromagram,
+            features: response.features
+        });
+    }
+
+    // Copies of every channel, so they can be transferred to a worker
+    // (a plain memory copy: the per-sample work happens in the workers)
+    private copyChannels(buffer: AudioBuffer): Float32Array[] {
+        const channels: Float32Array[] = [];
+        for (let c = 0; c < buffer.numberOfChannels; c++) {
+            channels.push(buffer.getChannelData(c).slice());
+        }
+        return channels;
+    }
+
+    dispose() {
+        this.worker.terminate();
+        this.loudnessWorker.terminate();
+        this.pending.forEach(request => request.reject(new Error('OfflineAnalyzer disposed')));
+        this.pending.clear();
+        this.pendingLoudness.forEach(request => request.reject(new Error('OfflineAnalyzer disposed')));
+        this.pendingLoudness.clear();
+    }
+}
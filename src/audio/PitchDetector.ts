@@ -0,0 +1,107 @@
+// PitchDetector: Fundamental frequency (f0) estimation with the YIN algorithm
+// The spectrum shows every harmonic of a note; the note we *hear* is the
+// fundamental, the rate at which the whole waveform repeats. YIN finds that
+// repetition period directly in the time domain.
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Concert pitch: A4 = 440 Hz = MIDI note 69
+const A4_FREQUENCY = 440;
+const A4_MIDI = 69;
+
+export interface NoteInfo {
+    name: string;  // e.g. 'A4'
+    midi: number;  // Nearest MIDI note number
+    cents: number; // Offset from that note, -50..+50 (100 cents = 1 semitone)
+}
+
+export interface PitchResult extends NoteInfo {
+    frequency: number;  // f0 in Hz
+    confidence: number; // 0-1 (1 = perfectly periodic)
+}
+
+// Theory Check: Equal Temperament
+// Every semitone multiplies the frequency by 2^(1/12), so the note number is
+// logarithmic in Hz: midi = 69 + 12 · log2(f / 440).
+export function frequencyToNote(frequency: number): NoteInfo {
+    const exactMidi = A4_MIDI + 12 * Math.log2(frequency / A4_FREQUENCY);
+    const midi = Math.round(exactMidi);
+    const octave = Math.floor(midi / 12) - 1;
+    return {
+        name: `${NOTE_NAMES[((midi % 12) + 12) % 12]}${octave}`,
+        midi,
+        cents: Math.round((exactMidi - midi) * 100)
+    };
+}
+
+export class PitchDetector {
+    // YIN's "absolute threshold": lower = stricter about what counts as periodic
+    private threshold: number = 0.15;
+    // Search range: about G1 (49 Hz) to B6 (1976 Hz), enough for voices and most instruments
+    private minFrequency: number = 50;
+    private maxFrequency: number = 2000;
+    // Below this RMS the input is treated as silence
+    private minRms: number = 0.01;
+    private difference: Float32Array = new Float32Array(0);
+
+    // samples: time-domain data in -1..1. Returns null for silence or unpitched sound (noise).
+    // The lowest detectable note needs two periods in the buffer: 2048 samples at 44.1 kHz reach ~43 Hz.
+    detect(samples: Float32Array, sampleRate: number): PitchResult | null {
+        let sumSquares = 0;
+        for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+        if (Math.sqrt(sumSquares / samples.length) < this.minRms) return null;
+
+        const windowSize = Math.floor(samples.length / 2);
+        const tauMin = Math.max(2, Math.floor(sampleRate / this.maxFrequency));
+        const tauMax = Math.min(windowSize - 1, Math.floor(sampleRate / this.minFrequency));
+        if (tauMax <= tauMin) return null;
+
+        if (this.difference.length !== tauMax + 2) {
+            this.difference = new Float32Array(tauMax + 2);
+        }
+        const d = this.difference;
+
+        // Step 1: Difference function d(τ) = Σ (x[j] - x[j + τ])²
+        // Zero when the signal shifted by τ lines up with itself exactly.
+        for (let tau = 1; tau <= tauMax + 1; tau++) {
+            let sum = 0;
+            for (let j = 0; j < windowSize; j++) {
+                const delta = samples[j] - samples[j + tau];
+                sum += delta * delta;
+            }
+            d[tau] = sum;
+        }
+
+        // Step 2: Cumulative mean normalised difference d'(τ) = d(τ) / mean(d(1..τ))
+        // Removes the bias towards tiny τ, where d is small just because the shift is small.
+        d[0] = 1;
+        let runningSum = 0;
+        for (let tau = 1; tau <= tauMax + 1; tau++) {
+            runningSum += d[tau];
+            d[tau] = runningSum > 0 ? (d[tau] * tau) / runningSum : 1;
+        }
+
+        // Step 3: The first dip below the threshold is the period (not the deepest dip,
+        // which is often a multiple of the period: an octave error)
+        let tau = -1;
+        for (let t = tauMin; t <= tauMax; t++) {
+            if (d[t] < this.threshold) {
+                while (t + 1 <= tauMax && d[t + 1] < d[t]) t++;
+                tau = t;
+                break;
+            }
+        }
+        if (tau === -1) return null;
+
+        // Step 4: Parabolic interpolation for a period between two samples
+        const a = d[tau - 1], b = d[tau], c = d[tau + 1];
+        const denominator = a - 2 * b + c;
+        const shift = denominator !== 0 ? Math.min(Math.max(0.5 * (a - c) / denominator, -0.5), 0.5) : 0;
+
+        const frequency = sampleRate / (tau + shift);
+        return {
+            frequency,
+            confidence: Math.min(Math.max(1 - b, 0), 1),
+            ...frequencyToNote(frequency)
+        };
+    }
+}
@@ -0,0 +1,56 @@
+import { FFT } from './FFT';
+import { createWindow, getWindowSum, type WindowType } from './WindowFunctions';
+
+export interface STFTOptions {
+    frameSize: number;   // Samples per analysis frame (power of 2)
+    hopSize: number;     // Samples between the starts of consecutive frames
+    window: WindowType;
+    kaiserBeta?: number; // Only used by the Kaiser window
+}
+
+export interface STFTResult {
+    magnitudes: Float32Array; // frameCount × binCount, row-major (one row per frame)
+    frameCount: number;
+    binCount: number;
+}
+
+// Short-Time Fourier Transform
+// Slides a window along the signal and runs one FFT per position, turning a
+// 1D signal (amplitude over time) into a 2D matrix (amplitude over time AND frequency).
+// Pure function with no DOM access so it can run inside a Web Worker.
+export function computeSTFT(samples: Float32Array, options: STFTOptions): STFTResult {
+    const { frameSize, hopSize } = options;
+    const fft = new FFT(frameSize);
+    const window = createWindow(options.window, frameSize, options.kaiserBeta);
+
+    // Normalise so a full-scale sine wave reads 1.0 regardless of window or frame size
+    const amplitudeScale = 2 / getWindowSum(window);
+
+    const binCount = frameSize / 2;
+    const frameCount = Math.max(1, Math.ceil(samples.length / hopSize));
+    const magnitudes = new Float32Array(frameCount * binCount);
+
+    const real = new Float32Array(frameSize);
+    const imag = new Float32Array(frameSize);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        // Frames are centred on their timestamp, so the first one starts before t = 0
+        const start = frame * hopSize - frameSize / 2;
+
+        for (let i = 0; i < frameSize; i++) {
+            const index = start + i;
+            const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+            real[i] = sample * window[i];
+            imag[i] = 0;
+        }
+
+        fft.transform(real, imag);
+
+        const rowOffset = frame * binCount;
+        for (let bin = 0; bin < binCount; bin++) {
+            magnitudes[rowOffset + bin] = Math.hypot(real[bin], imag[bin]) * amplitudeScale;
+        }
+    }
+
+    return { magnitudes, frameCount, binCount };
+}
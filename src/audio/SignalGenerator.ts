@@ -0,0 +1,271 @@
+// SignalGenerator: Controlled test signals built from Web Audio oscillators
+// A known input makes the Fourier view checkable: a 440 Hz sine must show exactly
+// one peak at 440 Hz, a square wave must show only odd harmonics, and so on.
+export type SignalType = 'sine' | 'square' | 'sawtooth' | 'triangle' | 'white-noise' | 'pink-noise' | 'sweep' | 'harmonics';
+
+export const SIGNAL_TYPES: SignalType[] = ['sine', 'square', 'sawtooth', 'triangle', 'white-noise', 'pink-noise', 'sweep', 'harmonics'];
+
+// Most partials the custom harmonic sum (and the GUI) supports
+export const MAX_HARMONICS = 8;
+
+export interface Harmonic {
+    amplitude: number; // 0-1
+    phase: number;     // Degrees
+}
+
+export interface SignalGeneratorParams {
+    type: SignalType;
+    frequency: number;      // Fundamental in Hz (sine/square/saw/triangle/harmonics)
+    gain: number;           // Output level 0-1
+    sweepStart: number;     // Hz
+    sweepEnd: number;       // Hz
+    sweepDuration: number;  // Seconds per sweep
+    harmonicCount: number;  // How many of `harmonics` are used (1..MAX_HARMONICS)
+    harmonics: Harmonic[];
+}
+
+// A sinusoid the generated signal is known to contain
+export interface SignalComponent {
+    frequency: number;
+    amplitude: number;
+    phase: number; // Degrees
+}
+
+export function createDefaultSignalParams(): SignalGeneratorParams {
+    const harmonics: Harmonic[] = [];
+    for (let n = 1; n <= MAX_HARMONICS; n++) {
+        harmonics.push({ amplitude: n === 1 ? 1 : 0, phase: 0 });
+    }
+
+    return {
+        type: 'sine',
+        frequency: 440,
+        gain: 0.3,
+        sweepStart: 20,
+        sweepEnd: 20000,
+        sweepDuration: 5,
+        harmonicCount: 4,
+        harmonics
+    };
+}
+
+export class SignalGenerator {
+    public readonly output: GainNode;
+    private audioContext: AudioContext;
+    private source: OscillatorNode | AudioBufferSourceNode | null = null;
+    private activeType: SignalType | null = null;
+    private params: SignalGeneratorParams = createDefaultSignalParams();
+    private sweepTimer: number | null = null;
+    private noiseBuffers: Partial<Record<'white-noise' | 'pink-noise', AudioBuffer>> = {};
+
+    constructor(audioContext: AudioContext) {
+        this.audioContext = audioContext;
+        this.output = audioContext.createGain();
+        this.output.gain.value = 0;
+    }
+
+    start(params: SignalGeneratorParams) {
+        this.update(params);
+    }
+
+    stop() {
+        this.stopSource();
+        this.output.gain.cancelScheduledValues(this.audioContext.currentTime);
+        this.output.gain.value = 0;
+    }
+
+    isRunning(): boolean {
+        return this.source !== null;
+    }
+
+    // Apply new parameters live. Frequency and gain glide; the source is only
+    // rebuilt when the signal type changes.
+    update(params: SignalGeneratorParams) {
+        const previous = this.params;
+        this.params = { ...params, harmonics: params.harmonics.map(h => ({ ...h })) };
+        const now = this.audioContext.currentTime;
+
+        if (!this.source || this.activeType !== params.type) {
+            this.createSource();
+        } else if (this.source instanceof OscillatorNode) {
+            if (params.type === 'sweep') {
+                if (params.sweepStart !== previous.sweepStart ||
+                    params.sweepEnd !== previous.sweepEnd ||
+                    params.sweepDuration !== previous.sweepDuration) {
+                    this.startSweep(this.source);
+                }
+            } else {
+                // Short glide instead of a jump avoids clicks while dragging the slider
+                this.source.frequency.setTargetAtTime(params.frequency, now, 0.01);
+                if (params.type === 'harmonics') {
+                    this.source.setPeriodicWave(this.createHarmonicWave());
+                }
+            }
+        }
+
+        this.output.gain.setTargetAtTime(params.gain, now, 0.01);
+    }
+
+    // The sinusoids this signal is made of, as far as theory says (noise has none).
+    // Square, sawtooth and triangle list their first MAX_HARMONICS Fourier series terms.
+    getComponents(): SignalComponent[] {
+        const { type, frequency, gain } = this.params;
+        const components: SignalComponent[] = [];
+
+        for (let n = 1; n <= MAX_HARMONICS; n++) {
+            let amplitude = 0;
+            let phase = 0;
+
+            switch (type) {
+                case 'sine':
+                    amplitude = n === 1 ? 1 : 0;
+                    break;
+                case 'square':
+                    // Odd harmonics only, falling as 1/n
+                    amplitude = n % 2 === 1 ? 4 / (Math.PI * n) : 0;
+                    break;
+                case 'sawtooth':
+                    // Every harmonic, falling as 1/n, alternating sign
+                    amplitude = 2 / (Math.PI * n);
+                    phase = n % 2 === 0 ? 180 : 0;
+                    break;
+                case 'triangle':
+                    // Odd harmonics only, falling as 1/n² (much softer than square)
+                    amplitude = n % 2 === 1 ? 8 / (Math.PI * Math.PI * n * n) : 0;
+                    phase = (n - 1) % 4 === 2 ? 180 : 0;
+                    break;
+                case 'harmonics':
+                    if (n <= this.params.harmonicCount) {
+                        amplitude = this.params.harmonics[n - 1].amplitude;
+                        phase = this.params.harmonics[n - 1].phase;
+                    }
+                    break;
+            }
+
+            if (amplitude > 0) {
+                components.push({ frequency: frequency * n, amplitude: amplitude * gain, phase });
+            }
+        }
+
+        return components;
+    }
+
+    private createSource() {
+        this.stopSource();
+        const { type } = this.params;
+        const ctx = this.audioContext;
+
+        if (type === 'white-noise' || type === 'pink-noise') {
+            const noise = ctx.createBufferSource();
+            noise.buffer = this.getNoiseBuffer(type);
+            noise.loop = true;
+            this.source = noise;
+        } else {
+            const oscillator = ctx.createOscillator();
+            if (type === 'harmonics') {
+                oscillator.setPeriodicWave(this.createHarmonicWave());
+            } else if (type === 'sweep') {
+                oscillator.type = 'sine';
+            } else {
+                oscillator.type = type;
+            }
+            oscillator.frequency.value = this.params.frequency;
+            this.source = oscillator;
+            if (type === 'sweep') {
+                this.startSweep(oscillator);
+            }
+        }
+
+        this.source.connect(this.output);
+        this.source.start();
+        this.activeType = type;
+    }
+
+    private stopSource() {
+        if (this.sweepTimer !== null) {
+            window.clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+
+        if (this.source) {
+            this.source.stop();
+            this.source.disconnect();
+            this.source = null;
+        }
+        this.activeType = null;
+    }
+
+    // Theory Check: Exponential Sweep
+    // Ramping frequency exponentially spends equal time in every octave, so the
+    // spectrum peak moves across a logarithmic axis at constant speed.
+    private startSweep(oscillator: OscillatorNode) {
+        if (this.sweepTimer !== null) {
+            window.clearInterval(this.sweepTimer);
+        }
+
+        const schedule = () => {
+            const now = this.audioContext.currentTime;
+            const { sweepStart, sweepEnd, sweepDuration } = this.params;
+            oscillator.frequency.cancelScheduledValues(now);
+            oscillator.frequency.setValueAtTime(Math.max(sweepStart, 1), now);
+            oscillator.frequency.exponentialRampToValueAtTime(Math.max(sweepEnd, 1), now + sweepDuration);
+        };
+
+        schedule();
+        this.sweepTimer = window.setInterval(schedule, this.params.sweepDuration * 1000);
+    }
+
+    // Theory Check: Fourier Synthesis
+    // a·sin(nωt + φ) = a·sin(φ)·cos(nωt) + a·cos(φ)·sin(nωt)
+    // PeriodicWave takes exactly those cosine (real) and sine (imag) coefficients per harmonic.
+    private createHarmonicWave(): PeriodicWave {
+        const size = MAX_HARMONICS + 1;
+        const real = new Float32Array(size);
+        const imag = new Float32Array(size);
+
+        for (let n = 1; n <= this.params.harmonicCount; n++) {
+            const { amplitude, phase } = this.params.harmonics[n - 1];
+            const radians = (phase * Math.PI) / 180;
+            real[n] = amplitude * Math.sin(radians);
+            imag[n] = amplitude * Math.cos(radians);
+        }
+
+        // Keep our amplitudes as typed instead of rescaling the loudest peak to 1
+        return this.audioContext.createPeriodicWave(real, imag, { disableNormalization: true });
+    }
+
+    // Five seconds of looped noise, generated once per type
+    private getNoiseBuffer(type: 'white-noise' | 'pink-noise'): AudioBuffer {
+        const cached = this.noiseBuffers[type];
+        if (cached) return cached;
+
+        const length = this.audioContext.sampleRate * 5;
+        const buffer = this.audioContext.createBuffer(1, length, this.audioContext.sampleRate);
+        const data = buffer.getChannelData(0);
+
+        if (type === 'white-noise') {
+            // White noise: equal energy per Hz (sounds bright, the spectrum is flat)
+            for (let i = 0; i < length; i++) {
+                data[i] = Math.random() * 2 - 1;
+            }
+        } else {
+            // Pink noise: equal energy per octave (falls 3 dB per octave).
+            // Paul Kellet's filter: a sum of one-pole low-passes approximates the 1/f slope.
+            let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+            for (let i = 0; i < length; i++) {
+                const white = Math.random() * 2 - 1;
+                b0 = 0.99886 * b0 + white * 0.0555179;
+                b1 = 0.99332 * b1 + white * 0.0750759;
+                b2 = 0.96900 * b2 + white * 0.1538520;
+                b3 = 0.86650 * b3 + white * 0.3104856;
+                b4 = 0.55000 * b4 + white * 0.5329522;
+                b5 = -0.7616 * b5 - white * 0.0168980;
+                data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+                b6 = white * 0.115926;
+            }
+        }
+
+        this.noiseBuffers[type] = buffer;
+        return buffer;
+    }
+}
@@ -0,0 +1,108 @@
+import type { Spectrogram } from './Spectrogram';
+
+// SpectralFeatures: A few numbers per moment that describe *what kind* of sound it is
+// Amplitude alone can't tell a bass drop from a hi-hat; these can:
+//   - Spectral centroid: the "centre of mass" of the spectrum, in Hz (dark vs bright)
+//   - Band energy: how the energy splits between lows, mids and highs
+//   - Zero-crossing rate: how often the waveform changes sign (noisy/hissy vs tonal/low)
+
+// Resolution of the whole-track feature curves
+const FEATURE_FRAME_DURATION = 0.05;
+// Band edges for the low/mid/high split (Hz)
+export const LOW_BAND_EDGE = 250;
+export const HIGH_BAND_EDGE = 4000;
+// Frames quieter than this (RMS magnitude relative to the loudest frame) count as silence
+const SILENCE_THRESHOLD = 0.001;
+
+export interface SpectralFeatures {
+    frameCount: number;
+    frameDuration: number;        // Seconds per frame
+    centroid: Float32Array;       // Hz
+    bandEnergy: Float32Array;     // frameCount × 3 (low, mid, high), each band 0-1 over the track
+    zeroCrossingRate: Float32Array; // Sign changes per sample (0 to ~0.5)
+    silent: Uint8Array;           // 1 where the frame is (near) silent and the features mean little
+}
+
+// Theory Check: Spectral Centroid
+// centroid = Σ f(k)·|X(k)| / Σ |X(k)|
+// The magnitude-weighted mean frequency. A kick drum sits around a few hundred Hz,
+// a voice around 1-3 kHz, cymbals and hiss above 5 kHz.
+//
+// Theory Check: Zero-Crossing Rate
+// ZCR = (number of sign changes) / (number of samples)
+// A sine at f Hz crosses zero 2f times per second, so ZCR ≈ 2f / sampleRate.
+// Noise crosses constantly (high ZCR); bass crosses rarely (low ZCR).
+// It needs no FFT at all: a cheap brightness measure straight from the samples.
+export function computeSpectralFeatures(spectrogram: Spectrogram, samples: Float32Array): SpectralFeatures {
+    const framesPerColumn = Math.max(1, Math.round((FEATURE_FRAME_DURATION * spectrogram.sampleRate) / spectrogram.hopSize));
+    const frameCount = Math.ceil(spectrogram.frameCount / framesPerColumn);
+    const frameDuration = (framesPerColumn * spectrogram.hopSize) / spectrogram.sampleRate;
+
+    const centroid = new Float32Array(frameCount);
+    const bandEnergy = new Float32Array(frameCount * 3);
+    const zeroCrossingRate = new Float32Array(frameCount);
+    const silent = new Uint8Array(frameCount);
+    const weights = new Float32Array(frameCount);
+
+    // Which band each bin belongs to
+    const binFrequencies = new Float32Array(spectrogram.binCount);
+    const binBands = new Uint8Array(spectrogram.binCount);
+    for (let bin = 0; bin < spectrogram.binCount; bin++) {
+        const frequency = spectrogram.getFrequencyForBin(bin);
+        binFrequencies[bin] = frequency;
+        binBands[bin] = frequency < LOW_BAND_EDGE ? 0 : frequency < HIGH_BAND_EDGE ? 1 : 2;
+    }
+
+    // Sum magnitude-weighted frequency and band energy over the spectrogram frames in each column
+    for (let frame = 0; frame < spectrogram.frameCount; frame++) {
+        const magnitudes = spectrogram.getFrame(frame);
+        const column = Math.floor(frame / framesPerColumn);
+        let weightedFrequency = 0;
+        let total = 0;
+        for (let bin = 1; bin < magnitudes.length; bin++) {
+            const magnitude = magnitudes[bin];
+            weightedFrequency += binFrequencies[bin] * magnitude;
+            total += magnitude;
+            bandEnergy[column * 3 + binBands[bin]] += magnitude * magnitude;
+        }
+        centroid[column] += weightedFrequency;
+        weights[column] += total;
+    }
+
+    let loudest = 0;
+    for (let column = 0; column < frameCount; column++) {
+        centroid[column] = weights[column] > 0 ? centroid[column] / weights[column] : 0;
+        loudest = Math.max(loudest, weights[column]);
+    }
+    for (let column = 0; column < frameCount; column++) {
+        silent[column] = weights[column] <= loudest * SILENCE_THRESHOLD ? 1 : 0;
+    }
+
+    // Bands as magnitudes (√energy), each scaled to its own loudest moment: the bass
+    // carries far more energy than the highs, and would otherwise drown them out
+    for (let band = 0; band < 3; band++) {
+        let max = 0;
+        for (let column = 0; column < frameCount; column++) {
+            const index = column * 3 + band;
+            bandEnergy[index] = Math.sqrt(bandEnergy[index]);
+            max = Math.max(max, bandEnergy[index]);
+        }
+        if (max > 0) {
+            for (let column = 0; column < frameCount; column++) bandEnergy[column * 3 + band] /= max;
+        }
+    }
+
+    // Zero crossings of the mono mix, over the same time span as each column
+    const samplesPerColumn = frameDuration * spectrogram.sampleRate;
+    for (let column = 0; column < frameCount; column++) {
+        const start = Math.floor(column * samplesPerColumn);
+        const end = Math.min(Math.floor((column + 1) * samplesPerColumn), samples.length);
+        let crossings = 0;
+        for (let i = start + 1; i < end; i++) {
+            if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+        }
+        zeroCrossingRate[column] = end - start > 1 ? crossings / (end - start - 1) : 0;
+    }
+
+    return { frameCount, frameDuration, centroid, bandEnergy, zeroCrossingRate, silent };
+}
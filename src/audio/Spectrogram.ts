@@ -0,0 +1,83 @@
+import type { STFTOptions, STFTResult } from './STFT';
+import type { WindowType } from './WindowFunctions';
+
+// Spectrogram: A complete time/frequency matrix for one audio track
+// Produced offline by OfflineAnalyzer, so any visualizer can look up the spectrum
+// at an arbitrary time (scrubbing, pausing, comparing) without live playback.
+export class Spectrogram {
+    public readonly sampleRate: number;
+    public readonly frameSize: number;
+    public readonly hopSize: number;
+    public readonly window: WindowType;
+    public readonly kaiserBeta?: number;
+    public readonly frameCount: number;
+    public readonly binCount: number;
+    public readonly duration: number;
+    private magnitudes: Float32Array;
+
+    constructor(result: STFTResult, options: STFTOptions, sampleRate: number, duration: number) {
+        this.magnitudes = result.magnitudes;
+        this.frameCount = result.frameCount;
+        this.binCount = result.binCount;
+        this.frameSize = options.frameSize;
+        this.hopSize = options.hopSize;
+        this.window = options.window;
+        this.kaiserBeta = options.kaiserBeta;
+        this.sampleRate = sampleRate;
+        this.duration = duration;
+    }
+
+    // Linear magnitudes for one frame (1.0 = full-scale sine).
+    // Returns a view into the matrix: do not modify it.
+    getFrame(frameIndex: number): Float32Array {
+        const index = Math.min(Math.max(Math.floor(frameIndex), 0), this.frameCount - 1);
+        const offset = index * this.binCount;
+        return this.magnitudes.subarray(offset, offset + this.binCount);
+    }
+
+    getFrameIndexAtTime(time: number): number {
+        const index = Math.round((time * this.sampleRate) / this.hopSize);
+        return Math.min(Math.max(index, 0), this.frameCount - 1);
+    }
+
+    getFrameAtTime(time: number): Float32Array {
+        return this.getFrame(this.getFrameIndexAtTime(time));
+    }
+
+    // Same frame converted to decibels (dBFS), clamped at `floor` so silence is finite
+    getDecibelFrameAtTime(time: number, out?: Float32Array, floor: number = -120): Float32Array {
+        const frame = this.getFrameAtTime(time);
+        const result = out && out.length === this.binCount ? out : new Float32Array(this.binCount);
+        for (let bin = 0; bin < this.binCount; bin++) {
+            const magnitude = frame[bin];
+            result[bin] = magnitude > 0 ? Math.max(20 * Math.log10(magnitude), floor) : floor;
+        }
+        return result;
+    }
+
+    // Same frame as normalised levels (0-1 between minDecibels and maxDecibels), matching
+    // AudioController.getFrequencyLevels() so it can stand in for live data when paused
+    getLevelFrameAtTime(time: number, out?: Float32Array, minDecibels: number = -100, maxDecibels: number = -30): Float32Array {
+        const frame = this.getFrameAtTime(time);
+        const result = out && out.length === this.binCount ? out : new Float32Array(this.binCount);
+        const range = maxDecibels - minDecibels;
+        for (let bin = 0; bin < this.binCount; bin++) {
+            const db = frame[bin] > 0 ? 20 * Math.log10(frame[bin]) : minDecibels;
+            result[bin] = Math.min(Math.max((db - minDecibels) / range, 0), 1);
+        }
+        return result;
+    }
+
+    getMagnitude(frameIndex: number, bin: number): number {
+        return this.magnitudes[frameIndex * this.binCount + bin] || 0;
+    }
+
+    getTimeForFrame(frameIndex: number): number {
+        return (frameIndex * this.hopSize) / this.sampleRate;
+    }
+
+    // Same formula as AudioController.getFrequencyForBin, but for our own frame size
+    getFrequencyForBin(bin: number): number {
+        return (bin * this.sampleRate) / this.frameSize;
+    }
+}
@@ -0,0 +1,75 @@
+import { analyzeRhythm, type RhythmAnalysis } from './BeatDetector';
+import { computeChromagram, type Chromagram } from './Chroma';
+import { computeSpectralFeatures, type SpectralFeatures } from './SpectralFeatures';
+import { Spectrogram } from './Spectrogram';
+import { computeSTFT, type STFTOptions } from './STFT';
+
+// Web Worker entry point for OfflineAnalyzer.
+// A full track can take seconds of FFTs; running them here keeps the render loop at 60 fps.
+// The analyses derived from the spectrogram (rhythm, chroma, spectral features) also
+// walk every frame, so they run here too and only their small results are sent back.
+export interface SpectrogramRequest {
+    id: number;
+    trackId: number;
+    channels?: Float32Array[]; // Only with the first request for a track; kept for the next ones
+    options: STFTOptions;
+    sampleRate: number;
+    duration: number;
+}
+
+export interface SpectrogramResponse {
+    id: number;
+    magnitudes?: Float32Array;
+    frameCount?: number;
+    binCount?: number;
+    rhythm?: RhythmAnalysis;
+    chromagram?: Chromagram;
+    features?: SpectralFeatures;
+    error?: string;
+}
+
+// Mono mix of the last track received
+let track: { id: number; samples: Float32Array } | null = null;
+
+// Average all channels into one signal
+function mixToMono(channels: Float32Array[]): Float32Array {
+    const mono = new Float32Array(channels[0]?.length ?? 0);
+    for (const data of channels) {
+        for (let i = 0; i < data.length; i++) {
+            mono[i] += data[i] / channels.length;
+        }
+    }
+    return mono;
+}
+
+self.addEventListener('message', (event: MessageEvent<SpectrogramRequest>) => {
+    const { id, trackId, channels, options, sampleRate, duration } = event.data;
+
+    try {
+        if (channels) track = { id: trackId, samples: mixToMono(channels) };
+        if (!track || track.id !== trackId) throw new Error('Track samples were never sent');
+        const samples = track.samples;
+
+        const result = computeSTFT(samples, options);
+        const spectrogram = new Spectrogram(result, options, sampleRate, duration);
+        const rhythm = analyzeRhythm(spectrogram);
+        const chromagram = computeChromagram(spectrogram);
+        const features = computeSpectralFeatures(spectrogram, samples);
+
+        const response: SpectrogramResponse = { id, ...result, rhythm, chromagram, features };
+        // Transfer the matrix instead of copying it (it can be over a hundred MB)
+        self.postMessage(response, {
+            transfer: [
+                result.magnitudes.buffer,
+                chromagram.frames.buffer,
+                features.centroid.buffer,
+                features.bandEnergy.buffer,
+                features.zeroCrossingRate.buffer,
+                features.silent.buffer
+            ]
+        });
+    } catch (err) {
+        const response: SpectrogramResponse = { id, error: (err as Error).message };
+        self.postMessage(response);
+    }
+});
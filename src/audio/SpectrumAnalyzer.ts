@@ -0,0 +1,78 @@
+import { FFT } from './FFT';
+import { createWindow, type WindowType } from './WindowFunctions';
+
+// SpectrumAnalyzer: Our own replacement for the AnalyserNode's FFT stage
+// The AnalyserNode always applies a Blackman window. To teach windowing we run
+// the same steps ourselves on the raw samples, with a window of our choosing:
+//   1. multiply the frame by the window
+//   2. FFT
+//   3. magnitude / N (same scaling as the Web Audio spec, so levels stay comparable)
+//   4. average with the previous frame (smoothingTimeConstant)
+//   5. convert to decibels
+export class SpectrumAnalyzer {
+    private fft: FFT;
+    private window: Float32Array;
+    private windowType: WindowType;
+    private kaiserBeta: number;
+    private real: Float32Array;
+    private imag: Float32Array;
+    private smoothedMagnitudes: Float32Array;
+
+    constructor(size: number, windowType: WindowType, kaiserBeta: number) {
+        this.windowType = windowType;
+        this.kaiserBeta = kaiserBeta;
+        this.fft = new FFT(size);
+        this.window = createWindow(windowType, size, kaiserBeta);
+        this.real = new Float32Array(size);
+        this.imag = new Float32Array(size);
+        this.smoothedMagnitudes = new Float32Array(size / 2);
+    }
+
+    getSize(): number {
+        return this.fft.size;
+    }
+
+    getWindowType(): WindowType {
+        return this.windowType;
+    }
+
+    getWindow(): Float32Array {
+        return this.window;
+    }
+
+    setSize(size: number) {
+        if (size === this.fft.size) return;
+        this.fft = new FFT(size);
+        this.window = createWindow(this.windowType, size, this.kaiserBeta);
+        this.real = new Float32Array(size);
+        this.imag = new Float32Array(size);
+        this.smoothedMagnitudes = new Float32Array(size / 2);
+    }
+
+    setWindow(windowType: WindowType, kaiserBeta: number) {
+        if (windowType === this.windowType && kaiserBeta === this.kaiserBeta) return;
+        this.windowType = windowType;
+        this.kaiserBeta = kaiserBeta;
+        this.window = createWindow(windowType, this.fft.size, kaiserBeta);
+    }
+
+    // samples: fftSize time domain values (-1..1); out: fftSize/2 decibel values
+    process(samples: Float32Array, smoothingTimeConstant: number, out: Float32Array) {
+        const size = this.fft.size;
+
+        for (let i = 0; i < size; i++) {
+            this.real[i] = (samples[i] || 0) * this.window[i];
+            this.imag[i] = 0;
+        }
+
+        this.fft.transform(this.real, this.imag);
+
+        for (let bin = 0; bin < size / 2; bin++) {
+            const magnitude = Math.hypot(this.real[bin], this.imag[bin]) / size;
+            const smoothed = smoothingTimeConstant * this.smoothedMagnitudes[bin] +
+                (1 - smoothingTimeConstant) * magnitude;
+            this.smoothedMagnitudes[bin] = smoothed;
+            out[bin] = smoothed > 0 ? 20 * Math.log10(smoothed) : -Infinity;
+        }
+    }
+}
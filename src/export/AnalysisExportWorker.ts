@@ -0,0 +1,39 @@
+import {
+    analyzeSampleFrames,
+    encodeAnalysisFrames,
+    type AnalysisExportMetadata,
+    type BufferAnalysisOptions,
+    type ExportFormat
+} from './AnalysisExporter';
+
+// Web Worker entry point for exportBufferAnalysis.
+// Analysing and encoding a whole file can take many seconds; the page stays responsive.
+export interface AnalysisExportRequest {
+    samples: Float32Array; // Mono mix of the whole file
+    sampleRate: number;
+    options: BufferAnalysisOptions;
+    metadata: AnalysisExportMetadata;
+    format: ExportFormat;
+}
+
+export interface AnalysisExportResponse {
+    blob?: Blob;
+    frameCount?: number;
+    error?: string;
+}
+
+self.addEventListener('message', (event: MessageEvent<AnalysisExportRequest>) => {
+    const { samples, sampleRate, options, metadata, format } = event.data;
+
+    try {
+        const frames = analyzeSampleFrames(samples, sampleRate, options);
+        const response: AnalysisExportResponse = {
+            blob: encodeAnalysisFrames(format, metadata, frames),
+            frameCount: frames.length
+        };
+        self.postMessage(response);
+    } catch (err) {
+        const response: AnalysisExportResponse = { error: (err as Error).message };
+        self.postMessage(response);
+    }
+});
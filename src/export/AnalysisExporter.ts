@@ -0,0 +1,309 @@
+import { SpectrumAnalyzer } from '../audio/SpectrumAnalyzer';
+import { sampleBands, type FrequencyBand } from '../audio/FrequencyScale';
+import type { WindowType } from '../audio/WindowFunctions';
+import type { TapReader } from '../audio/AnalysisTap';
+import type { AnalysisExportRequest, AnalysisExportResponse } from './AnalysisExportWorker';
+
+// AnalysisExporter: Analysis frames as CSV or JSON time series for spreadsheets and notebooks
+// Frames come either from live playback (AnalysisCapture) or straight from a decoded
+// file (exportBufferAnalysis), and are written with everything needed to interpret
+// them: timestamps, the Hz of every bin and the FFT size.
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+// Silence is -Infinity dB, which neither JSON nor most spreadsheets accept
+const DECIBEL_FLOOR = -200;
+
+export interface ExportContent {
+    spectrum: boolean;   // Frequency frames in dB
+    waveform: boolean;   // Time-domain frames (-1..1)
+    bars: boolean;       // Bar levels (0-1) on the current frequency scale
+}
+
+export interface AnalysisFrame {
+    time: number;              // Seconds (track time for files, context time for live input)
+    rms: number;               // Root mean square of the time-domain frame (0-1)
+    peak: number;              // Largest absolute sample (0-1)
+    frequencyDb?: Float32Array;
+    timeDomain?: Float32Array;
+    barLevels?: Float32Array;
+}
+
+export interface AnalysisExportMetadata {
+    source: 'live' | 'file';
+    name: string;              // File name or source type
+    sampleRate: number;
+    fftSize: number;
+    window: string;
+    frequencyScale: string;
+    decibelRange: { min: number; max: number }; // Range that maps to bar level 0..1
+    binFrequencies: number[];  // Hz of each spectrum value
+    bandCenters: number[];     // Hz of each bar level
+    exportedAt: string;
+}
+
+export interface BufferAnalysisOptions {
+    fftSize: number;
+    window: WindowType;
+    kaiserBeta: number;
+    interval: number;          // Seconds between frames
+    start: number;             // Seconds
+    end: number;               // Seconds
+    bands: FrequencyBand[];
+    decibelRange: { min: number; max: number };
+    content: ExportContent;
+}
+
+// Level statistics of one time-domain frame
+export function computeFrameLevels(samples: Float32Array): { rms: number; peak: number } {
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sumSquares += samples[i] * samples[i];
+        peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    return { rms: samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0, peak };
+}
+
+// Convert dB to 0-1 levels the same way the bars do (see ChannelAnalyser.getFrequencyLevels)
+function decibelsToLevels(frequencyDb: Float32Array, range: { min: number; max: number }): Float32Array {
+    const levels = new Float32Array(frequencyDb.length);
+    for (let i = 0; i < frequencyDb.length; i++) {
+        const level = (frequencyDb[i] - range.min) / (range.max - range.min);
+        levels[i] = level > 0 ? Math.min(level, 1) : 0;
+    }
+    return levels;
+}
+
+// AnalysisCapture: Collects live frames while playback runs, one per interval.
+// readTap takes every frame from a TapReader (gap-free, at the audio's pace);
+// addFrame is the fallback that samples the analysers once per rendered frame.
+export class AnalysisCapture {
+    private frames: AnalysisFrame[] = [];
+    private capturing: boolean = false;
+    private interval: number = 0.1;
+    private lastFrameTime: number = -Infinity;
+
+    start(interval: number) {
+        this.frames = [];
+        this.interval = interval;
+        this.lastFrameTime = -Infinity;
+        this.capturing = true;
+    }
+
+    stop(): AnalysisFrame[] {
+        this.capturing = false;
+        const frames = this.frames;
+        this.frames = [];
+        return frames;
+    }
+
+    isCapturing(): boolean {
+        return this.capturing;
+    }
+
+    getFrameCount(): number {
+        return this.frames.length;
+    }
+
+    // Arrays are copied: the analyser reuses its buffers every frame
+    addFrame(time: number, frequencyDb: Float32Array, timeDomain: Float32Array, barLevels: Float32Array, content: ExportContent) {
+        // abs(): a loop or seek jumping backwards starts a new frame right away
+        if (!this.capturing || Math.abs(time - this.lastFrameTime) < this.interval) return;
+        this.lastFrameTime = time;
+        this.pushFrame(time, frequencyDb, timeDomain, barLevels, content);
+    }
+
+    // Every frame the reader has ready (its hop should be the interval), analysed with
+    // `analyzer` (no smoothing, like the file export) and stamped with the tap's frame
+    // time, passed through `toTime` (e.g. onto the track clock)
+    readTap(
+        reader: TapReader,
+        analyzer: SpectrumAnalyzer,
+        bands: FrequencyBand[],
+        decibelRange: { min: number; max: number },
+        content: ExportContent,
+        toTime: (tapTime: number) => number = time => time
+    ) {
+        if (!this.capturing) return;
+        const frequencyDb = new Float32Array(analyzer.getSize() / 2);
+        reader.read((frame, tapTime) => {
+            analyzer.process(frame, 0, frequencyDb);
+            const barLevels = sampleBands(decibelsToLevels(frequencyDb, decibelRange), bands);
+            this.pushFrame(toTime(tapTime), frequencyDb, frame, barLevels, content);
+        });
+    }
+
+    private pushFrame(time: number, frequencyDb: Float32Array, timeDomain: Float32Array, barLevels: Float32Array, content: ExportContent) {
+        this.frames.push({
+            time,
+            ...computeFrameLevels(timeDomain),
+            frequencyDb: content.spectrum ? new Float32Array(frequencyDb) : undefined,
+            timeDomain: content.waveform ? new Float32Array(timeDomain) : undefined,
+            barLevels: content.bars ? new Float32Array(barLevels) : undefined
+        });
+    }
+}
+
+// Frames for a time range of a decoded file, without playing it. Each frame uses the
+// fftSize samples ending at its timestamp (like the live analyser) and the same
+// |X|/N scaling, so numbers match a live capture with smoothing 0.
+// Takes the mono mix rather than the AudioBuffer so it can run in a Web Worker.
+export function analyzeSampleFrames(mono: Float32Array, sampleRate: number, options: BufferAnalysisOptions): AnalysisFrame[] {
+    const { fftSize, interval, content } = options;
+    const duration = mono.length / sampleRate;
+
+    const analyzer = new SpectrumAnalyzer(fftSize, options.window, options.kaiserBeta);
+    const frequencyDb = new Float32Array(fftSize / 2);
+    const timeDomain = new Float32Array(fftSize);
+    const frames: AnalysisFrame[] = [];
+    const start = Math.max(0, options.start);
+    const end = Math.min(duration, options.end);
+
+    // Index-based timestamps so rounding errors don't accumulate over long files
+    for (let frameIndex = 0; start + frameIndex * interval <= end + 1e-9; frameIndex++) {
+        const time = start + frameIndex * interval;
+        const endSample = Math.round(time * sampleRate);
+        for (let i = 0; i < fftSize; i++) {
+            timeDomain[i] = mono[endSample - fftSize + i] || 0;
+        }
+        analyzer.process(timeDomain, 0, frequencyDb);
+
+        frames.push({
+            time,
+            ...computeFrameLevels(timeDomain),
+            frequencyDb: content.spectrum ? new Float32Array(frequencyDb) : undefined,
+            timeDomain: content.waveform ? new Float32Array(timeDomain) : undefined,
+            barLevels: content.bars ?
+                sampleBands(decibelsToLevels(frequencyDb, options.decibelRange), options.bands) :
+                undefined
+        });
+    }
+
+    return frames;
+}
+
+// Analyse and encode a time range of a decoded file in a Web Worker: a long track is
+// tens of thousands of FFTs and hundreds of MB of text, which would freeze the page
+export function exportBufferAnalysis(
+    buffer: AudioBuffer,
+    options: BufferAnalysisOptions,
+    metadata: AnalysisExportMetadata,
+    format: ExportFormat
+): Promise<{ blob: Blob; frameCount: number }> {
+    // Mono mixdown (the analysers' "mix" channel), a copy that can be transferred
+    const samples = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < data.length; i++) {
+            samples[i] += data[i] / buffer.numberOfChannels;
+        }
+    }
+
+    const worker = new Worker(new URL('./AnalysisExportWorker.ts', import.meta.url), { type: 'module' });
+    return new Promise((resolve, reject) => {
+        worker.addEventListener('message', (event: MessageEvent<AnalysisExportResponse>) => {
+            worker.terminate();
+            const { blob, frameCount, error } = event.data;
+            if (error || !blob) {
+                reject(new Error(error || 'Export worker returned no data'));
+                return;
+            }
+            resolve({ blob, frameCount: frameCount ?? 0 });
+        });
+        worker.addEventListener('error', event => {
+            worker.terminate();
+            reject(new Error(event.message));
+        });
+        const request: AnalysisExportRequest = { samples, sampleRate: buffer.sampleRate, options, metadata, format };
+        worker.postMessage(request, [samples.buffer]);
+    });
+}
+
+function formatDecibels(db: number): number {
+    return Number.isFinite(db) ? Math.max(db, DECIBEL_FLOOR) : DECIBEL_FLOOR;
+}
+
+function round(value: number, digits: number = 6): number {
+    return Number(value.toFixed(digits));
+}
+
+// Text written in parts of about CHUNK_LENGTH characters, for a Blob. One string for a
+// long track's export would pass V8's maximum string length (~512 M characters).
+const CHUNK_LENGTH = 1 << 20;
+
+class ChunkedText {
+    public readonly parts: string[] = [];
+    private pending: string[] = [];
+    private pendingLength = 0;
+
+    write(text: string) {
+        this.pending.push(text);
+        this.pendingLength += text.length;
+        if (this.pendingLength >= CHUNK_LENGTH) this.flush();
+    }
+
+    flush() {
+        if (this.pending.length === 0) return;
+        this.parts.push(this.pending.join(''));
+        this.pending = [];
+        this.pendingLength = 0;
+    }
+}
+
+// JSON: metadata plus one object per frame (arrays stay arrays, easy to load with pandas/numpy)
+export function framesToJSON(metadata: AnalysisExportMetadata, frames: AnalysisFrame[]): string[] {
+    const text = new ChunkedText();
+    text.write(`{"metadata":${JSON.stringify({ ...metadata, decibelFloor: DECIBEL_FLOOR })},"frames":[`);
+    frames.forEach((frame, index) => {
+        text.write((index > 0 ? ',' : '') + JSON.stringify({
+            time: round(frame.time),
+            fftSize: metadata.fftSize,
+            rms: round(frame.rms),
+            peak: round(frame.peak),
+            frequencyDb: frame.frequencyDb ? Array.from(frame.frequencyDb, db => round(formatDecibels(db), 2)) : undefined,
+            timeDomain: frame.timeDomain ? Array.from(frame.timeDomain, value => round(value)) : undefined,
+            barLevels: frame.barLevels ? Array.from(frame.barLevels, value => round(value, 4)) : undefined
+        }));
+    });
+    text.write(']}');
+    text.flush();
+    return text.parts;
+}
+
+// CSV: "long" format, one value per row, so every row carries its own timestamp,
+// FFT size and frequency. Pivot on `series` in a spreadsheet or notebook.
+// (Sample rate and window live in the JSON metadata; the CSV stays a plain table.)
+//   series = rms | peak | spectrum_db | waveform | bar_level
+//   index  = bin / sample / bar number (blank for rms and peak)
+export function framesToCSV(metadata: AnalysisExportMetadata, frames: AnalysisFrame[]): string[] {
+    const text = new ChunkedText();
+    text.write('time_s,fft_size,series,index,frequency_hz,value');
+
+    frames.forEach(frame => {
+        const prefix = `\n${round(frame.time)},${metadata.fftSize}`;
+        text.write(`${prefix},rms,,,${round(frame.rms)}`);
+        text.write(`${prefix},peak,,,${round(frame.peak)}`);
+
+        frame.frequencyDb?.forEach((db, bin) => {
+            text.write(`${prefix},spectrum_db,${bin},${round(metadata.binFrequencies[bin], 2)},${round(formatDecibels(db), 2)}`);
+        });
+        frame.timeDomain?.forEach((value, sample) => {
+            text.write(`${prefix},waveform,${sample},,${round(value)}`);
+        });
+        frame.barLevels?.forEach((level, bar) => {
+            text.write(`${prefix},bar_level,${bar},${round(metadata.bandCenters[bar] ?? 0, 2)},${round(level, 4)}`);
+        });
+    });
+
+    text.flush();
+    return text.parts;
+}
+
+// The file to download, built from the encoder's parts (never one giant string)
+export function encodeAnalysisFrames(format: ExportFormat, metadata: AnalysisExportMetadata, frames: AnalysisFrame[]): Blob {
+    return format === 'csv' ?
+        new Blob(framesToCSV(metadata, frames), { type: 'text/csv' }) :
+        new Blob(framesToJSON(metadata, frames), { type: 'application/json' });
+}
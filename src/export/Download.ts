@@ -0,0 +1,17 @@
+// Download: Save generated data (recordings, exports) as a file in the browser
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Filesystem-safe timestamp for generated file names, e.g. 2024-05-01_14-03-22
+export function timestampForFilename(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+}
@@ -0,0 +1,231 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import type { PeakPyramid } from '../audio/PeakPyramid';
+
+// ModelExporter: The track's waveform envelope as a solid, printable 3D object
+// The on-screen model is a set of flat strips, which a printer or Blender can't treat
+// as an object. Here the envelope (loudest sample per segment, all channels) becomes a
+// closed, watertight solid in millimetres:
+//   flat: a skyline plaque, the envelope standing on a base strip, extruded by `depth`
+//   ring: the same skyline wrapped around a circle (a ring or bracelet)
+//   vase: the envelope as the radius of a solid of revolution, the track running upward
+//         (print it with the slicer's vase/spiralize mode for a hollow vase)
+export type ModelExportFormat = 'glb' | 'gltf' | 'obj' | 'stl';
+
+export const MODEL_EXPORT_FORMATS: ModelExportFormat[] = ['glb', 'gltf', 'obj', 'stl'];
+
+export type ModelShape = 'flat' | 'ring' | 'vase';
+
+export const MODEL_SHAPES: ModelShape[] = ['flat', 'ring', 'vase'];
+
+// All sizes in millimetres
+export interface ModelExportParams {
+    format: ModelExportFormat;
+    shape: ModelShape;
+    length: number;        // Track length: plaque width, ring circumference or vase height
+    height: number;        // Extra size at full scale (on top of the base)
+    baseThickness: number; // Solid part under the waveform (vase: core radius)
+    depth: number;         // Extrusion: plaque thickness or ring height
+    segments: number;      // Steps along the track
+}
+
+export function createDefaultModelExportParams(): ModelExportParams {
+    return {
+        format: 'stl',
+        shape: 'flat',
+        length: 200,
+        height: 30,
+        baseThickness: 3,
+        depth: 10,
+        segments: 600
+    };
+}
+
+// Points around the vase's circumference
+const VASE_RADIAL_SEGMENTS = 64;
+
+// Loudest absolute sample per segment over all channels, scaled so the loudest
+// segment is 1 (quiet recordings still use the full height).
+// Uses the pyramid level that has at least one bucket per segment.
+export function computeAmplitudeProfile(pyramids: PeakPyramid[], segments: number): Float32Array {
+    const profile = new Float32Array(segments);
+    pyramids.forEach(pyramid => {
+        const level = pyramid.getLevel(pyramid.selectLevel(segments, Infinity));
+        for (let segment = 0; segment < segments; segment++) {
+            const first = Math.floor((segment * level.count) / segments);
+            const last = Math.max(first + 1, Math.floor(((segment + 1) * level.count) / segments));
+            for (let bucket = first; bucket < last; bucket++) {
+                const peak = Math.max(Math.abs(level.min[bucket]), Math.abs(level.max[bucket]));
+                if (peak > profile[segment]) profile[segment] = peak;
+            }
+        }
+    });
+
+    let loudest = 0;
+    for (let i = 0; i < segments; i++) loudest = Math.max(loudest, profile[i]);
+    if (loudest > 0) {
+        for (let i = 0; i < segments; i++) profile[i] /= loudest;
+    }
+    return profile;
+}
+
+// Closed solid through a series of cross-sections (each a convex loop with the same
+// number of points). Open ends get a triangle fan from the section's centre; with
+// `wrap` the last section joins the first instead (a ring has no ends).
+//
+// Theory Check: Watertight Meshes
+// A solid is watertight when every edge is shared by exactly two triangles, walked
+// in opposite directions. Sides and caps here share their vertices, so that holds.
+// Which side is "out" follows from the winding; the divergence theorem gives the
+// enclosed volume as Σ (a · (b × c)) / 6 over all triangles, negative when the
+// triangles face inward, in which case every triangle is flipped.
+function loftSections(sections: THREE.Vector3[][], wrap: boolean): THREE.BufferGeometry {
+    const sectionCount = sections.length;
+    const pointCount = sections[0].length;
+    const positions: number[] = [];
+    sections.forEach(section => section.forEach(point => positions.push(point.x, point.y, point.z)));
+
+    const indices: number[] = [];
+    const lastSection = wrap ? sectionCount : sectionCount - 1;
+    for (let s = 0; s < lastSection; s++) {
+        const next = (s + 1) % sectionCount;
+        for (let k = 0; k < pointCount; k++) {
+            const a = s * pointCount + k;
+            const b = s * pointCount + ((k + 1) % pointCount);
+            const c = next * pointCount + ((k + 1) % pointCount);
+            const d = next * pointCount + k;
+            indices.push(a, b, c, a, c, d);
+        }
+    }
+
+    if (!wrap) {
+        const addCap = (section: number, reverse: boolean) => {
+            const center = new THREE.Vector3();
+            sections[section].forEach(point => center.add(point));
+            center.divideScalar(pointCount);
+            const centerIndex = positions.length / 3;
+            positions.push(center.x, center.y, center.z);
+            for (let k = 0; k < pointCount; k++) {
+                const a = section * pointCount + k;
+                const b = section * pointCount + ((k + 1) % pointCount);
+                if (reverse) indices.push(centerIndex, b, a);
+                else indices.push(centerIndex, a, b);
+            }
+        };
+        addCap(0, true);
+        addCap(sectionCount - 1, false);
+    }
+
+    // Signed volume: flip everything if the triangles face inward
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    let volume = 0;
+    for (let i = 0; i < indices.length; i += 3) {
+        a.fromArray(positions, indices[i] * 3);
+        b.fromArray(positions, indices[i + 1] * 3);
+        c.fromArray(positions, indices[i + 2] * 3);
+        volume += a.dot(b.cross(c)) / 6;
+    }
+    if (volume < 0) {
+        for (let i = 0; i < indices.length; i += 3) {
+            [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+        }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+}
+
+// The solid for an amplitude profile (0-1 per segment), in millimetres, resting on y = 0
+export function buildWaveformSolid(profile: Float32Array, params: ModelExportParams): THREE.BufferGeometry {
+    const { length, height, baseThickness, depth } = params;
+    const count = profile.length;
+    const sections: THREE.Vector3[][] = [];
+
+    for (let i = 0; i < count; i++) {
+        const t = count > 1 ? i / (count - 1) : 0;
+        const size = baseThickness + profile[i] * height;
+
+        if (params.shape === 'ring') {
+            // The inner wall's circumference is the track length; the skyline grows outward
+            const innerRadius = length / (2 * Math.PI);
+            const theta = (i / count) * Math.PI * 2;
+            const outward = new THREE.Vector3(Math.cos(theta), 0, Math.sin(theta));
+            const inner = outward.clone().multiplyScalar(innerRadius);
+            const outer = outward.clone().multiplyScalar(innerRadius + size);
+            sections.push([
+                inner.clone(),
+                outer.clone(),
+                outer.clone().setY(depth),
+                inner.clone().setY(depth)
+            ]);
+        } else if (params.shape === 'vase') {
+            const y = t * length;
+            const section: THREE.Vector3[] = [];
+            for (let k = 0; k < VASE_RADIAL_SEGMENTS; k++) {
+                const theta = (k / VASE_RADIAL_SEGMENTS) * Math.PI * 2;
+                section.push(new THREE.Vector3(size * Math.cos(theta), y, size * Math.sin(theta)));
+            }
+            sections.push(section);
+        } else {
+            // Flat: a rectangle per step, from the floor to the top of the skyline
+            const x = t * length - length / 2;
+            sections.push([
+                new THREE.Vector3(x, 0, -depth / 2),
+                new THREE.Vector3(x, size, -depth / 2),
+                new THREE.Vector3(x, size, depth / 2),
+                new THREE.Vector3(x, 0, depth / 2)
+            ]);
+        }
+    }
+
+    return loftSections(sections, params.shape === 'ring');
+}
+
+// Build the solid and encode it in the chosen format.
+// glTF is defined in metres, so its copy is scaled down from millimetres;
+// OBJ and STL carry no unit and are read as millimetres by slicers.
+//
+// Theory Check: Hard Edges
+// Vertex normals are averaged over the triangles sharing a vertex, so the 90° corners
+// of the plaque and ring would shade like rounded blobs. STL stores one normal per
+// face and needs the shared (watertight) vertices; glTF and OBJ keep vertex normals,
+// so they get a copy with separate vertices per triangle (flat shading, hard edges).
+export async function exportWaveformModel(pyramids: PeakPyramid[], params: ModelExportParams, name: string): Promise<Blob> {
+    const profile = computeAmplitudeProfile(pyramids, Math.max(2, Math.round(params.segments)));
+    const solid = buildWaveformSolid(profile, params);
+    let geometry = solid;
+    if (params.format !== 'stl') {
+        geometry = solid.toNonIndexed();
+        geometry.computeVertexNormals();
+        solid.dispose();
+    }
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0x00ffff, roughness: 0.5 }));
+    mesh.name = name;
+
+    try {
+        switch (params.format) {
+            case 'glb':
+            case 'gltf': {
+                mesh.scale.setScalar(0.001);
+                const result = await new GLTFExporter().parseAsync(mesh, { binary: params.format === 'glb' });
+                return result instanceof ArrayBuffer ?
+                    new Blob([result], { type: 'model/gltf-binary' }) :
+                    new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+            }
+            case 'obj':
+                return new Blob([new OBJExporter().parse(mesh)], { type: 'model/obj' });
+            default:
+                return new Blob([new STLExporter().parse(mesh, { binary: true }).buffer], { type: 'model/stl' });
+        }
+    } finally {
+        geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+    }
+}
@@ -0,0 +1,158 @@
+// VideoRecorder: Records the visualization (plus the audio you hear) to a WebM file
+// Every rendered frame is copied onto an offscreen compositing canvas at the chosen
+// resolution, optionally with the 2D overlay graphs drawn on top, and that canvas
+// is streamed into a MediaRecorder together with the audio graph's output.
+export type RecordingResolution = 'window' | '1280x720' | '1920x1080';
+
+export const RECORDING_RESOLUTIONS: RecordingResolution[] = ['window', '1280x720', '1920x1080'];
+export const RECORDING_FRAME_RATES = [24, 30, 60];
+
+export interface RecordingOptions {
+    resolution: RecordingResolution;
+    fps: number;
+    includeOverlays: boolean; // Composite the 2D canvases (waveform, frequency graph)
+}
+
+// Preferred first; browsers differ in what they can encode
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export class VideoRecorder {
+    private sourceCanvas: HTMLCanvasElement;
+    private getOverlayCanvases: () => HTMLCanvasElement[];
+    private compositeCanvas: HTMLCanvasElement;
+    private compositeContext: CanvasRenderingContext2D;
+    private mediaRecorder: MediaRecorder | null = null;
+    private chunks: Blob[] = [];
+    private options: RecordingOptions | null = null;
+    private lastFrameTime: number = 0;
+    private startTime: number = 0;
+
+    constructor(sourceCanvas: HTMLCanvasElement, getOverlayCanvases: () => HTMLCanvasElement[]) {
+        this.sourceCanvas = sourceCanvas;
+        this.getOverlayCanvases = getOverlayCanvases;
+        this.compositeCanvas = document.createElement('canvas');
+        this.compositeContext = this.compositeCanvas.getContext('2d')!;
+    }
+
+    static isSupported(): boolean {
+        return typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+    }
+
+    isRecording(): boolean {
+        return this.mediaRecorder !== null && this.mediaRecorder.state === 'recording';
+    }
+
+    // Seconds since start()
+    getElapsed(): number {
+        return this.isRecording() ? (performance.now() - this.startTime) / 1000 : 0;
+    }
+
+    // audioStream: the audio to mux in (null records video only)
+    start(audioStream: MediaStream | null, options: RecordingOptions) {
+        if (this.isRecording()) return;
+        if (!VideoRecorder.isSupported()) {
+            throw new Error('Video recording is not supported in this browser');
+        }
+
+        const { width, height } = this.getTargetSize(options.resolution);
+        this.compositeCanvas.width = width;
+        this.compositeCanvas.height = height;
+        this.options = options;
+
+        const stream = this.compositeCanvas.captureStream(options.fps);
+        audioStream?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+        const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+        this.mediaRecorder = new MediaRecorder(stream, {
+            mimeType: mimeType || undefined,
+            // ~0.1 bit per pixel per frame keeps fast-moving bars sharp
+            videoBitsPerSecond: Math.round(width * height * options.fps * 0.1)
+        });
+
+        this.chunks = [];
+        this.mediaRecorder.addEventListener('dataavailable', (event) => {
+            if (event.data.size > 0) this.chunks.push(event.data);
+        });
+
+        // Draw one frame before the recorder starts so the video never begins black
+        this.lastFrameTime = 0;
+        this.captureFrame();
+        this.mediaRecorder.start(1000); // Collect data every second
+        this.startTime = performance.now();
+    }
+
+    // Resolves with the finished WebM once the recorder has flushed its data
+    stop(): Promise<Blob> {
+        return new Promise((resolve, reject) => {
+            const recorder = this.mediaRecorder;
+            if (!recorder || recorder.state === 'inactive') {
+                reject(new Error('Not recording'));
+                return;
+            }
+
+            recorder.addEventListener('stop', () => {
+                const blob = new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' });
+                this.chunks = [];
+                this.mediaRecorder = null;
+                // Stop the canvas track (audio tracks belong to the audio graph and stay alive)
+                recorder.stream.getVideoTracks().forEach(track => track.stop());
+                resolve(blob);
+            }, { once: true });
+            recorder.stop();
+        });
+    }
+
+    // Call right after renderer.render(): the WebGL drawing buffer is only
+    // guaranteed to hold the frame until the browser composites it.
+    captureFrame() {
+        if (!this.options || !this.mediaRecorder || this.mediaRecorder.state === 'inactive') return;
+
+        // Only draw as often as the stream samples the canvas
+        const now = performance.now();
+        if (now - this.lastFrameTime < 1000 / this.options.fps - 1) return;
+        this.lastFrameTime = now;
+
+        const ctx = this.compositeContext;
+        const { width, height } = this.compositeCanvas;
+
+        // Letterbox the scene into the target aspect ratio
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
+        const source = this.sourceCanvas;
+        const scale = Math.min(width / source.width, height / source.height);
+        const drawWidth = source.width * scale;
+        const drawHeight = source.height * scale;
+        const offsetX = (width - drawWidth) / 2;
+        const offsetY = (height - drawHeight) / 2;
+        ctx.drawImage(source, offsetX, offsetY, drawWidth, drawHeight);
+
+        if (this.options.includeOverlays) {
+            // Overlays keep their on-screen position relative to the WebGL canvas
+            const sourceRect = source.getBoundingClientRect();
+            const cssScale = drawWidth / sourceRect.width;
+            this.getOverlayCanvases().forEach(overlay => {
+                if (overlay.style.display === 'none') return;
+                const rect = overlay.getBoundingClientRect();
+                ctx.drawImage(
+                    overlay,
+                    offsetX + (rect.left - sourceRect.left) * cssScale,
+                    offsetY + (rect.top - sourceRect.top) * cssScale,
+                    rect.width * cssScale,
+                    rect.height * cssScale
+                );
+            });
+        }
+    }
+
+    private getTargetSize(resolution: RecordingResolution): { width: number; height: number } {
+        if (resolution === 'window') {
+            // Encoders want even dimensions
+            return {
+                width: this.sourceCanvas.width - (this.sourceCanvas.width % 2),
+                height: this.sourceCanvas.height - (this.sourceCanvas.height % 2)
+            };
+        }
+        const [width, height] = resolution.split('x').map(Number);
+        return { width, height };
+    }
+}
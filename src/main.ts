@@ -7,8 +7,27 @@ import { EducationalUI } from './ui/EducationalUI';
 import { WaveformVisualizer } from './visualizer/WaveformVisualizer';
 import { FrequencyGraph } from './visualizer/FrequencyGraph';
 import { PolarGrid } from './visualizer/PolarGrid';
+import { ChromaRing } from './visualizer/ChromaRing';
 import { WaveformModel3D } from './visualizer/WaveformModel3D';
 import { FourierVisualizer } from './visualizer/FourierVisualizer';
+import { SpectrogramWaterfall, WATERFALL_MAX_TRACK_ROWS } from './visualizer/SpectrogramWaterfall';
+import { OfflineAnalyzer } from './audio/OfflineAnalyzer';
+import { Spectrogram } from './audio/Spectrogram';
+import { SpectrumAnalyzer } from './audio/SpectrumAnalyzer';
+import { BarDynamics } from './audio/BarDynamics';
+import type { TapReader } from './audio/AnalysisTap';
+import { computeFrequencyBands, findBandIndex, sampleBands, type FrequencyBand } from './audio/FrequencyScale';
+import { VideoRecorder } from './export/VideoRecorder';
+import { downloadBlob, timestampForFilename } from './export/Download';
+import { exportWaveformModel } from './export/ModelExporter';
+import {
+  AnalysisCapture,
+  encodeAnalysisFrames,
+  exportBufferAnalysis,
+  type AnalysisExportMetadata,
+  type AnalysisFrame,
+  type ExportContent
+} from './export/AnalysisExporter';
 
 // --- Phase 1: Project Setup & Basic Scene ---
 
@@ -62,18 +81,44 @@ const visualizer = new Visualizer(scene);
 const waveformViz = new WaveformVisualizer();
 const frequencyGraph = new FrequencyGraph();
 const polarGrid = new PolarGrid(scene);
+const chromaRing = new ChromaRing(scene);
 const waveformModel = new WaveformModel3D(scene);
 const fourierVisualizer = new FourierVisualizer(scene);
+const waterfall = new SpectrogramWaterfall(scene);
+const offlineAnalyzer = new OfflineAnalyzer();
+const clock = new THREE.Clock();
+const videoRecorder = new VideoRecorder(
+  renderer.domElement,
+  () => [waveformViz.getCanvas(), frequencyGraph.getCanvas()]
+);
+
+const analysisCapture = new AnalysisCapture();
+let loadedFileName = '';
+
+// Beat-reactive camera shake (decays back to 0)
+let cameraShake = 0;
+const shakeOffset = new THREE.Vector3();
+
+// Full-track time/frequency matrix for the loaded file (null until the worker finishes)
+let spectrogram: Spectrogram | null = null;
 
 // --- Phase 5: Interaction & Scrubbing ---
 const raycaster = new THREE.Raycaster();
 const mouse = new THREE.Vector2();
 let isDragging = false;
+// Shift + drag on the waveform model sets an A–B loop instead of seeking
+let loopAnchor: number | null = null; // Progress (0-1) where the loop drag started
+let loopDragEnd: number | null = null;
 
 const onMouseMove = (event: MouseEvent) => {
   mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
   mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
 
+  if (loopAnchor !== null) {
+    handleLoopDrag();
+    return;
+  }
+
   if (isDragging) {
     // Determine which one we are dragging based on current mode if ambiguous,
     // but better to just check both or remember which one was clicked.
@@ -87,7 +132,9 @@ const onMouseMove = (event: MouseEvent) => {
 };
 
 const onMouseDown = (event: MouseEvent) => {
-  if (educationalUI.settings.visualizationMode === 'realtime') return;
+  // The model and lab are hidden in these modes (hidden meshes still catch rays)
+  if (educationalUI.settings.visualizationMode === 'realtime' ||
+    educationalUI.settings.visualizationMode === 'waterfall') return;
 
   raycaster.setFromCamera(mouse, activeCamera);
 
@@ -96,8 +143,13 @@ const onMouseDown = (event: MouseEvent) => {
   let intersects = waveformHitArea ? raycaster.intersectObject(waveformHitArea) : [];
 
   if (intersects.length > 0) {
-    isDragging = true;
     controls.enabled = false;
+    if (event.shiftKey) {
+      loopAnchor = waveformModel.calculateProgressFromPoint(intersects[0].point);
+      loopDragEnd = loopAnchor;
+      return;
+    }
+    isDragging = true;
     handleScrubbing('waveform');
     return;
   }
@@ -115,6 +167,15 @@ const onMouseDown = (event: MouseEvent) => {
 };
 
 const onMouseUp = () => {
+  if (loopAnchor !== null && loopDragEnd !== null) {
+    const audioInfo = waveformModel.getAudioInfo();
+    if (audioInfo) {
+      // A click without a drag gives a zero-length region, which clears the loop
+      audioController.setLoopRegion(loopAnchor * audioInfo.duration, loopDragEnd * audioInfo.duration);
+    }
+  }
+  loopAnchor = null;
+  loopDragEnd = null;
   isDragging = false;
   controls.enabled = true; // Re-enable orbit controls
 };
@@ -141,6 +202,22 @@ const handleScrubbing = (type: 'waveform' | 'fourier') => {
   }
 };
 
+// Preview the loop on the model while dragging; it is applied on mouse up
+const handleLoopDrag = () => {
+  const hitArea = waveformModel.getHitArea();
+  const audioInfo = waveformModel.getAudioInfo();
+  if (!hitArea || !audioInfo || loopAnchor === null) return;
+
+  raycaster.setFromCamera(mouse, activeCamera);
+  const intersects = raycaster.intersectObject(hitArea);
+  if (intersects.length > 0) {
+    loopDragEnd = waveformModel.calculateProgressFromPoint(intersects[0].point);
+    const start = Math.min(loopAnchor, loopDragEnd) * audioInfo.duration;
+    const end = Math.max(loopAnchor, loopDragEnd) * audioInfo.duration;
+    waveformModel.setLoopRegion({ start, end });
+  }
+};
+
 const seekAudio = (progress: number) => {
   const audioInfo = waveformModel.getAudioInfo();
   if (audioInfo) {
@@ -156,26 +233,456 @@ window.addEventListener('mouseup', onMouseUp);
 // Initial setup
 let BAR_COUNT = educationalUI.settings.barCount;
 let RADIUS = educationalUI.settings.radius;
-visualizer.createVisualizerBars(BAR_COUNT, RADIUS);
-polarGrid.create(RADIUS, BAR_COUNT);
+visualizer.createVisualizerBars(BAR_COUNT, RADIUS, educationalUI.settings.barLayout);
+polarGrid.create(RADIUS, BAR_COUNT, educationalUI.settings.barLayout);
 polarGrid.hide(); // Hidden by default
+
+// Chroma ring inside the bar circle, or in its place. With the ring on, the polar
+// grid switches to 12 divisions so its spokes separate the pitch classes.
+const updateChromaLayout = () => {
+  const display = educationalUI.settings.chromaDisplay;
+  if (display === 'replace ring') {
+    chromaRing.create(RADIUS * 0.6, RADIUS);
+  } else {
+    chromaRing.create(RADIUS * 0.3, RADIUS * 0.7);
+  }
+  polarGrid.create(RADIUS, display === 'off' ? BAR_COUNT : 12, educationalUI.settings.barLayout);
+};
+let previousChromaDisplay = educationalUI.settings.chromaDisplay;
 waveformModel.hide(); // Hidden by default
 
+// Frequency mapping shared by the bar ring, the Fourier spectrum bars and the frequency graph:
+// which Hz range (and FFT bins) each bar covers on the chosen frequency scale
+const computeBarBands = (binCount: number, getFrequencyForBin: (bin: number) => number): FrequencyBand[] =>
+  computeFrequencyBands(educationalUI.settings.frequencyScale, BAR_COUNT, binCount, getFrequencyForBin);
+
+let frequencyBands = computeBarBands(
+  audioController.getFrequencyBinCount(),
+  bin => audioController.getFrequencyForBin(bin)
+);
+let barLevels: Float32Array = new Float32Array(BAR_COUNT);
+// Display ballistics (attack/release, peak caps, max hold) for the ring, the graph and
+// the Fourier spectrum bars; export and the waterfall keep the raw barLevels
+const barDynamics = new BarDynamics();
+let displayLevels: Float32Array = barLevels;
+
+// The same mapping for the offline spectrogram's bins, rebuilt with frequencyBands
+// or when a new spectrogram arrives
+let spectrogramBands: FrequencyBand[] = [];
+let spectrogramBandsSource: Spectrogram | null = null;
+
+const updateFrequencyBands = () => {
+  frequencyBands = computeBarBands(
+    audioController.getFrequencyBinCount(),
+    bin => audioController.getFrequencyForBin(bin)
+  );
+  spectrogramBandsSource = null;
+};
+
+const getSpectrogramBands = (source: Spectrogram): FrequencyBand[] => {
+  if (spectrogramBandsSource !== source) {
+    spectrogramBands = computeBarBands(source.binCount, bin => source.getFrequencyForBin(bin));
+    spectrogramBandsSource = source;
+  }
+  return spectrogramBands;
+};
+
+// Bar levels from the offline spectrogram, mapped onto the same frequency scale
+let spectrogramFrame: Float32Array = new Float32Array(0);
+let spectrogramBarLevels: Float32Array = new Float32Array(0);
+const getSpectrogramBarLevels = (time: number): Float32Array => {
+  if (!spectrogram) return barLevels;
+  const source = spectrogram;
+  const decibelRange = audioController.getDecibelRange();
+  spectrogramFrame = source.getLevelFrameAtTime(time, spectrogramFrame, decibelRange.min, decibelRange.max);
+  spectrogramBarLevels = sampleBands(spectrogramFrame, getSpectrogramBands(source), spectrogramBarLevels);
+  return spectrogramBarLevels;
+};
+
+// Waterfall: live rows come from the analysis tap, one every WATERFALL_HOP samples,
+// so the terrain scrolls at the pace of the audio whatever the frame rate.
+// (Until the worklet has loaded, each rendered frame's bars become a row instead.)
+const WATERFALL_HOP = 1024;
+let waterfallReader: TapReader | null = null;
+let waterfallSpectrum: SpectrumAnalyzer | null = null;
+let waterfallDecibels = new Float32Array(0);
+let waterfallBinLevels = new Float32Array(0);
+let waterfallRow = new Float32Array(0);
+// Settings (and spectrogram) the current terrain was built for; rebuilt when they change
+let waterfallBuiltFor = '';
+let waterfallSpectrogram: Spectrogram | null = null;
+
+// Whole-track landscape: the offline spectrogram reduced to at most
+// WATERFALL_MAX_TRACK_ROWS rows, keeping the loudest value of every bin in a row.
+// That pass over every frame only runs once per spectrogram; the row peaks are kept
+// (in dB), so a new dB range, scale or bar count only redoes the mapping onto bars.
+let waterfallTrackSource: Spectrogram | null = null;
+let waterfallTrackDecibels = new Float32Array(0);
+let waterfallTrackRows = 0;
+
+const computeWaterfallTrackPeaks = (source: Spectrogram) => {
+  const rows = Math.min(source.frameCount, WATERFALL_MAX_TRACK_ROWS);
+  const decibels = new Float32Array(rows * source.binCount);
+  const peaks = new Float32Array(source.binCount);
+
+  for (let row = 0; row < rows; row++) {
+    peaks.fill(0);
+    const firstFrame = Math.floor((row * source.frameCount) / rows);
+    const lastFrame = Math.max(firstFrame + 1, Math.floor(((row + 1) * source.frameCount) / rows));
+    for (let frameIndex = firstFrame; frameIndex < lastFrame; frameIndex++) {
+      const frame = source.getFrame(frameIndex);
+      for (let bin = 0; bin < source.binCount; bin++) {
+        if (frame[bin] > peaks[bin]) peaks[bin] = frame[bin];
+      }
+    }
+    for (let bin = 0; bin < source.binCount; bin++) {
+      decibels[row * source.binCount + bin] = peaks[bin] > 0 ? 20 * Math.log10(peaks[bin]) : -Infinity;
+    }
+  }
+
+  waterfallTrackSource = source;
+  waterfallTrackDecibels = decibels;
+  waterfallTrackRows = rows;
+};
+
+const buildWaterfallTrack = (source: Spectrogram) => {
+  if (waterfallTrackSource !== source) computeWaterfallTrackPeaks(source);
+  const rows = waterfallTrackRows;
+  const bands = getSpectrogramBands(source);
+  const decibelRange = audioController.getDecibelRange();
+  const binLevels = new Float32Array(source.binCount);
+  const levels = new Float32Array(rows * bands.length);
+
+  for (let row = 0; row < rows; row++) {
+    // Same dB -> 0-1 mapping as Spectrogram.getLevelFrameAtTime
+    for (let bin = 0; bin < source.binCount; bin++) {
+      const db = waterfallTrackDecibels[row * source.binCount + bin];
+      binLevels[bin] = Math.min(Math.max((db - decibelRange.min) / (decibelRange.max - decibelRange.min), 0), 1);
+    }
+    sampleBands(binLevels, bands, levels.subarray(row * bands.length, (row + 1) * bands.length));
+  }
+
+  waterfall.setTrack(levels, rows, bands);
+};
+
+// Live rows: every tap frame since the last render, windowed and mapped onto the bars
+const readWaterfallRows = () => {
+  if (!waterfallReader || !waterfallSpectrum) {
+    waterfall.pushRow(barLevels);
+    return;
+  }
+  const analyzer = waterfallSpectrum;
+  const decibelRange = audioController.getDecibelRange();
+  waterfallReader.read(frame => {
+    analyzer.process(frame, 0, waterfallDecibels);
+    for (let bin = 0; bin < waterfallDecibels.length; bin++) {
+      const level = (waterfallDecibels[bin] - decibelRange.min) / (decibelRange.max - decibelRange.min);
+      waterfallBinLevels[bin] = level > 0 ? Math.min(level, 1) : 0;
+    }
+    waterfall.pushRow(sampleBands(waterfallBinLevels, frequencyBands, waterfallRow));
+  });
+};
+
+const updateWaterfall = () => {
+  const settings = educationalUI.settings;
+  const decibelRange = audioController.getDecibelRange();
+
+  if (settings.waterfallView === 'whole track' && spectrogram) {
+    const builtFor = `track ${BAR_COUNT} ${settings.frequencyScale} ${decibelRange.min} ${decibelRange.max}`;
+    if (waterfallBuiltFor !== builtFor || waterfallSpectrogram !== spectrogram) {
+      buildWaterfallTrack(spectrogram);
+      waterfallBuiltFor = builtFor;
+      waterfallSpectrogram = spectrogram;
+    }
+    waterfall.setPlayhead(audioController.getCurrentTime() / spectrogram.duration);
+  } else {
+    const tap = audioController.getAnalysisTap();
+    const windowType = settings.windowFunction === 'native' ? 'blackman' : settings.windowFunction;
+    const builtFor = `live ${BAR_COUNT} ${settings.frequencyScale} ${settings.fftSize} ${windowType} ` +
+      `${settings.kaiserBeta} ${settings.analysisChannel} ${tap !== null}`;
+    if (waterfallBuiltFor !== builtFor) {
+      waterfall.createLive(frequencyBands);
+      waterfallRow = new Float32Array(BAR_COUNT);
+      waterfallReader = tap ? tap.createReader(settings.fftSize, WATERFALL_HOP, settings.analysisChannel) : null;
+      waterfallSpectrum = new SpectrumAnalyzer(settings.fftSize, windowType, settings.kaiserBeta);
+      waterfallDecibels = new Float32Array(settings.fftSize / 2);
+      waterfallBinLevels = new Float32Array(settings.fftSize / 2);
+      waterfallBuiltFor = builtFor;
+      waterfallSpectrogram = null;
+    }
+    readWaterfallRows();
+    waterfall.setPlayhead(null);
+  }
+  waterfall.update();
+};
+
 // Watch for settings changes
 let previousFFTSize = educationalUI.settings.fftSize;
+let previousMinDecibels = educationalUI.settings.minDecibels;
+let previousMaxDecibels = educationalUI.settings.maxDecibels;
+let previousSmoothing = educationalUI.settings.smoothingTimeConstant;
+let previousFrequencyScale = educationalUI.settings.frequencyScale;
+let previousWindowFunction = educationalUI.settings.windowFunction;
+let previousKaiserBeta = educationalUI.settings.kaiserBeta;
 let previousBarCount = educationalUI.settings.barCount;
 let previousRadius = educationalUI.settings.radius;
+let previousBarLayout = educationalUI.settings.barLayout;
 let previousPerspective = educationalUI.settings.usePerspective;
 let previousSpread = educationalUI.settings.waveformSpread;
+let previousChannelLayout = educationalUI.settings.channelLayout;
+let previousWaveformColoring = educationalUI.settings.waveformColoring;
+let previousStftFrameSize = educationalUI.settings.stftFrameSize;
+let previousStftHopSize = educationalUI.settings.stftHopSize;
+let previousStftWindow = educationalUI.settings.stftWindow;
+let previousStftKaiserBeta = educationalUI.settings.kaiserBeta;
 
 // Connect UI to AudioController
 educationalUI.setAudioController(audioController);
 
+// Recording: composite the WebGL canvas (and 2D graphs) with the audio output into WebM
+educationalUI.onToggleRecording = async () => {
+  if (videoRecorder.isRecording()) {
+    const blob = await videoRecorder.stop();
+    downloadBlob(blob, `spec3d-${timestampForFilename()}.webm`);
+    educationalUI.setRecordingState(false);
+    return;
+  }
+
+  try {
+    videoRecorder.start(audioController.getRecordingStream(), {
+      resolution: educationalUI.settings.recordingResolution,
+      fps: educationalUI.settings.recordingFps,
+      includeOverlays: educationalUI.settings.recordingOverlays
+    });
+    educationalUI.setRecordingState(true);
+  } catch (err) {
+    console.error('Recording failed:', err);
+    educationalUI.updateInfo('Error: Could not start recording (MediaRecorder not supported?)');
+  }
+};
+
+// Data export: frames as CSV or JSON, tagged with time, bin frequencies and FFT size
+const getExportContent = (): ExportContent => ({
+  spectrum: educationalUI.settings.exportSpectrum,
+  waveform: educationalUI.settings.exportWaveform,
+  bars: educationalUI.settings.exportBars
+});
+
+const saveAnalysisFrames = (metadata: AnalysisExportMetadata, frames: AnalysisFrame[]) => {
+  const format = educationalUI.settings.exportFormat;
+  downloadBlob(encodeAnalysisFrames(format, metadata, frames), `spec3d-analysis-${timestampForFilename()}.${format}`);
+};
+
+// 3D model export: the loaded track's envelope as a watertight solid (glTF, OBJ or STL)
+educationalUI.onExportModel = async () => {
+  const pyramids = waveformModel.getPeakPyramids();
+  if (pyramids.length === 0) {
+    educationalUI.updateInfo('Load an audio file first to export its waveform model');
+    return;
+  }
+
+  const params = educationalUI.settings.modelExport;
+  try {
+    const name = loadedFileName.replace(/\.[^.]+$/, '') || 'waveform';
+    const blob = await exportWaveformModel(pyramids, params, name);
+    downloadBlob(blob, `spec3d-model-${params.shape}-${timestampForFilename()}.${params.format}`);
+    educationalUI.updateInfo(`Exported a ${params.shape} model (${params.length} mm, ${params.segments} segments) as ${params.format.toUpperCase()}`);
+  } catch (err) {
+    console.error('Model export failed:', err);
+    educationalUI.updateInfo('Error exporting the 3D model');
+  }
+};
+
+// Live capture: one frame per interval while the user plays, loops or speaks.
+// Frames come from the analysis tap with a hop of one interval, so none is skipped or
+// repeated whatever the frame rate. (Until the worklet has loaded, the analysers are
+// sampled once per rendered frame instead.)
+let captureReader: TapReader | null = null;
+let captureSpectrum: SpectrumAnalyzer | null = null;
+
+educationalUI.onToggleCapture = () => {
+  const settings = educationalUI.settings;
+  if (!analysisCapture.isCapturing()) {
+    const tap = audioController.getAnalysisTap();
+    if (tap) {
+      const hop = Math.max(1, Math.round(settings.exportInterval * tap.getSampleRate()));
+      const windowType = settings.windowFunction === 'native' ? 'blackman' : settings.windowFunction;
+      captureReader = tap.createReader(settings.fftSize, hop, settings.analysisChannel);
+      captureSpectrum = new SpectrumAnalyzer(settings.fftSize, windowType, settings.kaiserBeta);
+    }
+    analysisCapture.start(settings.exportInterval);
+    educationalUI.setCaptureState(true);
+    return;
+  }
+
+  const frames = analysisCapture.stop();
+  // The tap capture keeps the FFT size it started with
+  const fftSize = captureSpectrum ? captureSpectrum.getSize() : audioController.getFFTSize();
+  const binCount = fftSize / 2;
+  const sampleRate = audioController.getAudioContext().sampleRate;
+  const windowName = captureSpectrum ? captureSpectrum.getWindowType() :
+    educationalUI.settings.windowFunction === 'native' ? 'blackman (native)' : educationalUI.settings.windowFunction;
+  captureReader = null;
+  captureSpectrum = null;
+  saveAnalysisFrames({
+    source: 'live',
+    name: audioController.getCurrentSourceType() === 'file' ? loadedFileName : audioController.getCurrentSourceType(),
+    sampleRate,
+    fftSize,
+    window: windowName,
+    frequencyScale: educationalUI.settings.frequencyScale,
+    decibelRange: audioController.getDecibelRange(),
+    binFrequencies: Array.from({ length: binCount }, (_, bin) => (bin * sampleRate) / fftSize),
+    bandCenters: frequencyBands.map(band => band.centerHz),
+    exportedAt: new Date().toISOString()
+  }, frames);
+  educationalUI.setCaptureState(false, frames.length);
+};
+
+// Max hold: forget the loudest levels so far
+educationalUI.onResetMaxHold = () => {
+  barDynamics.resetMaxHold();
+  educationalUI.updateInfo('Max hold reset: the ghost bars start again from the current levels');
+};
+
+// File export: analyse the decoded track directly, no need to play it in real time
+educationalUI.onExportFile = async () => {
+  const buffer = waveformModel.getAudioBuffer();
+  if (!buffer) {
+    educationalUI.updateInfo('Load an audio file first to export its analysis');
+    return;
+  }
+
+  const settings = educationalUI.settings;
+  const fftSize = audioController.getFFTSize();
+  const binCount = fftSize / 2;
+  const getFrequencyForBin = (bin: number) => (bin / binCount) * (buffer.sampleRate / 2);
+  const bands = computeBarBands(binCount, getFrequencyForBin);
+  const end = Math.min(settings.exportEnd > settings.exportStart ? settings.exportEnd : buffer.duration, buffer.duration);
+  if (end - settings.exportStart <= 0) {
+    educationalUI.updateInfo(`Export range is empty: the file is only ${buffer.duration.toFixed(1)} s long`);
+    return;
+  }
+  const format = settings.exportFormat;
+
+  educationalUI.updateInfo(`Analysing ${settings.exportStart.toFixed(1)}–${end.toFixed(1)} s for export...`);
+  try {
+    const { blob, frameCount } = await exportBufferAnalysis(buffer, {
+      fftSize,
+      // The AnalyserNode's built-in window is a Blackman window
+      window: settings.windowFunction === 'native' ? 'blackman' : settings.windowFunction,
+      kaiserBeta: settings.kaiserBeta,
+      interval: settings.exportInterval,
+      start: settings.exportStart,
+      end,
+      bands,
+      decibelRange: audioController.getDecibelRange(),
+      content: getExportContent()
+    }, {
+      source: 'file',
+      name: loadedFileName,
+      sampleRate: buffer.sampleRate,
+      fftSize,
+      window: settings.windowFunction === 'native' ? 'blackman' : settings.windowFunction,
+      frequencyScale: settings.frequencyScale,
+      decibelRange: audioController.getDecibelRange(),
+      binFrequencies: Array.from({ length: binCount }, (_, bin) => getFrequencyForBin(bin)),
+      bandCenters: bands.map(band => band.centerHz),
+      exportedAt: new Date().toISOString()
+    }, format);
+
+    downloadBlob(blob, `spec3d-analysis-${timestampForFilename()}.${format}`);
+    educationalUI.updateInfo(`Exported ${frameCount} frames (${settings.exportStart.toFixed(1)}–${end.toFixed(1)} s) as ${format.toUpperCase()}`);
+  } catch (err) {
+    console.error('File analysis export failed:', err);
+    educationalUI.updateInfo('Error exporting the file analysis (try a shorter range or fewer series)');
+  }
+};
+
+// EQ handles dragged in the frequency graph update the same settings as the GUI
+frequencyGraph.onFilterBandDrag = (index, frequency, gain) => {
+  const band = educationalUI.settings.filterBands[index];
+  band.frequency = frequency;
+  band.gain = gain;
+  educationalUI.applyFilterSettings();
+};
+
+// Offline STFT of the decoded track (runs in a Web Worker)
+const runOfflineAnalysis = async () => {
+  const buffer = waveformModel.getAudioBuffer();
+  if (!buffer) return;
+
+  spectrogram = null;
+  try {
+    const settings = educationalUI.settings;
+    const requestedHopSize = settings.stftHopSize;
+    const { spectrogram: result, rhythm, chromagram, features } = await offlineAnalyzer.analyze(buffer, {
+      frameSize: settings.stftFrameSize,
+      hopSize: requestedHopSize,
+      window: settings.stftWindow,
+      kaiserBeta: settings.kaiserBeta
+    });
+
+    // Ignore stale results if the track or settings changed while the worker was busy
+    // (the hop is compared as requested: long tracks get a larger one)
+    if (waveformModel.getAudioBuffer() !== buffer ||
+      result.frameSize !== settings.stftFrameSize ||
+      requestedHopSize !== settings.stftHopSize ||
+      result.window !== settings.stftWindow ||
+      (result.window === 'kaiser' && result.kaiserBeta !== settings.kaiserBeta)) return;
+
+    spectrogram = result;
+
+    // Onsets and tempo from the same spectrogram
+    audioController.setRhythmAnalysis(rhythm);
+    waveformModel.setRhythm(rhythm);
+
+    // Pitch classes over time and the key of the track
+    waveformModel.setChromagram(chromagram);
+    educationalUI.setKeyEstimate(chromagram.key);
+
+    // Centroid, band energy and zero-crossing rate over time, for colouring the model
+    waveformModel.setSpectralFeatures(features);
+
+    const hop = result.hopSize > requestedHopSize ? `, hop raised to ${result.hopSize} for the track length` : '';
+    const tempo = rhythm.beats.length > 0 ? `, tempo ≈ ${rhythm.bpm.toFixed(1)} BPM` : '';
+    const key = chromagram.key ? `, key ≈ ${chromagram.key.name}` : '';
+    educationalUI.updateInfo(`Offline STFT ready: ${result.frameCount} frames × ${result.binCount} bins${hop}${tempo}${key}`);
+  } catch (err) {
+    console.error('Offline analysis failed:', err);
+    educationalUI.updateInfo('Error running offline STFT analysis');
+  }
+};
+
+// Integrated loudness, LRA and true peak of the whole track (runs in a Web Worker)
+const measureFileLoudness = async () => {
+  const buffer = waveformModel.getAudioBuffer();
+  if (!buffer) return;
+
+  educationalUI.meters.setFileAnalysis('measuring');
+  try {
+    const loudness = await offlineAnalyzer.measureLoudness(buffer);
+    // Ignore the result if another track was loaded in the meantime
+    if (waveformModel.getAudioBuffer() !== buffer) return;
+    educationalUI.meters.setFileAnalysis(loudness);
+    waveformModel.setLoudness(loudness);
+  } catch (err) {
+    console.error('Loudness measurement failed:', err);
+    educationalUI.meters.setFileAnalysis(null);
+  }
+};
+
 // Handle file upload for 3D model generation
 educationalUI.onFileLoaded = async (file: File) => {
+  loadedFileName = file.name;
+  educationalUI.setKeyEstimate(null);
   try {
-    await waveformModel.loadAudioFile(file, audioController.getAudioContext());
+    // Superseded by a newer file: the analyses would run on that track instead
+    if (!await waveformModel.loadAudioFile(file, audioController.getAudioContext())) return;
+    educationalUI.setExportDuration(waveformModel.getAudioBuffer()?.duration ?? 0);
     educationalUI.updateInfo(`3D Waveform Model generated! Switch to '3d-model' mode to view it.`);
+    runOfflineAnalysis();
+    measureFileLoudness();
   } catch (err) {
     educationalUI.updateInfo('Error generating 3D model');
   }
@@ -204,22 +711,66 @@ const animate = () => {
 
   // Update stats
   educationalUI.updateStats();
+  const deltaTime = clock.getDelta();
 
   // Check for settings changes
   if (educationalUI.settings.fftSize !== previousFFTSize) {
     audioController.setFFTSize(educationalUI.settings.fftSize);
     previousFFTSize = educationalUI.settings.fftSize;
+    updateFrequencyBands();
+  }
+
+  if (educationalUI.settings.windowFunction !== previousWindowFunction ||
+    educationalUI.settings.kaiserBeta !== previousKaiserBeta) {
+    audioController.setAnalysisWindow(educationalUI.settings.windowFunction, educationalUI.settings.kaiserBeta);
+    previousWindowFunction = educationalUI.settings.windowFunction;
+    previousKaiserBeta = educationalUI.settings.kaiserBeta;
   }
 
+  if (educationalUI.settings.frequencyScale !== previousFrequencyScale) {
+    previousFrequencyScale = educationalUI.settings.frequencyScale;
+    updateFrequencyBands();
+  }
+
+  if (educationalUI.settings.minDecibels !== previousMinDecibels ||
+    educationalUI.settings.maxDecibels !== previousMaxDecibels) {
+    audioController.setDecibelRange(educationalUI.settings.minDecibels, educationalUI.settings.maxDecibels);
+    previousMinDecibels = educationalUI.settings.minDecibels;
+    previousMaxDecibels = educationalUI.settings.maxDecibels;
+  }
+
+  if (educationalUI.settings.smoothingTimeConstant !== previousSmoothing) {
+    audioController.setSmoothingTimeConstant(educationalUI.settings.smoothingTimeConstant);
+    previousSmoothing = educationalUI.settings.smoothingTimeConstant;
+  }
+
+  // Byte (0-255) or float (real dB) analysis path, chosen in FFT Settings
+  const useFloat = educationalUI.settings.useFloatData;
+  // Which channel every live view analyses (mix, left, right, mid or side)
+  const analysisChannel = educationalUI.settings.analysisChannel;
+
   if (educationalUI.settings.barCount !== previousBarCount ||
     educationalUI.settings.radius !== previousRadius) {
     BAR_COUNT = educationalUI.settings.barCount;
     RADIUS = educationalUI.settings.radius;
     visualizer.createVisualizerBars(BAR_COUNT, RADIUS);
-    polarGrid.create(RADIUS, BAR_COUNT);
+    updateChromaLayout();
     fourierVisualizer.updateBarCount(BAR_COUNT);
     previousBarCount = BAR_COUNT;
     previousRadius = RADIUS;
+    updateFrequencyBands();
+  }
+
+  // Layout changes morph the existing bars; the guide switches straight away
+  if (educationalUI.settings.barLayout !== previousBarLayout) {
+    previousBarLayout = educationalUI.settings.barLayout;
+    visualizer.setLayout(previousBarLayout);
+    updateChromaLayout();
+  }
+
+  if (educationalUI.settings.chromaDisplay !== previousChromaDisplay) {
+    previousChromaDisplay = educationalUI.settings.chromaDisplay;
+    updateChromaLayout();
   }
 
   if (educationalUI.settings.usePerspective !== previousPerspective) {
@@ -233,17 +784,129 @@ const animate = () => {
     previousSpread = educationalUI.settings.waveformSpread;
   }
 
+  // A–B loop shading follows the controller (except while a new loop is being dragged)
+  if (loopAnchor === null) {
+    waveformModel.setLoopRegion(audioController.getLoopRegion());
+  }
+
+  if (educationalUI.settings.waveformColoring !== previousWaveformColoring) {
+    waveformModel.setColoring(educationalUI.settings.waveformColoring);
+    previousWaveformColoring = educationalUI.settings.waveformColoring;
+  }
+
+  if (educationalUI.settings.channelLayout !== previousChannelLayout) {
+    waveformModel.setChannelLayout(educationalUI.settings.channelLayout);
+    previousChannelLayout = educationalUI.settings.channelLayout;
+  }
+
+  if (educationalUI.settings.stftFrameSize !== previousStftFrameSize ||
+    educationalUI.settings.stftHopSize !== previousStftHopSize ||
+    educationalUI.settings.stftWindow !== previousStftWindow ||
+    (educationalUI.settings.stftWindow === 'kaiser' && educationalUI.settings.kaiserBeta !== previousStftKaiserBeta)) {
+    previousStftFrameSize = educationalUI.settings.stftFrameSize;
+    previousStftKaiserBeta = educationalUI.settings.kaiserBeta;
+    previousStftHopSize = educationalUI.settings.stftHopSize;
+    previousStftWindow = educationalUI.settings.stftWindow;
+    runOfflineAnalysis();
+  }
+
+  // Phase 4: Real-Time Rendering Pipeline (Upgraded: Frequency-Scaled Band Sampling)
+  // Every bin is accounted for: each bar averages the bins inside its Hz range
+  const frequencyLevels = audioController.getFrequencyLevels(useFloat, analysisChannel);
+  barLevels = sampleBands(frequencyLevels, frequencyBands, barLevels);
+  const dynamics = educationalUI.settings.barDynamics;
+  displayLevels = barDynamics.process(barLevels, deltaTime, dynamics);
+  const peakLevels = dynamics.peakHold ? barDynamics.getPeaks() : null;
+  const maxHoldLevels = dynamics.maxHold ? barDynamics.getMaxima() : null;
+
+  // Data export: file sources are stamped with the track time, live input with the context clock
+  if (analysisCapture.isCapturing() && captureReader && captureSpectrum) {
+    // Tap frames carry context time; for files, count back from the current track time
+    const isFile = audioController.getCurrentSourceType() === 'file';
+    const contextTime = audioController.getAudioContext().currentTime;
+    const trackTime = audioController.getCurrentTime();
+    const playbackRate = audioController.getPlaybackRate();
+    analysisCapture.readTap(
+      captureReader,
+      captureSpectrum,
+      frequencyBands,
+      audioController.getDecibelRange(),
+      getExportContent(),
+      tapTime => isFile ? trackTime - (contextTime - tapTime) * playbackRate : tapTime
+    );
+  } else if (analysisCapture.isCapturing()) {
+    const captureTime = audioController.getCurrentSourceType() === 'file' ?
+      audioController.getCurrentTime() : audioController.getAudioContext().currentTime;
+    analysisCapture.addFrame(
+      captureTime,
+      audioController.getFloatFrequencyData(analysisChannel),
+      audioController.getFloatTimeDomainData(analysisChannel),
+      barLevels,
+      getExportContent()
+    );
+  }
+
+  // Rhythm: beat tracking drives the ring pulse and the camera shake
+  const beat = audioController.updateBeat();
+  educationalUI.updateRhythmReadout(beat);
+  if (beat.isBeat) {
+    const reaction = educationalUI.settings.beatReaction;
+    if (reaction === 'pulse' || reaction === 'pulse + shake') visualizer.pulse();
+    if (reaction === 'shake' || reaction === 'pulse + shake') cameraShake = 1;
+  }
+  visualizer.updatePulse(deltaTime);
+  visualizer.updateLayout(deltaTime);
+  waveformModel.setBeatMarkersVisible(educationalUI.settings.showBeatMarkers);
+
+  // Levels and loudness (only measured while the meters are on screen)
+  if (educationalUI.settings.showMeters) {
+    educationalUI.meters.show();
+    educationalUI.meters.update(audioController.updateLoudness(), deltaTime);
+  } else {
+    educationalUI.meters.hide();
+  }
+  waveformModel.setLoudnessCurveVisible(educationalUI.settings.showLoudnessCurve);
+  waveformModel.setChromaStripVisible(educationalUI.settings.showChromaStrip);
+
+  // Pitch: tuner overlay plus the f0 marker in the frequency graph and Fourier spectrum
+  if (educationalUI.settings.showTuner) {
+    const pitch = audioController.getPitch();
+    educationalUI.tuner.show();
+    educationalUI.tuner.update(pitch);
+    frequencyGraph.setPitchMarker(pitch ? pitch.frequency : null, pitch ? pitch.name : '');
+    fourierVisualizer.setPitchBar(pitch ? findBandIndex(frequencyBands, pitch.frequency) : -1);
+  } else {
+    educationalUI.tuner.hide();
+    frequencyGraph.setPitchMarker(null);
+    fourierVisualizer.setPitchBar(-1);
+  }
+
+  // Window function overlay (time domain graph and Fourier time plane)
+  const windowShape = educationalUI.settings.showWindowOverlay ? audioController.getAnalysisWindowShape() : null;
+  waveformViz.setWindowOverlay(windowShape);
+  fourierVisualizer.setWindowShape(windowShape);
+  fourierVisualizer.setComponentCount(educationalUI.settings.fourierComponents);
+
   // Toggle visualizations
   if (educationalUI.settings.showWaveform) {
     waveformViz.show();
-    waveformViz.draw(audioController.getTimeDomainData());
+    waveformViz.draw(audioController.getTimeDomainSamples(useFloat, analysisChannel));
   } else {
     waveformViz.hide();
   }
 
   if (educationalUI.settings.showFrequencyGraph) {
     frequencyGraph.show();
-    frequencyGraph.draw(audioController.getFrequencyData());
+    frequencyGraph.setFilterOverlay(educationalUI.settings.filterBypass ? null : {
+      getResponse: frequencies => audioController.getFilterResponse(frequencies),
+      bands: educationalUI.settings.filterBands
+    });
+    frequencyGraph.setHoldLevels(peakLevels, maxHoldLevels);
+    frequencyGraph.draw(
+      displayLevels,
+      frequencyBands,
+      useFloat ? audioController.getDecibelRange() : undefined
+    );
   } else {
     frequencyGraph.hide();
   }
@@ -257,23 +920,36 @@ const animate = () => {
   controls.autoRotate = educationalUI.settings.autoRotate;
   controls.update();
 
-  // Mode switching: Real-time vs 3D Model vs Fourier View
+  // Mode switching: Real-time vs 3D Model vs Fourier View vs Waterfall
   const isModelMode = educationalUI.settings.visualizationMode === '3d-model';
   const isFourierMode = educationalUI.settings.visualizationMode === 'fourier-view';
+  const isWaterfallMode = educationalUI.settings.visualizationMode === 'waterfall';
+
+  if (!isWaterfallMode) waterfall.hide();
 
-  if (isModelMode) {
+  if (isWaterfallMode) {
+    // Waterfall Mode: the spectrum over time as a terrain
+    visualizer.setVisible(false);
+    chromaRing.hide();
+    waveformModel.hide();
+    fourierVisualizer.hide();
+    waterfall.show();
+    updateWaterfall();
+  } else if (isModelMode) {
     // 3D Model Mode: Show dynamic waveform, hide real-time bars
-    visualizer.meshes.forEach(mesh => mesh.visible = false);
+    visualizer.setVisible(false);
+    chromaRing.hide();
     waveformModel.show();
     fourierVisualizer.hide();
 
     // Update waveform animation with current playback time
     const currentTime = audioController.getCurrentTime();
     const isPlaying = audioController.isPlaying();
-    waveformModel.updatePlayback(currentTime, isPlaying);
+    waveformModel.updatePlayback(currentTime, isPlaying, audioController.getPlaybackRate());
   } else if (isFourierMode) {
     // Fourier View Mode
-    visualizer.meshes.forEach(mesh => mesh.visible = false);
+    visualizer.setVisible(false);
+    chromaRing.hide();
 
     // Integration: If a model exists, manage its visibility
     if (waveformModel.getAudioInfo()) {
@@ -291,68 +967,70 @@ const animate = () => {
       // sync model playback
       const currentTime = audioController.getCurrentTime();
       const isPlaying = audioController.isPlaying();
-      waveformModel.updatePlayback(currentTime, isPlaying);
+      waveformModel.updatePlayback(currentTime, isPlaying, audioController.getPlaybackRate());
 
       // STATIC LAB POSITION: Pull back further for the expanded environment
       fourierVisualizer.setPosition(0, 10, 40);
       fourierVisualizer.setRotation(0, 0, 0);
 
       const progPos = waveformModel.getProgressPosition();
-      const timeData = audioController.getTimeDomainData();
-      const freqData = audioController.getFrequencyData();
+      const timeData = audioController.getTimeDomainSamples(useFloat, analysisChannel);
+      // When paused, the live analyser decays to silence; the offline spectrogram
+      // still knows the spectrum at the scanner position, so use it instead.
+      // (The hold markers belong to the live levels, so they are hidden meanwhile.)
+      const useSpectrogram = !isPlaying && spectrogram !== null;
+      const freqData = useSpectrogram ? getSpectrogramBarLevels(currentTime) : displayLevels;
 
       fourierVisualizer.show();
-      fourierVisualizer.update(timeData, freqData, progPos, currentTime);
+      fourierVisualizer.setHoldLevels(useSpectrogram ? null : peakLevels, useSpectrogram ? null : maxHoldLevels);
+      fourierVisualizer.update(timeData, freqData, progPos, audioController.getAudioContext().sampleRate);
+    } else if (audioController.getCurrentSourceType() === 'generator') {
+      // Signal Generator: No track to scan, so the lab stays at the origin and
+      // shows the live (known) test signal next to its decomposition
+      waveformModel.hide();
+      fourierVisualizer.setPosition(0, 10, 40);
+      fourierVisualizer.setRotation(0, 0, 0);
+
+      const timeData = audioController.getTimeDomainSamples(useFloat, analysisChannel);
+      fourierVisualizer.show();
+      fourierVisualizer.setHoldLevels(peakLevels, maxHoldLevels);
+      fourierVisualizer.update(timeData, displayLevels, new THREE.Vector3(), audioController.getAudioContext().sampleRate);
     } else {
       waveformModel.hide();
       fourierVisualizer.hide();
     }
   } else {
     // Real-time Mode: Show frequency bars, hide 3D model
-    visualizer.meshes.forEach(mesh => mesh.visible = true);
+    const chromaDisplay = educationalUI.settings.chromaDisplay;
+    visualizer.setVisible(chromaDisplay !== 'replace ring');
+    if (chromaDisplay !== 'off') {
+      chromaRing.show();
+      chromaRing.update(audioController.getChroma(), deltaTime);
+    } else {
+      chromaRing.hide();
+    }
     waveformModel.hide();
     waveformModel.setRotation(0, 0, 0);
     fourierVisualizer.hide();
 
-    // Phase 4: Real-Time Rendering Pipeline (Upgraded: Average Sampling)
-    const frequencyData = audioController.getFrequencyData();
-    const totalBins = frequencyData.length;
-
-    visualizer.meshes.forEach((mesh, index) => {
-      // Calculate the range of bins this bar represents
-      // This ensures every single bin is accounted for, even if they don't divide perfectly
-      const startBin = Math.floor((index / BAR_COUNT) * totalBins);
-      const endBin = Math.floor(((index + 1) / BAR_COUNT) * totalBins);
-
-      let value = 0;
-
-      // If bins > bars (Downsampling): Average the values in the range
-      if (endBin > startBin) {
-        let sum = 0;
-        for (let i = startBin; i < endBin; i++) {
-          sum += frequencyData[i];
-        }
-        value = sum / (endBin - startBin);
-      }
-      // If bars >= bins (Upsampling): Just take the nearest bin value
-      else {
-        value = frequencyData[startBin] || 0;
-      }
+    // Geometric Transformation (levels are already normalised to 0-1): heights and
+    // glow are applied on the GPU from one level texture
+    visualizer.setHoldLevels(peakLevels, maxHoldLevels);
+    visualizer.update(displayLevels);
+  }
 
-      // Geometric Transformation
-      const intensity = value / 255.0;
-      const scaleY = intensity * 15 + 0.1;
-      mesh.scale.y = scaleY;
+  // Waveform model: envelope detail follows the camera (about one bucket per pixel)
+  waveformModel.updateLevelOfDetail(activeCamera, renderer.domElement.clientHeight);
 
-      // HSV Color Mapping
-      const hue = index / BAR_COUNT;
-      const material = mesh.material as THREE.MeshStandardMaterial;
-      material.color.setHSL(hue, 1.0, 0.5);
-      material.emissive.setHSL(hue, 1.0, intensity * 0.5);
-    });
-  }
+  // Camera shake is applied for this render only, so OrbitControls never sees it
+  cameraShake *= Math.exp(-deltaTime * 10);
+  shakeOffset.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).multiplyScalar(cameraShake);
+  activeCamera.position.add(shakeOffset);
 
   renderer.render(scene, activeCamera);
+  videoRecorder.captureFrame();
+
+  activeCamera.position.sub(shakeOffset);
 };
 
 animate();
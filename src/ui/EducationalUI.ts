@@ -1,19 +1,83 @@
-import GUI from 'lil-gui';
+import GUI, { type Controller } from 'lil-gui';
 import Stats from 'stats.js';
-import { AudioController } from '../audio/AudioController';
+import { ANALYSIS_CHANNELS, AudioController, type AnalysisChannel, type AnalysisWindow, type FilterTap } from '../audio/AudioController';
+import { DEFAULT_KAISER_BETA, WINDOW_TYPES, type WindowType } from '../audio/WindowFunctions';
+import { FREQUENCY_SCALES, type FrequencyScaleType } from '../audio/FrequencyScale';
+import type { BeatState } from '../audio/BeatDetector';
+import { createDefaultFilterBands, FILTER_TYPES, type FilterBandParams } from '../audio/FilterChain';
+import { WAVEFORM_COLORINGS, type ChannelLayout, type WaveformColoring } from '../visualizer/WaveformModel3D';
+import type { WaterfallView } from '../visualizer/SpectrogramWaterfall';
+import { BAR_LAYOUTS, type BarLayout } from '../visualizer/BarLayouts';
+import { MAX_FOURIER_COMPONENTS } from '../visualizer/FourierVisualizer';
+import { RECORDING_FRAME_RATES, RECORDING_RESOLUTIONS, type RecordingResolution } from '../export/VideoRecorder';
+import { EXPORT_FORMATS, type ExportFormat } from '../export/AnalysisExporter';
+import { createDefaultModelExportParams, MODEL_EXPORT_FORMATS, MODEL_SHAPES, type ModelExportParams } from '../export/ModelExporter';
+import { PlaylistPanel } from './PlaylistPanel';
+import { TunerPanel } from './TunerPanel';
+import { MeterPanel } from './MeterPanel';
+import type { KeyEstimate } from '../audio/Chroma';
+import { createDefaultMicrophoneParams, listInputDevices, type MicrophoneParams } from '../audio/MicrophoneInput';
+import { createDefaultBarDynamics, type BarDynamicsParams } from '../audio/BarDynamics';
+import {
+    createDefaultSignalParams,
+    MAX_HARMONICS,
+    SIGNAL_TYPES,
+    type SignalGeneratorParams
+} from '../audio/SignalGenerator';
 
 export interface EducationalSettings {
     fftSize: number;
+    useFloatData: boolean;
+    minDecibels: number;
+    maxDecibels: number;
+    smoothingTimeConstant: number;
+    frequencyScale: FrequencyScaleType;
+    windowFunction: AnalysisWindow;
+    kaiserBeta: number;
+    showWindowOverlay: boolean;
+    analysisChannel: AnalysisChannel;
+    channelLayout: ChannelLayout;
     showWaveform: boolean;
     showFrequencyGraph: boolean;
     showPolarGrid: boolean;
+    showTuner: boolean;
     usePerspective: boolean;
     barCount: number;
     radius: number;
+    barLayout: BarLayout;
+    barDynamics: BarDynamicsParams;
     autoRotate: boolean;
-    visualizationMode: 'realtime' | '3d-model' | 'fourier-view';
+    visualizationMode: 'realtime' | '3d-model' | 'fourier-view' | 'waterfall';
+    waterfallView: WaterfallView;
     waveformSpread: number;
+    waveformColoring: WaveformColoring;
     showModelInFourier: boolean;
+    fourierComponents: number;
+    stftFrameSize: number;
+    stftHopSize: number;
+    stftWindow: WindowType;
+    signalGenerator: SignalGeneratorParams;
+    microphone: MicrophoneParams;
+    filterBypass: boolean;
+    filterTap: FilterTap;
+    filterBands: FilterBandParams[];
+    recordingResolution: RecordingResolution;
+    recordingFps: number;
+    recordingOverlays: boolean;
+    exportFormat: ExportFormat;
+    modelExport: ModelExportParams;
+    exportInterval: number;
+    exportSpectrum: boolean;
+    exportWaveform: boolean;
+    exportBars: boolean;
+    exportStart: number;
+    exportEnd: number;
+    beatReaction: 'none' | 'pulse' | 'shake' | 'pulse + shake';
+    showBeatMarkers: boolean;
+    showMeters: boolean;
+    showLoudnessCurve: boolean;
+    chromaDisplay: 'off' | 'inside ring' | 'replace ring';
+    showChromaStrip: boolean;
 }
 
 export class EducationalUI {
@@ -24,27 +88,90 @@ export class EducationalUI {
     private audioSourcePanel: HTMLDivElement;
     private playbackControls: HTMLDivElement;
     private fileInput: HTMLInputElement;
+    private playbackUpdateTimer: number | null = null;
+    private micLevelTimer: number | null = null;
+    public playlist: PlaylistPanel;
+    public tuner: TunerPanel;
+    public meters: MeterPanel;
     private audioController: AudioController | null = null;
     public onFileLoaded: ((file: File) => void) | null = null;
+    // Recording start/stop is handled by main.ts (it owns the renderer)
+    public onToggleRecording: (() => void) | null = null;
+    private recordButton: Controller | null = null;
+    // Data export: live capture toggle and whole-file analysis, both handled by main.ts
+    public onToggleCapture: (() => void) | null = null;
+    public onExportFile: (() => void) | null = null;
+    public onExportModel: (() => void) | null = null;
+    // Max-hold levels live in main.ts's BarDynamics
+    public onResetMaxHold: (() => void) | null = null;
+    private captureButton: Controller | null = null;
+    private exportRangeControllers: Controller[] = [];
+    // Read-only values shown in the Rhythm folder
+    private rhythmReadout = { tempo: '—', beat: '○' };
+    // Read-only key estimate shown in the Harmony folder
+    private harmonyReadout = { key: '—' };
 
     constructor() {
         // Initialize settings
         this.settings = {
             fftSize: 512,
+            useFloatData: false,
+            minDecibels: -100,
+            maxDecibels: -30,
+            smoothingTimeConstant: 0.8,
+            frequencyScale: 'linear',
+            windowFunction: 'native',
+            kaiserBeta: DEFAULT_KAISER_BETA,
+            showWindowOverlay: false,
+            analysisChannel: 'mix',
+            channelLayout: 'stacked',
             showWaveform: false,
             showFrequencyGraph: false,
             showPolarGrid: false,
+            showTuner: false,
             usePerspective: true,
             barCount: 64,
             radius: 10,
+            barLayout: 'ring',
+            barDynamics: createDefaultBarDynamics(),
             autoRotate: true,
             visualizationMode: 'realtime',
+            waterfallView: 'live',
             waveformSpread: 1.0,
-            showModelInFourier: true
+            waveformColoring: 'channel',
+            showModelInFourier: true,
+            fourierComponents: 8,
+            stftFrameSize: 2048,
+            stftHopSize: 512,
+            stftWindow: 'hann',
+            signalGenerator: createDefaultSignalParams(),
+            microphone: createDefaultMicrophoneParams(),
+            filterBypass: true,
+            filterTap: 'post',
+            filterBands: createDefaultFilterBands(),
+            recordingResolution: '1280x720',
+            recordingFps: 30,
+            recordingOverlays: true,
+            exportFormat: 'csv',
+            modelExport: createDefaultModelExportParams(),
+            exportInterval: 0.1,
+            exportSpectrum: true,
+            exportWaveform: false,
+            exportBars: true,
+            exportStart: 0,
+            exportEnd: 0,
+            beatReaction: 'pulse',
+            showBeatMarkers: true,
+            showMeters: false,
+            showLoudnessCurve: true,
+            chromaDisplay: 'off',
+            showChromaStrip: true
         };
 
         // Create GUI
         this.gui = new GUI({ title: 'Educational Controls' });
+        this.gui.add({ showSourcePanel: () => this.showAudioSourcePanel() }, 'showSourcePanel')
+            .name('🎤 Audio Source / Microphone');
 
         // FFT Settings
         const fftFolder = this.gui.addFolder('FFT Settings');
@@ -53,8 +180,183 @@ export class EducationalUI {
             .onChange(() => {
                 this.updateInfo('FFT size changed. Larger = more frequency bins (better resolution), but slower.');
             });
+        fftFolder.add(this.settings, 'useFloatData')
+            .name('Float (dB) Data')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'FLOAT DATA: Real decibel values and raw float samples (no 0-255 rounding)' :
+                    'BYTE DATA: Levels squeezed into 0-255 by the analyser');
+            });
+        // The ranges overlap, so each slider stays at least 1 dB clear of the other
+        // (the analyser rejects min >= max)
+        const minDecibelsController = fftFolder.add(this.settings, 'minDecibels', -140, -40, 1)
+            .name('Min dB')
+            .onChange((value: number) => {
+                if (value >= this.settings.maxDecibels) {
+                    minDecibelsController.setValue(this.settings.maxDecibels - 1);
+                    return;
+                }
+                this.updateInfo(`Min dB: ${value}. Anything quieter than this reads as silence.`);
+            });
+        const maxDecibelsController = fftFolder.add(this.settings, 'maxDecibels', -60, 0, 1)
+            .name('Max dB')
+            .onChange((value: number) => {
+                if (value <= this.settings.minDecibels) {
+                    maxDecibelsController.setValue(this.settings.minDecibels + 1);
+                    return;
+                }
+                this.updateInfo(`Max dB: ${value}. Anything louder than this reads as full scale.`);
+            });
+        fftFolder.add(this.settings, 'smoothingTimeConstant', 0, 0.99, 0.01)
+            .name('Smoothing')
+            .onChange((value: number) => {
+                this.updateInfo(`Smoothing: ${value.toFixed(2)}. Higher = each frame averaged with more of the previous ones.`);
+            });
+        fftFolder.add(this.settings, 'frequencyScale', FREQUENCY_SCALES)
+            .name('Frequency Scale')
+            .onChange((value: string) => {
+                const messages: Record<string, string> = {
+                    'linear': 'LINEAR: Every bar covers the same number of Hz (treble dominates the ring)',
+                    'logarithmic': 'LOGARITHMIC: Every bar covers the same musical interval (octaves are equal width)',
+                    'mel': 'MEL: Spacing follows perceived pitch, used in speech recognition',
+                    'bark': 'BARK: Spacing follows the ear\'s critical bands',
+                    'third-octave': '1/3-OCTAVE: Standard ISO 266 bands used by acoustic measurement tools'
+                };
+                this.updateInfo(messages[value]);
+            });
+        fftFolder.add(this.settings, 'windowFunction', ['native', ...WINDOW_TYPES])
+            .name('Window Function')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'native' ?
+                    'NATIVE: The AnalyserNode\'s built-in Blackman window' :
+                    `WINDOW: ${value}. Watch how narrow peaks spread (leak) into neighbouring bins.`);
+            });
+        fftFolder.add(this.settings, 'kaiserBeta', 0, 20, 0.1)
+            .name('Kaiser β')
+            .onChange((value: number) => {
+                this.updateInfo(`Kaiser β = ${value.toFixed(1)}. Higher β = less leakage, wider peaks (0 = rectangular).`);
+            });
+        fftFolder.add(this.settings, 'showWindowOverlay')
+            .name('Show Window Shape')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'Window shape drawn over the time domain: the signal is multiplied by this curve before the FFT' :
+                    'Window overlay hidden');
+            });
         fftFolder.open();
 
+        // Offline Analysis (full-track STFT, computed in a Web Worker)
+        const stftFolder = this.gui.addFolder('Offline Analysis (STFT)');
+        stftFolder.add(this.settings, 'stftFrameSize', [512, 1024, 2048, 4096, 8192])
+            .name('Frame Size')
+            .onChange(() => {
+                this.updateInfo('STFT frame size changed. Longer frames = finer frequency detail, blurrier timing.');
+            });
+        stftFolder.add(this.settings, 'stftHopSize', [128, 256, 512, 1024, 2048])
+            .name('Hop Size')
+            .onChange(() => {
+                this.updateInfo('STFT hop size changed. Smaller hop = more frames per second (smoother over time).');
+            });
+        stftFolder.add(this.settings, 'stftWindow', WINDOW_TYPES)
+            .name('Window')
+            .onChange((value: string) => {
+                this.updateInfo(`STFT window: ${value}. Windows taper each frame to reduce spectral leakage.`);
+            });
+        stftFolder.close();
+
+        // Stereo / Multichannel
+        const channelFolder = this.gui.addFolder('Channels (Stereo)');
+        channelFolder.add(this.settings, 'analysisChannel', ANALYSIS_CHANNELS)
+            .name('Analyse Channel')
+            .onChange((value: string) => {
+                const messages: Record<string, string> = {
+                    'mix': 'MIX: Left and right summed to mono (surround files are first down-mixed to stereo)',
+                    'left': 'LEFT: Left channel only',
+                    'right': 'RIGHT: Right channel only',
+                    'mid': 'MID = (L + R) / 2: What both speakers share (centre-panned sounds)',
+                    'side': 'SIDE = (L - R) / 2: Only the stereo difference (zero for mono sources)'
+                };
+                this.updateInfo(messages[value]);
+            });
+        channelFolder.add(this.settings, 'channelLayout', ['stacked', 'mirrored'])
+            .name('3D Model Lanes')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'stacked' ?
+                    'STACKED: Each channel of the 3D model gets its own lane' :
+                    'MIRRORED: Left drawn upward, right drawn downward from a shared axis');
+            });
+        channelFolder.close();
+
+        // Signal Generator (live parameters, applied while the generator is the active source)
+        this.createSignalGeneratorFolder();
+
+        // Filter / EQ chain between the source and the analysers
+        this.createFilterFolder();
+
+        // Rhythm (onsets, tempo, beat-reactive visuals)
+        const rhythmFolder = this.gui.addFolder('Rhythm (Beats)');
+        rhythmFolder.add(this.rhythmReadout, 'tempo').name('Tempo').listen().disable();
+        rhythmFolder.add(this.rhythmReadout, 'beat').name('Beat').listen().disable();
+        rhythmFolder.add(this.settings, 'beatReaction', ['none', 'pulse', 'shake', 'pulse + shake'])
+            .name('On Beat')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'none' ?
+                    'Beat reactions off' :
+                    `On every beat: ${value}. Files use the offline beat grid, live input uses spectral-flux onsets.`);
+            });
+        rhythmFolder.add(this.settings, 'showBeatMarkers')
+            .name('Beat Ticks on Model')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'Beat ticks: tall = estimated beat grid, short = detected onsets (spectral flux peaks)' :
+                    'Beat ticks hidden');
+            });
+        rhythmFolder.close();
+
+        // Loudness (level meters and EBU R128)
+        const loudnessFolder = this.gui.addFolder('Loudness (Meters)');
+        const loudnessActions = {
+            reset: () => {
+                this.audioController?.resetLoudness();
+                this.updateInfo('Loudness measurement restarted: integrated, LRA and true peak start from now');
+            }
+        };
+        loudnessFolder.add(this.settings, 'showMeters')
+            .name('Show Meters')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'METERS: Peak and RMS measure the signal; LUFS measures perceived loudness (K-weighted, gated)' :
+                    'Meters hidden');
+            });
+        loudnessFolder.add(this.settings, 'showLoudnessCurve')
+            .name('Loudness Curve on Model')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'Loudness curve: short-term LUFS of the whole file, the flat line is its integrated loudness' :
+                    'Loudness curve hidden');
+            });
+        loudnessFolder.add(loudnessActions, 'reset').name('Reset Integrated');
+        loudnessFolder.close();
+
+        // Harmony (chroma and key)
+        const harmonyFolder = this.gui.addFolder('Harmony (Chroma)');
+        harmonyFolder.add(this.harmonyReadout, 'key').name('Key (file)').listen().disable();
+        harmonyFolder.add(this.settings, 'chromaDisplay', ['off', 'inside ring', 'replace ring'])
+            .name('Chroma Ring')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'off' ?
+                    'Chroma ring hidden' :
+                    'CHROMA: Every bin folded into its pitch class (C..B), whatever the octave. Chords light up as shapes.');
+            });
+        harmonyFolder.add(this.settings, 'showChromaStrip')
+            .name('Chroma Strip on Model')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'Chroma strip: pitch classes over time under the 3D model (C bottom, B top)' :
+                    'Chroma strip hidden');
+            });
+        harmonyFolder.close();
+
         // Visualization Modes
         const vizFolder = this.gui.addFolder('Visualization Modes');
         vizFolder.add(this.settings, 'showWaveform')
@@ -72,21 +374,41 @@ export class EducationalUI {
             .onChange((value: boolean) => {
                 this.updateInfo(value ? 'Showing polar grid: Demonstrates r·cos(θ), r·sin(θ) conversion' : 'Polar grid hidden');
             });
+        vizFolder.add(this.settings, 'showTuner')
+            .name('Pitch (Tuner)')
+            .onChange((value: boolean) => {
+                this.updateInfo(value ?
+                    'Showing PITCH: The fundamental (f0) found by YIN in the time domain, marked in the spectrum' :
+                    'Tuner hidden');
+            });
         vizFolder.open();
 
         // Visualization Mode Toggle
         const modeFolder = this.gui.addFolder('Visualization Mode');
-        modeFolder.add(this.settings, 'visualizationMode', ['realtime', '3d-model', 'fourier-view'])
+        modeFolder.add(this.settings, 'visualizationMode', ['realtime', '3d-model', 'fourier-view', 'waterfall'])
             .name('Mode')
             .onChange((value: string) => {
                 let msg = '';
                 if (value === 'realtime') msg = 'REALTIME MODE: Live audio visualization';
                 else if (value === '3d-model') msg = '3D MODEL MODE: Static waveform model (upload file to generate)';
                 else if (value === 'fourier-view') msg = 'FOURIER VIEW: 3D decomposition of waveform into sine waves';
+                else if (value === 'waterfall') msg = 'WATERFALL: Spectrogram terrain. Frequency left to right, time front to back, height = level';
                 this.updateInfo(msg);
             });
         modeFolder.add(this.settings, 'showModelInFourier')
             .name('Show Model in Fourier');
+        modeFolder.add(this.settings, 'fourierComponents', 1, MAX_FOURIER_COMPONENTS, 1)
+            .name('Fourier Components')
+            .onChange((value: number) => {
+                this.updateInfo(`FOURIER COMPONENTS: The ${value} strongest DFT components of the window. White = their sum, orange = the residual they miss`);
+            });
+        modeFolder.add(this.settings, 'waterfallView', ['live', 'whole track'])
+            .name('Waterfall View')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'live' ?
+                    'LIVE WATERFALL: New spectra enter at the front and scroll away as the audio plays' :
+                    'WHOLE TRACK: The offline STFT of the loaded file as one landscape; the white wall is the playhead');
+            });
         modeFolder.open();
 
         // Waveform Spread Control
@@ -96,6 +418,17 @@ export class EducationalUI {
             .onChange((value: number) => {
                 this.updateInfo(`Waveform spread: ${value.toFixed(1)}x - ${value > 1 ? 'More spread out' : 'More compressed'}`);
             });
+        spreadFolder.add(this.settings, 'waveformColoring', WAVEFORM_COLORINGS)
+            .name('Colour By')
+            .onChange((value: WaveformColoring) => {
+                const lessons: Record<WaveformColoring, string> = {
+                    'channel': 'One colour per channel: shows the shape only',
+                    'spectral centroid': 'SPECTRAL CENTROID: Σ f·|X(f)| / Σ |X(f)|, the "centre of mass" of the spectrum (dark vs bright sound)',
+                    'band energy': 'BAND ENERGY: lows, mids and highs as red, green and blue (a bass drop turns red, hi-hats blue)',
+                    'zero-crossing rate': 'ZERO-CROSSING RATE: sign changes per sample, ≈ 2f/sampleRate for a sine (noise crosses constantly)'
+                };
+                this.updateInfo(`${lessons[value]}. Legend in the model info panel.`);
+            });
         spreadFolder.open();
 
         // Camera Settings
@@ -112,7 +445,7 @@ export class EducationalUI {
 
         // Geometry Settings
         const geoFolder = this.gui.addFolder('Geometry Settings');
-        geoFolder.add(this.settings, 'barCount', 16, 1024, 1) // Increased max to 1024
+        geoFolder.add(this.settings, 'barCount', 16, 4096, 1) // Instanced ring: thousands of bars in one draw call
             .name('Bar Count')
             .onChange(() => {
                 this.updateInfo('Bar count changed. More bars = smoother circle distribution.');
@@ -122,16 +455,119 @@ export class EducationalUI {
             .onChange(() => {
                 this.updateInfo('Radius changed. Affects polar coordinate calculation: x = r·cos(θ), z = r·sin(θ)');
             });
+        geoFolder.add(this.settings, 'barLayout', BAR_LAYOUTS)
+            .name('Bar Layout')
+            .onChange((value: BarLayout) => {
+                const lessons: Record<BarLayout, string> = {
+                    'ring': 'RING (polar): x = r·cos(θ), z = r·sin(θ)',
+                    'line': 'LINE (Cartesian): x = -L/2 + L·i/(n-1), one axis is enough',
+                    'spiral': 'ARCHIMEDEAN SPIRAL: r = a·θ, the radius grows as the angle turns',
+                    'sphere': 'FIBONACCI SPHERE (spherical): even height steps, golden-angle turns (≈137.5°)',
+                    'helix': 'HELIX (cylindrical): (r, θ, y) with y growing linearly with θ',
+                    'double ring': 'DOUBLE RING: the same spectrum on two polar rings mirrored about the floor, one growing up, one down'
+                };
+                this.updateInfo(`${lessons[value]}. Turn on the Polar Coordinate Grid to see its guide.`);
+            });
+
+        // Bar Dynamics: envelope follower and peak/max hold (ring, frequency graph, Fourier bars)
+        const dynamicsFolder = this.gui.addFolder('Bar Dynamics (Peak Hold)');
+        const dynamics = this.settings.barDynamics;
+        dynamicsFolder.add(dynamics, 'attack', 0, 500, 1)
+            .name('Attack (ms)')
+            .onChange((value: number) => {
+                this.updateInfo(`Attack ${value} ms: a rising bar covers 63% of the jump in ${value} ms (0 = instant)`);
+            });
+        dynamicsFolder.add(dynamics, 'release', 0, 2000, 10)
+            .name('Release (ms)')
+            .onChange((value: number) => {
+                this.updateInfo(`Release ${value} ms: long releases keep short sounds visible, short ones follow every dip`);
+            });
+        dynamicsFolder.add(dynamics, 'peakHold').name('Peak Caps');
+        dynamicsFolder.add(dynamics, 'holdTime', 0, 5, 0.1).name('Hold Time (s)');
+        dynamicsFolder.add(dynamics, 'peakFallRate', 0.05, 3, 0.05)
+            .name('Cap Fall (height/s)')
+            .onChange((value: number) => {
+                this.updateInfo(`After the hold, a cap falls the full height in ${(1 / value).toFixed(1)} s`);
+            });
+        dynamicsFolder.add(dynamics, 'maxHold')
+            .name('Max Hold (Ghost)')
+            .onChange((value: boolean) => {
+                if (value) this.updateInfo('MAX HOLD: the ghost bars keep the loudest level each band has reached');
+            });
+        dynamicsFolder.add({ reset: () => this.onResetMaxHold?.() }, 'reset').name('Reset Max Hold');
+        dynamicsFolder.close();
+
+        // Recording (canvas + audio to WebM)
+        const recordFolder = this.gui.addFolder('Recording');
+        const recordActions = {
+            toggle: () => this.onToggleRecording?.()
+        };
+        recordFolder.add(this.settings, 'recordingResolution', RECORDING_RESOLUTIONS).name('Resolution');
+        recordFolder.add(this.settings, 'recordingFps', RECORDING_FRAME_RATES).name('Frame Rate');
+        recordFolder.add(this.settings, 'recordingOverlays').name('Include 2D Graphs');
+        this.recordButton = recordFolder.add(recordActions, 'toggle').name('⏺ Start Recording');
+        recordFolder.close();
+
+        // Data Export (frames as CSV/JSON time series for spreadsheets and notebooks)
+        const exportFolder = this.gui.addFolder('Data Export');
+        const exportActions = {
+            toggleCapture: () => this.onToggleCapture?.(),
+            exportFile: () => this.onExportFile?.()
+        };
+        exportFolder.add(this.settings, 'exportFormat', EXPORT_FORMATS).name('Format');
+        exportFolder.add(this.settings, 'exportInterval', 0.02, 1, 0.01)
+            .name('Frame Interval (s)')
+            .onChange((value: number) => {
+                this.updateInfo(`One frame every ${value.toFixed(2)} s = ${(1 / value).toFixed(1)} frames per second`);
+            });
+        exportFolder.add(this.settings, 'exportSpectrum').name('Spectrum (dB per bin)');
+        exportFolder.add(this.settings, 'exportWaveform').name('Waveform (samples)');
+        exportFolder.add(this.settings, 'exportBars').name('Bar Levels');
+        this.captureButton = exportFolder.add(exportActions, 'toggleCapture').name('⏺ Start Live Capture');
+        // The range sliders reach the loaded file's end (setExportDuration)
+        this.exportRangeControllers = [
+            exportFolder.add(this.settings, 'exportStart', 0, 600, 0.1).name('File Start (s)'),
+            exportFolder.add(this.settings, 'exportEnd', 0, 600, 0.1).name('File End (s, 0 = end)')
+        ];
+        exportFolder.add(exportActions, 'exportFile').name('💾 Export File Analysis');
+        exportFolder.close();
+
+        // 3D Model Export: the loaded track's envelope as a solid for 3D printing or Blender
+        const modelFolder = this.gui.addFolder('3D Model Export (Print)');
+        const model = this.settings.modelExport;
+        modelFolder.add(model, 'format', MODEL_EXPORT_FORMATS)
+            .name('Format')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'stl' ? 'STL: triangles only, the usual input for 3D printing slicers (millimetres)' :
+                    value === 'obj' ? 'OBJ: plain text mesh, opens in almost every 3D program (millimetres)' :
+                        'glTF: scene format for Blender and the web (converted to metres, the glTF unit)');
+            });
+        modelFolder.add(model, 'shape', MODEL_SHAPES)
+            .name('Shape')
+            .onChange((value: string) => {
+                this.updateInfo(value === 'ring' ? 'RING: the waveform wrapped around a circle, the length becomes the inner circumference' :
+                    value === 'vase' ? 'VASE: the envelope becomes the radius as the track rises (print with vase/spiralize mode)' :
+                        'FLAT: the envelope as a skyline plaque standing on its base');
+            });
+        modelFolder.add(model, 'length', 20, 500, 1).name('Length (mm)');
+        modelFolder.add(model, 'height', 1, 150, 1).name('Wave Height (mm)');
+        modelFolder.add(model, 'baseThickness', 0.5, 50, 0.5).name('Base / Core (mm)');
+        modelFolder.add(model, 'depth', 1, 100, 1).name('Depth (mm)');
+        modelFolder.add(model, 'segments', 50, 4000, 10).name('Segments');
+        modelFolder.add({ exportModel: () => this.onExportModel?.() }, 'exportModel').name('💾 Export 3D Model');
+        modelFolder.close();
 
         // Debug Settings
         const debugFolder = this.gui.addFolder('Debug Analysis');
         const debugObj = {
             logData: () => {
                 if (this.audioController) {
-                    const data = this.audioController.getFrequencyData();
+                    const data = this.settings.useFloatData ?
+                        this.audioController.getFloatFrequencyData() :
+                        this.audioController.getFrequencyData();
                     console.log('--- Frequency Data Snapshot ---');
                     console.log('Total Bins:', data.length);
-                    console.log('Raw Values (0-255):', data);
+                    console.log(this.settings.useFloatData ? 'Raw Values (dB):' : 'Raw Values (0-255):', data);
 
                     // Log first few bins specifically
                     console.log('Bass Bins (First 10):', data.slice(0, 10));
@@ -164,9 +600,17 @@ export class EducationalUI {
         this.fileInput = document.createElement('input');
         this.fileInput.type = 'file';
         this.fileInput.accept = 'audio/*';
+        this.fileInput.multiple = true;
         this.fileInput.style.display = 'none';
         document.body.appendChild(this.fileInput);
 
+        // Playlist (hidden until the first file is added)
+        this.playlist = new PlaylistPanel();
+
+        // Tuner overlay (shown with "Pitch (Tuner)")
+        this.tuner = new TunerPanel();
+        this.meters = new MeterPanel();
+
         // Info Panel
         this.infoPanel = document.createElement('div');
         this.infoPanel.style.position = 'absolute';
@@ -182,11 +626,149 @@ export class EducationalUI {
         this.infoPanel.style.zIndex = '1000';
         this.infoPanel.innerHTML = `
       <strong>Spec3D Educational Visualizer</strong><br>
-      Choose audio source: Microphone or Upload File
+      Choose audio source: Microphone, Upload File or Signal Generator
     `;
         document.body.appendChild(this.infoPanel);
     }
 
+    private createSignalGeneratorFolder() {
+        const params = this.settings.signalGenerator;
+        const applyParams = () => {
+            this.audioController?.updateSignalGenerator(params);
+            this.describeSignalComponents();
+        };
+
+        const genFolder = this.gui.addFolder('Signal Generator');
+        const actions = {
+            start: () => this.startSignalGenerator(),
+            changeSource: () => this.showAudioSourcePanel()
+        };
+        genFolder.add(actions, 'start').name('▶ Start Generator');
+        genFolder.add(actions, 'changeSource').name('Change Audio Source');
+        genFolder.add(params, 'type', SIGNAL_TYPES)
+            .name('Signal')
+            .onChange(applyParams);
+        genFolder.add(params, 'frequency', 20, 5000, 1)
+            .name('Frequency (Hz)')
+            .onChange(applyParams);
+        genFolder.add(params, 'gain', 0, 1, 0.01)
+            .name('Level')
+            .onChange(applyParams);
+
+        const sweepFolder = genFolder.addFolder('Sweep');
+        sweepFolder.add(params, 'sweepStart', 20, 20000, 1).name('Start (Hz)').onChange(applyParams);
+        sweepFolder.add(params, 'sweepEnd', 20, 20000, 1).name('End (Hz)').onChange(applyParams);
+        sweepFolder.add(params, 'sweepDuration', 0.5, 30, 0.5).name('Duration (s)').onChange(applyParams);
+        sweepFolder.close();
+
+        const harmonicsFolder = genFolder.addFolder('Harmonics (Custom Sum)');
+        harmonicsFolder.add(params, 'harmonicCount', 1, MAX_HARMONICS, 1)
+            .name('Count')
+            .onChange(applyParams);
+        params.harmonics.forEach((harmonic, index) => {
+            harmonicsFolder.add(harmonic, 'amplitude', 0, 1, 0.01)
+                .name(`H${index + 1} Amplitude`)
+                .onChange(applyParams);
+            harmonicsFolder.add(harmonic, 'phase', -180, 180, 1)
+                .name(`H${index + 1} Phase (°)`)
+                .onChange(applyParams);
+        });
+        harmonicsFolder.close();
+
+        genFolder.close();
+    }
+
+    private createFilterFolder() {
+        const filterFolder = this.gui.addFolder('Filter / EQ');
+        filterFolder.add(this.settings, 'filterBypass')
+            .name('Bypass')
+            .onChange((value: boolean) => {
+                this.applyFilterSettings();
+                this.updateInfo(value ?
+                    'EQ bypassed: the signal reaches the analysers unchanged' :
+                    'EQ active: drag the yellow handles in the Frequency Domain graph to shape the spectrum');
+            });
+        filterFolder.add(this.settings, 'filterTap', ['pre', 'post'])
+            .name('Analyse')
+            .onChange((value: string) => {
+                this.applyFilterSettings();
+                this.updateInfo(value === 'pre' ?
+                    'PRE-FILTER: Visuals show the raw source (you still hear the filtered sound)' :
+                    'POST-FILTER: Visuals show what the filters let through');
+            });
+
+        this.settings.filterBands.forEach((band, index) => {
+            const bandFolder = filterFolder.addFolder(`Band ${index + 1}`);
+            bandFolder.add(band, 'enabled').name('Enabled').onChange(() => this.applyFilterSettings());
+            bandFolder.add(band, 'type', FILTER_TYPES)
+                .name('Type')
+                .onChange((value: string) => {
+                    this.applyFilterSettings();
+                    const messages: Record<string, string> = {
+                        'lowpass': 'LOW-PASS: Passes everything below the cutoff, removes the treble',
+                        'highpass': 'HIGH-PASS: Passes everything above the cutoff, removes the bass',
+                        'bandpass': 'BAND-PASS: Keeps only a band around the centre frequency (Q sets its width)',
+                        'peaking': 'PEAKING: Boosts or cuts a bell-shaped band around the centre frequency',
+                        'lowshelf': 'LOW SHELF: Boosts or cuts everything below the frequency',
+                        'highshelf': 'HIGH SHELF: Boosts or cuts everything above the frequency',
+                        'notch': 'NOTCH: Removes a narrow band (e.g. 50/60 Hz mains hum)'
+                    };
+                    this.updateInfo(messages[value]);
+                });
+            // listen(): the handles in the frequency graph change these too
+            bandFolder.add(band, 'frequency', 20, 20000, 1).name('Frequency (Hz)').listen()
+                .onChange(() => this.applyFilterSettings());
+            bandFolder.add(band, 'gain', -24, 24, 0.1).name('Gain (dB)').listen()
+                .onChange(() => this.applyFilterSettings());
+            bandFolder.add(band, 'Q', 0.1, 30, 0.01).name('Q').onChange(() => this.applyFilterSettings());
+            bandFolder.close();
+        });
+        filterFolder.close();
+    }
+
+    // Push the Filter / EQ settings to the audio graph
+    applyFilterSettings() {
+        if (!this.audioController) return;
+        this.audioController.setFilterBands(this.settings.filterBands);
+        this.audioController.setFilterBypass(this.settings.filterBypass);
+        this.audioController.setFilterTap(this.settings.filterTap);
+    }
+
+    private async startSignalGenerator() {
+        if (!this.audioController) {
+            this.updateInfo('Audio Controller not ready');
+            return;
+        }
+
+        try {
+            await this.audioController.setupSignalGenerator(this.settings.signalGenerator);
+            this.audioSourcePanel.style.display = 'none';
+            this.playbackControls.style.display = 'none';
+            this.describeSignalComponents();
+        } catch (err) {
+            this.updateInfo('Error: Could not start signal generator');
+        }
+    }
+
+    // Show the known decomposition of the generated signal, to compare with the Fourier view
+    private describeSignalComponents() {
+        if (!this.audioController || this.audioController.getCurrentSourceType() !== 'generator') return;
+
+        const { type } = this.settings.signalGenerator;
+        const components = this.audioController.getSignalComponents();
+        if (components.length === 0) {
+            this.updateInfo(type === 'sweep' ?
+                'SIGNAL GENERATOR: Sine sweep. Watch the single peak travel across the spectrum.' :
+                `SIGNAL GENERATOR: ${type}. Noise has no discrete components, its energy is spread over all frequencies.`);
+            return;
+        }
+
+        const list = components
+            .map(c => `${c.frequency.toFixed(0)} Hz × ${c.amplitude.toFixed(2)}${c.phase ? ` ∠${c.phase}°` : ''}`)
+            .join('<br>');
+        this.updateInfo(`SIGNAL GENERATOR: ${type}. Known components:<br>${list}`);
+    }
+
     private createAudioSourcePanel(): HTMLDivElement {
         const panel = document.createElement('div');
         panel.style.position = 'absolute';
@@ -210,7 +792,34 @@ export class EducationalUI {
       <button id="uploadFileBtn" style="margin: 10px; padding: 15px 30px; font-size: 16px; cursor: pointer; background: #ff00ff; border: none; border-radius: 5px;">
         📁 Upload Audio File
       </button>
-      <p style="font-size: 12px; color: #aaa; margin-top: 20px;">Upload MP3, WAV, OGG, or other audio formats</p>
+      <button id="useGeneratorBtn" style="margin: 10px; padding: 15px 30px; font-size: 16px; cursor: pointer; background: #00ccff; border: none; border-radius: 5px;">
+        🎛️ Signal Generator
+      </button>
+      <p style="font-size: 12px; color: #aaa; margin-top: 20px;">Upload MP3, WAV, OGG, or other audio formats.<br>The generator plays test tones; tune it in the "Signal Generator" folder.</p>
+      <div style="text-align: left; font-size: 13px; margin-top: 10px; padding-top: 10px; border-top: 1px solid #333;">
+        <div style="margin-bottom: 6px;"><strong>🎤 Microphone Settings</strong> <span style="font-size: 11px; color: #aaa;">(apply live)</span></div>
+        <label>Device: <select id="micDeviceSelect" style="max-width: 260px;"><option value="">Default input</option></select></label>
+        <div style="margin: 6px 0;" title="Browser voice processing. Leave off to see the signal as it really is.">
+          <label style="cursor: pointer;"><input type="checkbox" id="micEchoToggle"> Echo cancellation</label>
+          <label style="cursor: pointer; margin-left: 8px;"><input type="checkbox" id="micNoiseToggle"> Noise suppression</label>
+          <label style="cursor: pointer; margin-left: 8px;"><input type="checkbox" id="micAgcToggle"> Auto gain</label>
+        </div>
+        <div style="margin: 6px 0;">
+          <label>Input gain: <input type="range" id="micGainSlider" min="-24" max="24" step="0.5" value="0" style="width: 140px; vertical-align: middle;"></label>
+          <span id="micGainValue">0.0 dB</span>
+        </div>
+        <div style="margin: 6px 0;">
+          <label style="cursor: pointer;" title="Mutes the input while it stays below the threshold (room noise between words)"><input type="checkbox" id="micGateToggle"> Noise gate</label>
+          <input type="range" id="micGateSlider" min="-90" max="-10" step="1" value="-50" style="width: 120px; vertical-align: middle;">
+          <span id="micGateValue">-50 dBFS</span>
+        </div>
+        <div style="position: relative; height: 10px; background: #222; border-radius: 2px; overflow: hidden;">
+          <div id="micLevelBar" style="position: absolute; left: 0; top: 0; bottom: 0; width: 0; background: #0c0;"></div>
+          <div id="micGateMarker" style="position: absolute; top: 0; bottom: 0; width: 2px; background: #ff0;"></div>
+        </div>
+        <div id="micLevelText" style="font-family: monospace; font-size: 11px; color: #aaa; margin-top: 3px;">Input level: microphone off</div>
+      </div>
+      <button id="closeSourcePanelBtn" style="margin-top: 12px; padding: 5px 15px; cursor: pointer; display: none;">Close</button>
     `;
         return panel;
     }
@@ -231,54 +840,101 @@ export class EducationalUI {
         controls.style.display = 'none';
         controls.innerHTML = `
       <div style="margin-bottom: 5px;"><strong>🎵 Playback Controls</strong></div>
-      <button id="playPauseBtn" style="padding: 5px 15px; margin-right: 5px; cursor: pointer;">▶️ Play</button>
+      <button id="prevTrackBtn" style="padding: 5px 10px; cursor: pointer;" title="Previous track">⏮️</button>
+      <button id="playPauseBtn" style="padding: 5px 15px; cursor: pointer;">▶️ Play</button>
+      <button id="nextTrackBtn" style="padding: 5px 10px; margin-right: 5px; cursor: pointer;" title="Next track">⏭️</button>
       <span id="timeDisplay">0:00 / 0:00</span>
+      <div style="margin-top: 8px;">
+        <label title="Playback speed">Speed: <input type="range" id="playbackRateSlider" min="0.25" max="2" step="0.05" value="1" style="width: 100px; vertical-align: middle;"></label>
+        <span id="playbackRateValue">1.00×</span>
+        <label style="margin-left: 5px; cursor: pointer;" title="Time-stretch instead of tape-style pitch shift">
+          <input type="checkbox" id="preservePitchToggle" checked> Keep pitch
+        </label>
+      </div>
+      <div style="margin-top: 5px;">
+        <span id="loopDisplay" style="color: #ffff00;">Loop: off (Shift + drag on the 3D model)</span>
+        <button id="clearLoopBtn" style="padding: 2px 8px; margin-left: 5px; cursor: pointer;">Clear loop</button>
+      </div>
     `;
         return controls;
     }
 
     setAudioController(controller: AudioController) {
         this.audioController = controller;
+        this.applyFilterSettings();
 
         // Setup event listeners
         const useMicBtn = document.getElementById('useMicBtn');
         const uploadFileBtn = document.getElementById('uploadFileBtn');
+        const useGeneratorBtn = document.getElementById('useGeneratorBtn');
         const playPauseBtn = document.getElementById('playPauseBtn');
+        const prevTrackBtn = document.getElementById('prevTrackBtn');
+        const nextTrackBtn = document.getElementById('nextTrackBtn');
+        const playbackRateSlider = document.getElementById('playbackRateSlider') as HTMLInputElement | null;
+        const playbackRateValue = document.getElementById('playbackRateValue');
+        const preservePitchToggle = document.getElementById('preservePitchToggle') as HTMLInputElement | null;
+        const clearLoopBtn = document.getElementById('clearLoopBtn');
 
         useMicBtn?.addEventListener('click', async () => {
             try {
-                await controller.setupMicrophone();
+                await controller.setupMicrophone(this.settings.microphone);
                 this.audioSourcePanel.style.display = 'none';
                 this.playbackControls.style.display = 'none';
                 this.updateInfo('Using MICROPHONE as audio source');
+                // Device names are only readable once access has been granted
+                this.refreshMicrophoneDevices();
             } catch (err) {
                 this.updateInfo('Error: Could not access microphone');
             }
         });
+        this.setupMicrophoneControls(controller);
+
+        useGeneratorBtn?.addEventListener('click', () => {
+            this.startSignalGenerator();
+        });
 
         uploadFileBtn?.addEventListener('click', () => {
             this.fileInput.click();
         });
 
-        this.fileInput.addEventListener('change', async (e) => {
-            const file = (e.target as HTMLInputElement).files?.[0];
-            if (file) {
-                try {
-                    await controller.setupAudioFile(file);
-                    this.audioSourcePanel.style.display = 'none';
-                    this.playbackControls.style.display = 'block';
-                    this.updateInfo(`Playing: ${file.name}`);
-                    this.startPlaybackUpdate();
-
-                    // Trigger 3D model generation callback
-                    if (this.onFileLoaded) {
-                        this.onFileLoaded(file);
-                    }
-                } catch (err) {
-                    this.updateInfo('Error: Could not load audio file');
-                }
+        this.fileInput.addEventListener('change', (e) => {
+            const input = e.target as HTMLInputElement;
+            const files = Array.from(input.files || []);
+            const wasEmpty = this.playlist.getTrackCount() === 0;
+            this.playlist.addFiles(files);
+            if (!wasEmpty && files.length > 0) {
+                this.updateInfo(`Added ${files.length} file(s) to the playlist`);
+            }
+            // Allow picking the same file again later
+            input.value = '';
+        });
+
+        // Playlist: every selected track replaces the current one
+        this.playlist.onTrackSelected = (file: File) => {
+            this.loadTrack(controller, file);
+        };
+        this.playlist.attachDropTarget(window);
+        controller.onTrackEnded = () => {
+            this.playlist.handleTrackEnded();
+            this.updatePlayPauseButton();
+        };
+
+        playbackRateSlider?.addEventListener('input', () => {
+            controller.setPlaybackRate(parseFloat(playbackRateSlider.value));
+            if (playbackRateValue) {
+                playbackRateValue.textContent = `${controller.getPlaybackRate().toFixed(2)}×`;
             }
         });
+        preservePitchToggle?.addEventListener('change', () => {
+            controller.setPreservesPitch(preservePitchToggle.checked);
+            this.updateInfo(preservePitchToggle.checked ?
+                'Pitch preserved: the browser time-stretches, notes stay where they are' :
+                'Pitch follows speed: every frequency is scaled by the playback rate (watch the spectrum shift)');
+        });
+        clearLoopBtn?.addEventListener('click', () => controller.clearLoopRegion());
+
+        prevTrackBtn?.addEventListener('click', () => this.playlist.previous());
+        nextTrackBtn?.addEventListener('click', () => this.playlist.next());
 
         playPauseBtn?.addEventListener('click', () => {
             if (controller.isPlaying()) {
@@ -291,8 +947,162 @@ export class EducationalUI {
         });
     }
 
+    // Microphone section of the source panel. Every change applies straight away;
+    // a new device or processing option reopens the stream (no reload needed).
+    private setupMicrophoneControls(controller: AudioController) {
+        const params = this.settings.microphone;
+        const deviceSelect = document.getElementById('micDeviceSelect') as HTMLSelectElement | null;
+        const gainSlider = document.getElementById('micGainSlider') as HTMLInputElement | null;
+        const gainValue = document.getElementById('micGainValue');
+        const gateToggle = document.getElementById('micGateToggle') as HTMLInputElement | null;
+        const gateSlider = document.getElementById('micGateSlider') as HTMLInputElement | null;
+        const gateValue = document.getElementById('micGateValue');
+        const closeButton = document.getElementById('closeSourcePanelBtn');
+
+        const applyParams = async (message?: string) => {
+            try {
+                await controller.updateMicrophone(params);
+                if (message) this.updateInfo(message);
+            } catch (err) {
+                this.updateInfo('Error: Could not open the selected microphone (the previous input keeps running)');
+            }
+        };
+
+        deviceSelect?.addEventListener('change', () => {
+            params.deviceId = deviceSelect.value;
+            applyParams(`Input device: ${deviceSelect.selectedOptions[0]?.text ?? 'default'}`);
+        });
+
+        const processingToggles: [string, 'echoCancellation' | 'noiseSuppression' | 'autoGainControl', string][] = [
+            ['micEchoToggle', 'echoCancellation', 'ECHO CANCELLATION: Removes what the speakers play back into the mic (and can eat steady tones)'],
+            ['micNoiseToggle', 'noiseSuppression', 'NOISE SUPPRESSION: The browser filters out steady background noise, reshaping the spectrum'],
+            ['micAgcToggle', 'autoGainControl', 'AUTO GAIN: The browser rides the level, so loud and quiet sounds look alike']
+        ];
+        processingToggles.forEach(([id, key, description]) => {
+            const toggle = document.getElementById(id) as HTMLInputElement | null;
+            if (!toggle) return;
+            toggle.checked = params[key];
+            toggle.addEventListener('change', () => {
+                params[key] = toggle.checked;
+                applyParams(toggle.checked ? description : 'Browser processing off: the analysers see the raw microphone signal');
+            });
+        });
+
+        gainSlider?.addEventListener('input', () => {
+            params.gain = parseFloat(gainSlider.value);
+            if (gainValue) gainValue.textContent = `${params.gain.toFixed(1)} dB`;
+            applyParams();
+        });
+        gateToggle?.addEventListener('change', () => {
+            params.gateEnabled = gateToggle.checked;
+            applyParams(gateToggle.checked ?
+                'NOISE GATE: Input below the threshold is muted. Set the yellow marker just above the room noise.' :
+                'Noise gate off');
+        });
+        gateSlider?.addEventListener('input', () => {
+            params.gateThreshold = parseFloat(gateSlider.value);
+            if (gateValue) gateValue.textContent = `${params.gateThreshold} dBFS`;
+            applyParams();
+        });
+        closeButton?.addEventListener('click', () => {
+            this.audioSourcePanel.style.display = 'none';
+        });
+
+        navigator.mediaDevices?.addEventListener('devicechange', () => this.refreshMicrophoneDevices());
+        this.refreshMicrophoneDevices();
+
+        // The level meter only needs updating while the panel is open
+        if (this.micLevelTimer === null) {
+            this.micLevelTimer = window.setInterval(() => {
+                if (this.audioSourcePanel.style.display !== 'none') this.updateMicrophoneLevel();
+            }, 50);
+        }
+    }
+
+    // Rebuild the device list, keeping the selection (or showing the device in use)
+    private async refreshMicrophoneDevices() {
+        const deviceSelect = document.getElementById('micDeviceSelect') as HTMLSelectElement | null;
+        if (!deviceSelect) return;
+
+        const devices = await listInputDevices();
+        const selected = this.settings.microphone.deviceId || this.audioController?.getActiveMicrophoneId() || '';
+        deviceSelect.innerHTML = '<option value="">Default input</option>';
+        devices.forEach(device => {
+            // The browser's own 'default' entry duplicates the first option
+            if (device.deviceId === 'default' || device.deviceId === '') return;
+            const option = document.createElement('option');
+            option.value = device.deviceId;
+            option.textContent = device.label;
+            deviceSelect.appendChild(option);
+        });
+        deviceSelect.value = devices.some(device => device.deviceId === selected) ? selected : '';
+    }
+
+    private updateMicrophoneLevel() {
+        const levelBar = document.getElementById('micLevelBar');
+        const gateMarker = document.getElementById('micGateMarker');
+        const levelText = document.getElementById('micLevelText');
+        if (!levelBar || !gateMarker || !levelText) return;
+
+        // Same -60..0 dBFS scale as the level meters
+        const toPercent = (db: number) => Number.isFinite(db) ? Math.min(Math.max((db + 60) / 60, 0), 1) * 100 : 0;
+        const params = this.settings.microphone;
+        gateMarker.style.display = params.gateEnabled ? 'block' : 'none';
+        gateMarker.style.left = `calc(${toPercent(params.gateThreshold)}% - 1px)`;
+
+        const reading = this.audioController?.getMicrophoneLevel() ?? null;
+        if (!reading) {
+            levelBar.style.width = '0';
+            levelText.textContent = 'Input level: microphone off';
+            return;
+        }
+        levelBar.style.width = `${toPercent(reading.level)}%`;
+        levelBar.style.background = reading.level > -6 ? '#f00' : reading.level > -18 ? '#ff0' : '#0c0';
+        const level = Number.isFinite(reading.level) ? `${reading.level.toFixed(1)} dBFS` : '−∞ dBFS';
+        levelText.textContent = `Input level: ${level}` +
+            (params.gateEnabled ? ` · gate ${reading.gateOpen ? 'open' : 'closed'}` : '');
+    }
+
+    private showAudioSourcePanel() {
+        this.audioSourcePanel.style.display = 'block';
+        // Only closable once something is playing (otherwise there is nothing to go back to)
+        const closeButton = document.getElementById('closeSourcePanelBtn');
+        if (closeButton) {
+            closeButton.style.display = this.audioController?.getCurrentSourceType() !== 'none' ? 'inline-block' : 'none';
+        }
+        this.refreshMicrophoneDevices();
+    }
+
+    private async loadTrack(controller: AudioController, file: File) {
+        try {
+            await controller.setupAudioFile(file);
+            this.audioSourcePanel.style.display = 'none';
+            this.playbackControls.style.display = 'block';
+            this.updateInfo(`Playing: ${file.name}`);
+            this.startPlaybackUpdate();
+            this.updatePlayPauseButton();
+
+            // Trigger 3D model generation callback
+            if (this.onFileLoaded) {
+                this.onFileLoaded(file);
+            }
+        } catch (err) {
+            this.updateInfo('Error: Could not load audio file');
+        }
+    }
+
+    private updatePlayPauseButton() {
+        const playPauseBtn = document.getElementById('playPauseBtn');
+        if (playPauseBtn && this.audioController) {
+            playPauseBtn.textContent = this.audioController.isPlaying() ? '⏸️ Pause' : '▶️ Play';
+        }
+    }
+
     private startPlaybackUpdate() {
-        setInterval(() => {
+        // One timer is enough, however many tracks get loaded
+        if (this.playbackUpdateTimer !== null) return;
+
+        this.playbackUpdateTimer = window.setInterval(() => {
             if (this.audioController && this.audioController.getCurrentSourceType() === 'file') {
                 const current = this.audioController.getCurrentTime();
                 const duration = this.audioController.getDuration();
@@ -300,6 +1110,14 @@ export class EducationalUI {
                 if (timeDisplay) {
                     timeDisplay.textContent = `${this.formatTime(current)} / ${this.formatTime(duration)}`;
                 }
+
+                const loop = this.audioController.getLoopRegion();
+                const loopDisplay = document.getElementById('loopDisplay');
+                if (loopDisplay) {
+                    loopDisplay.textContent = loop ?
+                        `🔁 Loop: ${this.formatTime(loop.start)} – ${this.formatTime(loop.end)}` :
+                        'Loop: off (Shift + drag on the 3D model)';
+                }
             }
         }, 100);
     }
@@ -311,6 +1129,49 @@ export class EducationalUI {
         return `${mins}:${secs.toString().padStart(2, '0')}`;
     }
 
+    // Reflect the recorder state on the button (settings are locked while recording)
+    setRecordingState(recording: boolean) {
+        this.recordButton?.name(recording ? '⏹ Stop Recording & Save' : '⏺ Start Recording');
+        this.recordButton?.parent.controllers.forEach(controller => {
+            if (controller !== this.recordButton) controller.enable(!recording);
+        });
+        this.updateInfo(recording ?
+            `● Recording ${this.settings.recordingResolution} @ ${this.settings.recordingFps} fps (video + audio output)` :
+            'Recording saved as WebM');
+    }
+
+    // Let the file export range sliders cover a file of `duration` seconds
+    setExportDuration(duration: number) {
+        const max = Math.max(Math.ceil(duration * 10) / 10, 0.1);
+        const [start, end] = this.exportRangeControllers;
+        this.exportRangeControllers.forEach(controller => controller.max(max));
+        // A range past the end of a shorter file falls back to the whole file
+        if (start.getValue() >= duration) start.setValue(0);
+        if (end.getValue() > duration) end.setValue(0);
+        this.exportRangeControllers.forEach(controller => controller.updateDisplay());
+    }
+
+    // Reflect the live capture state on the button
+    setCaptureState(capturing: boolean, frameCount: number = 0) {
+        this.captureButton?.name(capturing ? '⏹ Stop Capture & Save' : '⏺ Start Live Capture');
+        this.updateInfo(capturing ?
+            `● Capturing a frame every ${this.settings.exportInterval.toFixed(2)} s (play, loop or talk into the mic)` :
+            `Saved ${frameCount} frames as ${this.settings.exportFormat.toUpperCase()}`);
+    }
+
+    // Called every frame with the latest beat tracking result
+    updateRhythmReadout(state: BeatState) {
+        this.rhythmReadout.tempo = state.bpm > 0 ?
+            `${state.bpm.toFixed(1)} BPM (${Math.round(state.confidence * 100)}%)` : '—';
+        // Lit for the first fifth of every beat
+        this.rhythmReadout.beat = state.bpm > 0 && state.phase < 0.2 ? '●' : '○';
+    }
+
+    // Key of the loaded file (null while unknown)
+    setKeyEstimate(key: KeyEstimate | null) {
+        this.harmonyReadout.key = key ? `${key.name} (${Math.round(key.confidence * 100)}%)` : '—';
+    }
+
     updateInfo(message: string) {
         this.infoPanel.innerHTML = `<strong>Info:</strong> ${message}`;
     }
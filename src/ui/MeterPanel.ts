@@ -0,0 +1,141 @@
+import type { LoudnessAnalysis, LoudnessReading } from '../audio/LoudnessMeter';
+
+// Meter scale (dBFS): anything below the floor reads as silence
+const METER_FLOOR = -60;
+// Peak hold: the marker stays put this long, then falls at PEAK_FALL dB per second
+const PEAK_HOLD_TIME = 1.5;
+const PEAK_FALL = 20;
+
+function formatLevel(value: number, unit: string): string {
+    return Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `−∞ ${unit}`;
+}
+
+// MeterPanel: Level and loudness readout (bottom centre)
+// Two horizontal channel meters (RMS bar + held sample peak) and the EBU R128 numbers.
+export class MeterPanel {
+    private panel: HTMLDivElement;
+    private rmsBars: HTMLDivElement[] = [];
+    private peakMarkers: HTMLDivElement[] = [];
+    private values: Record<string, HTMLSpanElement> = {};
+    private fileElement: HTMLDivElement;
+    private heldPeaks: number[] = [-Infinity, -Infinity];
+    private holdTimers: number[] = [0, 0];
+
+    constructor() {
+        this.panel = document.createElement('div');
+        this.panel.style.position = 'absolute';
+        this.panel.style.bottom = '10px';
+        this.panel.style.left = '50%';
+        this.panel.style.transform = 'translateX(-50%)';
+        this.panel.style.width = '360px';
+        this.panel.style.padding = '10px';
+        this.panel.style.background = 'rgba(0, 0, 0, 0.8)';
+        this.panel.style.color = '#fff';
+        this.panel.style.fontFamily = 'monospace';
+        this.panel.style.fontSize = '11px';
+        this.panel.style.border = '1px solid #00ffff';
+        this.panel.style.borderRadius = '5px';
+        this.panel.style.zIndex = '1000';
+        this.panel.style.display = 'none';
+
+        const meterRow = (label: string) => `
+      <div style="display: flex; align-items: center; gap: 6px; margin: 3px 0;">
+        <span style="width: 10px;">${label}</span>
+        <div style="position: relative; flex: 1; height: 10px; background: #222; border-radius: 2px; overflow: hidden;">
+          <div data-role="rms" style="position: absolute; left: 0; top: 0; bottom: 0; width: 0; background: #0c0;"></div>
+          <div data-role="peak" style="position: absolute; top: 0; bottom: 0; left: 0; width: 2px; background: #fff;"></div>
+        </div>
+      </div>`;
+        const value = (role: string, label: string) =>
+            `<div>${label}: <span data-role="${role}" style="color: #00ffff;">—</span></div>`;
+
+        this.panel.innerHTML = `
+      <div style="color: #00ffff; margin-bottom: 4px;"><strong>📊 Levels & Loudness</strong></div>
+      ${meterRow('L')}
+      ${meterRow('R')}
+      <div style="display: flex; justify-content: space-between; font-size: 9px; color: #777; margin: 0 0 6px 16px;">
+        <span>-60</span><span>-40</span><span>-20</span><span>0 dBFS</span>
+      </div>
+      <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 2px 12px;">
+        ${value('peak-value', 'Peak')}
+        ${value('true-peak', 'True Peak (max)')}
+        ${value('rms-value', 'RMS (300 ms)')}
+        ${value('crest', 'Crest Factor')}
+        ${value('momentary', 'Momentary (M)')}
+        ${value('short-term', 'Short-term (S)')}
+        ${value('integrated', 'Integrated (I)')}
+        ${value('range', 'Loudness Range')}
+      </div>
+      <div data-role="file" style="margin-top: 6px; padding-top: 4px; border-top: 1px solid #333; color: #aaa;"></div>
+      <div style="margin-top: 4px; font-size: 9px; color: #777;">Broadcast target (EBU R128): -23 LUFS, peaks ≤ -1 dBTP</div>
+    `;
+        document.body.appendChild(this.panel);
+
+        this.panel.querySelectorAll<HTMLDivElement>('[data-role="rms"]').forEach(bar => this.rmsBars.push(bar));
+        this.panel.querySelectorAll<HTMLDivElement>('[data-role="peak"]').forEach(marker => this.peakMarkers.push(marker));
+        ['peak-value', 'true-peak', 'rms-value', 'crest', 'momentary', 'short-term', 'integrated', 'range'].forEach(role => {
+            this.values[role] = this.panel.querySelector(`[data-role="${role}"]`) as HTMLSpanElement;
+        });
+        this.fileElement = this.panel.querySelector('[data-role="file"]') as HTMLDivElement;
+        this.setFileAnalysis(null);
+    }
+
+    // Position (0-100 %) of a dBFS level on the meter
+    private toPercent(db: number): number {
+        if (!Number.isFinite(db)) return 0;
+        return Math.min(Math.max((db - METER_FLOOR) / -METER_FLOOR, 0), 1) * 100;
+    }
+
+    update(reading: LoudnessReading, deltaTime: number) {
+        reading.rms.forEach((rms, channel) => {
+            if (channel >= this.rmsBars.length) return;
+            this.rmsBars[channel].style.width = `${this.toPercent(rms)}%`;
+            this.rmsBars[channel].style.background = rms > -6 ? '#f00' : rms > -18 ? '#ff0' : '#0c0';
+
+            // Peak hold: jump up at once, fall back slowly after the hold time
+            const peak = reading.peak[channel];
+            this.holdTimers[channel] += deltaTime;
+            if (peak >= this.heldPeaks[channel]) {
+                this.heldPeaks[channel] = peak;
+                this.holdTimers[channel] = 0;
+            } else if (this.holdTimers[channel] > PEAK_HOLD_TIME) {
+                this.heldPeaks[channel] = Math.max(peak, this.heldPeaks[channel] - PEAK_FALL * deltaTime);
+            }
+            const held = this.heldPeaks[channel];
+            this.peakMarkers[channel].style.left = `calc(${this.toPercent(held)}% - 2px)`;
+            this.peakMarkers[channel].style.background = held >= -0.1 ? '#f00' : '#fff';
+        });
+
+        const loudest = (levels: number[]) => Math.max(...levels);
+        this.values['peak-value'].textContent = formatLevel(loudest(this.heldPeaks), 'dBFS');
+        this.values['true-peak'].textContent = formatLevel(reading.truePeak, 'dBTP');
+        this.values['true-peak'].style.color = reading.truePeak > -1 ? '#f44' : '#00ffff';
+        this.values['rms-value'].textContent = formatLevel(loudest(reading.rms), 'dBFS');
+        this.values['crest'].textContent = `${reading.crest.toFixed(1)} dB`;
+        this.values['momentary'].textContent = formatLevel(reading.momentary, 'LUFS');
+        this.values['short-term'].textContent = formatLevel(reading.shortTerm, 'LUFS');
+        this.values['integrated'].textContent = formatLevel(reading.integrated, 'LUFS');
+        this.values['range'].textContent = `${reading.range.toFixed(1)} LU`;
+    }
+
+    // Offline measurement of the loaded file ('measuring' while the worker runs)
+    setFileAnalysis(analysis: LoudnessAnalysis | 'measuring' | null) {
+        if (analysis === null) {
+            this.fileElement.style.display = 'none';
+            return;
+        }
+        this.fileElement.style.display = 'block';
+        this.fileElement.textContent = analysis === 'measuring' ?
+            'Whole file: measuring…' :
+            `Whole file: ${formatLevel(analysis.integrated, 'LUFS')} · LRA ${analysis.range.toFixed(1)} LU · ` +
+            `${formatLevel(analysis.truePeak, 'dBTP')}`;
+    }
+
+    show() {
+        this.panel.style.display = 'block';
+    }
+
+    hide() {
+        this.panel.style.display = 'none';
+    }
+}
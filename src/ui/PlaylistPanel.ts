@@ -0,0 +1,250 @@
+// PlaylistPanel: A queue of audio files with reordering and next/previous/auto-advance
+// Files arrive from the file picker or by dropping files (or whole folders) onto the page.
+export class PlaylistPanel {
+    private panel: HTMLDivElement;
+    private list: HTMLOListElement;
+    private tracks: File[] = [];
+    // -1 until the first track is selected
+    private currentIndex: number = -1;
+    // The current track was removed from the queue (it keeps playing); currentIndex
+    // then points at the track that took its place, which plays next
+    private currentRemoved: boolean = false;
+    private dragFromIndex: number | null = null;
+    public autoAdvance: boolean = true;
+    // Called whenever a different track should start playing
+    public onTrackSelected: ((file: File, index: number) => void) | null = null;
+
+    constructor() {
+        this.panel = document.createElement('div');
+        this.panel.style.position = 'absolute';
+        this.panel.style.bottom = '10px';
+        this.panel.style.right = '10px';
+        this.panel.style.width = '260px';
+        this.panel.style.maxHeight = '240px';
+        this.panel.style.overflowY = 'auto';
+        this.panel.style.padding = '10px';
+        this.panel.style.background = 'rgba(0, 0, 0, 0.8)';
+        this.panel.style.color = '#fff';
+        this.panel.style.fontFamily = 'monospace';
+        this.panel.style.fontSize = '12px';
+        this.panel.style.border = '1px solid #ff00ff';
+        this.panel.style.borderRadius = '5px';
+        this.panel.style.zIndex = '1000';
+        this.panel.style.display = 'none';
+        this.panel.innerHTML = `
+      <div style="margin-bottom: 5px;"><strong>📃 Playlist</strong></div>
+      <label style="display: block; margin-bottom: 5px; cursor: pointer;">
+        <input type="checkbox" id="autoAdvanceToggle" checked> Auto-advance
+      </label>
+      <div style="font-size: 10px; color: #aaa; margin-bottom: 5px;">Drop files or folders on the page to add. Drag entries to reorder.</div>
+    `;
+
+        this.list = document.createElement('ol');
+        this.list.style.margin = '0';
+        this.list.style.paddingLeft = '20px';
+        this.panel.appendChild(this.list);
+        document.body.appendChild(this.panel);
+
+        const autoAdvanceToggle = this.panel.querySelector('#autoAdvanceToggle') as HTMLInputElement;
+        autoAdvanceToggle.addEventListener('change', () => {
+            this.autoAdvance = autoAdvanceToggle.checked;
+        });
+    }
+
+    // Append files to the queue; starts playing the first one if nothing was ever loaded
+    addFiles(files: File[]) {
+        const audioFiles = files.filter(file => this.isAudioFile(file));
+        if (audioFiles.length === 0) return;
+
+        this.tracks.push(...audioFiles);
+        this.panel.style.display = 'block';
+        this.render();
+
+        if (this.currentIndex === -1) {
+            this.select(this.tracks.length - audioFiles.length);
+        }
+    }
+
+    getTrackCount(): number {
+        return this.tracks.length;
+    }
+
+    getCurrentTrack(): File | null {
+        return this.currentRemoved ? null : this.tracks[this.currentIndex] || null;
+    }
+
+    select(index: number) {
+        if (index < 0 || index >= this.tracks.length) return;
+        this.currentIndex = index;
+        this.currentRemoved = false;
+        this.render();
+        if (this.onTrackSelected) {
+            this.onTrackSelected(this.tracks[index], index);
+        }
+    }
+
+    next() {
+        this.select(this.getNextIndex());
+    }
+
+    previous() {
+        this.select(this.currentIndex - 1);
+    }
+
+    // Hook for AudioController.onTrackEnded
+    handleTrackEnded() {
+        if (this.autoAdvance && this.getNextIndex() < this.tracks.length) {
+            this.next();
+        }
+    }
+
+    private getNextIndex(): number {
+        return this.currentRemoved ? this.currentIndex : this.currentIndex + 1;
+    }
+
+    // Accept drag-and-drop of files or folders anywhere on the given element
+    attachDropTarget(target: HTMLElement | Window) {
+        target.addEventListener('dragover', (event: Event) => {
+            const dragEvent = event as DragEvent;
+            // Only react to files from the desktop, not to our own reorder drags
+            if (dragEvent.dataTransfer?.types.includes('Files')) {
+                dragEvent.preventDefault();
+                dragEvent.dataTransfer.dropEffect = 'copy';
+            }
+        });
+
+        target.addEventListener('drop', async (event: Event) => {
+            const dragEvent = event as DragEvent;
+            if (!dragEvent.dataTransfer?.types.includes('Files')) return;
+            dragEvent.preventDefault();
+
+            // Entries must be grabbed synchronously, before the first await
+            const entries = Array.from(dragEvent.dataTransfer.items)
+                .map(item => item.webkitGetAsEntry())
+                .filter((entry): entry is FileSystemEntry => entry !== null);
+
+            const dropped = entries.length > 0 ?
+                (await Promise.all(entries.map(entry => this.readEntry(entry)))).flat() :
+                Array.from(dragEvent.dataTransfer.files, file => ({ file, path: file.webkitRelativePath || file.name }));
+
+            // Folders come back in directory order; sort by path so each album plays in order
+            dropped.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+            this.addFiles(dropped.map(({ file }) => file));
+        });
+    }
+
+    // Recursively collect files from a dropped file or folder, with their paths in the drop
+    private async readEntry(entry: FileSystemEntry): Promise<{ file: File; path: string }[]> {
+        if (entry.isFile) {
+            const file = await new Promise<File>((resolve, reject) =>
+                (entry as FileSystemFileEntry).file(resolve, reject));
+            return [{ file, path: entry.fullPath }];
+        }
+
+        if (entry.isDirectory) {
+            const reader = (entry as FileSystemDirectoryEntry).createReader();
+            const children: FileSystemEntry[] = [];
+
+            // readEntries returns results in batches until it returns an empty array
+            let batch: FileSystemEntry[];
+            do {
+                batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+                children.push(...batch);
+            } while (batch.length > 0);
+
+            const nested = await Promise.all(children.map(child => this.readEntry(child)));
+            return nested.flat();
+        }
+
+        return [];
+    }
+
+    private isAudioFile(file: File): boolean {
+        return file.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus|webm)$/i.test(file.name);
+    }
+
+    private remove(index: number) {
+        this.tracks.splice(index, 1);
+        if (index < this.currentIndex) {
+            this.currentIndex--;
+        } else if (index === this.currentIndex) {
+            // Keep playing the removed track until the user picks another one
+            // (or it ends); the track after it is still next
+            this.currentRemoved = true;
+        }
+        this.render();
+    }
+
+    private move(from: number, to: number) {
+        if (from === to) return;
+        // With the current track removed, follow the one that plays next instead
+        const current = this.tracks[this.currentIndex];
+        const [track] = this.tracks.splice(from, 1);
+        this.tracks.splice(to, 0, track);
+        if (current) {
+            this.currentIndex = this.tracks.indexOf(current);
+        } else if (this.currentRemoved) {
+            this.currentIndex = this.tracks.length;
+        }
+        this.render();
+    }
+
+    private render() {
+        this.list.innerHTML = '';
+
+        this.tracks.forEach((track, index) => {
+            const item = document.createElement('li');
+            item.draggable = true;
+            item.style.padding = '2px 0';
+            item.style.cursor = 'pointer';
+            const isCurrent = index === this.currentIndex && !this.currentRemoved;
+            item.style.color = isCurrent ? '#ff00ff' : '#fff';
+            item.style.fontWeight = isCurrent ? 'bold' : 'normal';
+            item.title = 'Click to play, drag to reorder';
+
+            const name = document.createElement('span');
+            name.textContent = `${isCurrent ? '▶ ' : ''}${track.name}`;
+            item.appendChild(name);
+
+            const removeBtn = document.createElement('button');
+            removeBtn.textContent = '✕';
+            removeBtn.style.marginLeft = '6px';
+            removeBtn.style.cursor = 'pointer';
+            removeBtn.style.fontSize = '10px';
+            removeBtn.addEventListener('click', (event) => {
+                event.stopPropagation();
+                this.remove(index);
+            });
+            item.appendChild(removeBtn);
+
+            item.addEventListener('click', () => this.select(index));
+
+            // Reordering with native drag and drop
+            item.addEventListener('dragstart', (event) => {
+                this.dragFromIndex = index;
+                event.dataTransfer?.setData('text/plain', String(index));
+            });
+            item.addEventListener('dragover', (event) => {
+                if (this.dragFromIndex !== null) {
+                    event.preventDefault();
+                    item.style.borderTop = '1px solid #ff00ff';
+                }
+            });
+            item.addEventListener('dragleave', () => {
+                item.style.borderTop = '';
+            });
+            item.addEventListener('drop', (event) => {
+                if (this.dragFromIndex === null) return;
+                event.preventDefault();
+                this.move(this.dragFromIndex, index);
+                this.dragFromIndex = null;
+            });
+            item.addEventListener('dragend', () => {
+                this.dragFromIndex = null;
+                item.style.borderTop = '';
+            });
+
+            this.list.appendChild(item);
+        });
+    }
+}
@@ -0,0 +1,71 @@
+import type { PitchResult } from '../audio/PitchDetector';
+
+// TunerPanel: Tuner-style readout of the detected pitch
+// Big note name, f0 in Hz and a needle showing how many cents sharp or flat it is.
+export class TunerPanel {
+    private panel: HTMLDivElement;
+    private noteElement: HTMLDivElement;
+    private frequencyElement: HTMLDivElement;
+    private needle: HTMLDivElement;
+    private centsElement: HTMLSpanElement;
+
+    constructor() {
+        this.panel = document.createElement('div');
+        this.panel.style.position = 'absolute';
+        this.panel.style.top = '10px';
+        this.panel.style.left = '50%';
+        this.panel.style.transform = 'translateX(-50%)';
+        this.panel.style.width = '220px';
+        this.panel.style.padding = '10px';
+        this.panel.style.background = 'rgba(0, 0, 0, 0.8)';
+        this.panel.style.color = '#fff';
+        this.panel.style.fontFamily = 'monospace';
+        this.panel.style.fontSize = '12px';
+        this.panel.style.textAlign = 'center';
+        this.panel.style.border = '1px solid #00ffff';
+        this.panel.style.borderRadius = '5px';
+        this.panel.style.zIndex = '1000';
+        this.panel.style.display = 'none';
+        this.panel.innerHTML = `
+      <div style="color: #00ffff;"><strong>🎼 Tuner</strong></div>
+      <div data-role="note" style="font-size: 36px; font-weight: bold; line-height: 1.2;">—</div>
+      <div data-role="frequency" style="color: #aaa;">No pitch detected</div>
+      <div style="position: relative; height: 14px; margin: 8px 0 4px; background: linear-gradient(90deg, #f44 0%, #ff4 35%, #4f4 50%, #ff4 65%, #f44 100%); border-radius: 3px; opacity: 0.7;">
+        <div data-role="needle" style="position: absolute; top: -3px; left: 50%; width: 2px; height: 20px; background: #fff; transition: left 0.08s linear;"></div>
+      </div>
+      <div style="display: flex; justify-content: space-between; font-size: 10px; color: #aaa;">
+        <span>-50¢ flat</span><span data-role="cents">0¢</span><span>sharp +50¢</span>
+      </div>
+    `;
+        document.body.appendChild(this.panel);
+
+        this.noteElement = this.panel.querySelector('[data-role="note"]') as HTMLDivElement;
+        this.frequencyElement = this.panel.querySelector('[data-role="frequency"]') as HTMLDivElement;
+        this.needle = this.panel.querySelector('[data-role="needle"]') as HTMLDivElement;
+        this.centsElement = this.panel.querySelector('[data-role="cents"]') as HTMLSpanElement;
+    }
+
+    update(pitch: PitchResult | null) {
+        if (!pitch) {
+            this.noteElement.style.color = '#555';
+            this.frequencyElement.textContent = 'No pitch detected';
+            return;
+        }
+
+        // Within ±5 cents counts as in tune (about the limit of what most people hear)
+        const inTune = Math.abs(pitch.cents) <= 5;
+        this.noteElement.textContent = pitch.name;
+        this.noteElement.style.color = inTune ? '#4f4' : '#fff';
+        this.frequencyElement.textContent = `${pitch.frequency.toFixed(1)} Hz · ${Math.round(pitch.confidence * 100)}% sure`;
+        this.needle.style.left = `calc(${50 + pitch.cents}% - 1px)`;
+        this.centsElement.textContent = `${pitch.cents > 0 ? '+' : ''}${pitch.cents}¢`;
+    }
+
+    show() {
+        this.panel.style.display = 'block';
+    }
+
+    hide() {
+        this.panel.style.display = 'none';
+    }
+}
@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+
+// BarLayouts: Where each bar stands and which way it grows
+// Every layout is a different coordinate system turning "bar i of n" into a 3D point:
+//   ring:        polar (r, θ)                 x = r·cos θ, z = r·sin θ
+//   line:        Cartesian (x)                x = -L/2 + L·i/(n-1)
+//   spiral:      Archimedean spiral           r = a·θ (the radius grows with the angle)
+//   sphere:      spherical (Fibonacci sphere) evenly spread points on a sphere
+//   helix:       cylindrical (r, θ, y)        a ring that climbs as it turns
+//   double ring: two mirrored polar rings     every bar twice: growing up above, down below
+export type BarLayout = 'ring' | 'line' | 'spiral' | 'sphere' | 'helix' | 'double ring';
+
+export const BAR_LAYOUTS: BarLayout[] = ['ring', 'line', 'spiral', 'sphere', 'helix', 'double ring'];
+
+// Turns of the spiral and the helix, and how high the helix climbs (× radius)
+export const SPIRAL_TURNS = 3;
+export const HELIX_TURNS = 3;
+export const HELIX_HEIGHT = 2;
+// The spiral starts this far out (× radius), so the first bars don't pile up at the centre
+export const SPIRAL_START = 0.15;
+// Length of the line layout (× radius)
+export const LINE_LENGTH = 4;
+// Vertical gap between the two rings of the double ring
+export const DOUBLE_RING_GAP = 0.2;
+
+// Bars are unit boxes growing along their local +Y axis from the origin
+export interface BarPlacement {
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Theory Check: Archimedean Spiral
+// r = a·θ: every turn adds the same distance. Spacing the bars evenly in θ would crowd
+// them near the centre; the arc length grows roughly with θ², so θ = θmax·√t
+// (t = i/(n-1)) gives nearly equal steps along the curve.
+export function spiralPoint(t: number, radius: number, target = new THREE.Vector3()): THREE.Vector3 {
+    const thetaMax = SPIRAL_TURNS * Math.PI * 2;
+    const theta = thetaMax * Math.sqrt(t);
+    const r = radius * (SPIRAL_START + (1 - SPIRAL_START) * (theta / thetaMax));
+    return target.set(r * Math.cos(theta), 0, r * Math.sin(theta));
+}
+
+// Theory Check: Cylindrical Coordinates (r, θ, y)
+// Polar coordinates plus a height: y grows linearly with θ, so the ring becomes a helix
+export function helixPoint(t: number, radius: number, target = new THREE.Vector3()): THREE.Vector3 {
+    const theta = t * HELIX_TURNS * Math.PI * 2;
+    return target.set(radius * Math.cos(theta), t * HELIX_HEIGHT * radius, radius * Math.sin(theta));
+}
+
+// Theory Check: Fibonacci Sphere
+// Latitude rows or a grid of (θ, φ) bunch points at the poles. Instead, step the height
+// evenly (y from +1 to -1) and turn by the golden angle (≈137.5°) every point: no two
+// points line up, and each covers about the same area of the sphere.
+export function fibonacciSpherePoint(i: number, count: number, radius: number, target = new THREE.Vector3()): THREE.Vector3 {
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    const y = 1 - (2 * (i + 0.5)) / count;
+    const ringRadius = Math.sqrt(1 - y * y);
+    const phi = i * goldenAngle;
+    return target.set(ringRadius * Math.cos(phi), y, ringRadius * Math.sin(phi)).multiplyScalar(radius);
+}
+
+// Spin about Y so the bar's front faces the centre, then tip +Y onto the direction
+function orientBar(direction: THREE.Vector3, theta: number): THREE.Quaternion {
+    const facing = new THREE.Quaternion().setFromAxisAngle(UP, -theta - Math.PI / 2);
+    return new THREE.Quaternion().setFromUnitVectors(UP, direction).multiply(facing);
+}
+
+// Position and orientation of every bar. `direction` is the way the bar grows;
+// `facing` turns it about that axis so its front faces the layout's centre line.
+// The double ring returns 2 × count placements: bar i again at count + i, mirrored.
+export function computeBarPlacements(layout: BarLayout, count: number, radius: number): BarPlacement[] {
+    const placements: BarPlacement[] = [];
+    const position = new THREE.Vector3();
+    const direction = new THREE.Vector3();
+
+    for (let i = 0; i < count; i++) {
+        const t = count > 1 ? i / (count - 1) : 0;
+        // Full-circle layouts divide by count, so the last bar doesn't land on the first
+        let theta = (i / count) * Math.PI * 2;
+        direction.copy(UP);
+
+        switch (layout) {
+            case 'line':
+                position.set((t - 0.5) * LINE_LENGTH * radius, 0, 0);
+                theta = -Math.PI / 2; // Face the camera side
+                break;
+            case 'spiral':
+                spiralPoint(t, radius, position);
+                theta = Math.atan2(position.z, position.x);
+                break;
+            case 'sphere':
+                fibonacciSpherePoint(i, count, radius, position);
+                direction.copy(position).normalize();
+                theta = Math.atan2(position.z, position.x);
+                break;
+            case 'helix':
+                helixPoint(t, radius, position);
+                theta = Math.atan2(position.z, position.x);
+                // Grow outward, away from the axis, so the turns don't run into each other
+                direction.set(Math.cos(theta), 0, Math.sin(theta));
+                break;
+            default:
+                position.set(radius * Math.cos(theta), 0, radius * Math.sin(theta));
+        }
+
+        placements.push({ position: position.clone(), quaternion: orientBar(direction, theta) });
+    }
+
+    // Double ring: the same spectrum mirrored about the floor, the copies growing down
+    if (layout === 'double ring') {
+        const down = new THREE.Vector3(0, -1, 0);
+        for (let i = 0; i < count; i++) {
+            const theta = (i / count) * Math.PI * 2;
+            placements.push({
+                position: placements[i].position.clone().setY(-DOUBLE_RING_GAP),
+                quaternion: orientBar(down, theta)
+            });
+        }
+    }
+    return placements;
+}
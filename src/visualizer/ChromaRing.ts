@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { NOTE_NAMES } from '../audio/PitchDetector';
+
+// ChromaRing: The 12 pitch classes as a ring of wedges (C at angle 0, then clockwise
+// seen from above, like a piano keyboard bent into a circle). Each wedge grows with
+// the energy of its note in every octave, so a C major chord lights C, E and G
+// whatever the voicing.
+// Uses the same polar layout as the bar ring: x = r·cos(θ), z = r·sin(θ).
+const MAX_HEIGHT = 4;
+
+export class ChromaRing {
+    private group: THREE.Group;
+    private segments: THREE.Mesh[] = [];
+    private levels = new Float32Array(12);
+
+    constructor(scene: THREE.Scene) {
+        this.group = new THREE.Group();
+        this.group.visible = false;
+        scene.add(this.group);
+    }
+
+    // Wedge i covers the angle between PolarGrid's division lines i and i + 1 (12 divisions)
+    create(innerRadius: number, outerRadius: number) {
+        this.clear();
+
+        for (let i = 0; i < 12; i++) {
+            const startAngle = (i / 12) * Math.PI * 2;
+            const endAngle = ((i + 1) / 12) * Math.PI * 2;
+            // Leave a small gap between wedges
+            const gap = 0.02;
+
+            // Annular sector in the shape's XY plane. Y is negated because the geometry is
+            // rotated onto the floor below, which turns shape Y into world -Z.
+            const shape = new THREE.Shape();
+            const steps = 8;
+            for (let s = 0; s <= steps; s++) {
+                const angle = startAngle + gap + (s / steps) * (endAngle - startAngle - gap * 2);
+                const x = outerRadius * Math.cos(angle);
+                const y = -outerRadius * Math.sin(angle);
+                if (s === 0) shape.moveTo(x, y);
+                else shape.lineTo(x, y);
+            }
+            for (let s = steps; s >= 0; s--) {
+                const angle = startAngle + gap + (s / steps) * (endAngle - startAngle - gap * 2);
+                shape.lineTo(innerRadius * Math.cos(angle), -innerRadius * Math.sin(angle));
+            }
+
+            // Extrude one unit, then stand it on the floor so scale.y sets the height
+            const geometry = new THREE.ExtrudeGeometry(shape, { depth: 1, bevelEnabled: false });
+            geometry.rotateX(-Math.PI / 2);
+
+            const hue = i / 12;
+            const material = new THREE.MeshStandardMaterial({
+                color: new THREE.Color().setHSL(hue, 0.9, 0.5),
+                emissive: new THREE.Color().setHSL(hue, 0.9, 0.1),
+                roughness: 0.3,
+                metalness: 0.4
+            });
+            const segment = new THREE.Mesh(geometry, material);
+            segment.scale.y = 0.05;
+            this.segments.push(segment);
+            this.group.add(segment);
+
+            // Note name just outside the wedge
+            const labelAngle = (startAngle + endAngle) / 2;
+            const label = this.createLabel(NOTE_NAMES[i], hue);
+            label.position.set(
+                (outerRadius + 1) * Math.cos(labelAngle),
+                0.5,
+                (outerRadius + 1) * Math.sin(labelAngle)
+            );
+            this.group.add(label);
+        }
+    }
+
+    private createLabel(text: string, hue: number): THREE.Sprite {
+        const canvas = document.createElement('canvas');
+        canvas.width = 128;
+        canvas.height = 64;
+        const ctx = canvas.getContext('2d')!;
+        ctx.font = 'bold 40px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = new THREE.Color().setHSL(hue, 0.9, 0.7).getStyle();
+        ctx.fillText(text, 64, 32);
+
+        const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true }));
+        sprite.scale.set(1.6, 0.8, 1);
+        return sprite;
+    }
+
+    // chroma: 12 values 0-1. Heights ease towards them so chords don't flicker.
+    update(chroma: Float32Array, deltaTime: number) {
+        const ease = 1 - Math.exp(-deltaTime * 12);
+        this.segments.forEach((segment, i) => {
+            this.levels[i] += (chroma[i] - this.levels[i]) * ease;
+            const level = this.levels[i];
+            segment.scale.y = level * MAX_HEIGHT + 0.05;
+            (segment.material as THREE.MeshStandardMaterial).emissive.setHSL(i / 12, 0.9, 0.1 + level * 0.4);
+        });
+    }
+
+    show() {
+        this.group.visible = true;
+    }
+
+    hide() {
+        this.group.visible = false;
+    }
+
+    private clear() {
+        while (this.group.children.length > 0) {
+            const child = this.group.children[0];
+            this.group.remove(child);
+            // (Sprites share one geometry inside three.js, so only their materials are disposed)
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            } else if (child instanceof THREE.Sprite) {
+                child.material.map?.dispose();
+                child.material.dispose();
+            }
+        }
+        this.segments = [];
+    }
+}
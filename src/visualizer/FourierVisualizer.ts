@@ -1,4 +1,14 @@
 import * as THREE from 'three';
+import { FourierDecomposition, evaluateComponent } from '../audio/FourierDecomposition';
+
+// Most components the decomposition can show at once
+export const MAX_FOURIER_COMPONENTS = 32;
+// Points along the shared time axis (the same resampling as the complex waveform)
+const TIME_AXIS_POINTS = 512;
+// A component line gets at least this many points per cycle, up to MAX_COMPONENT_POINTS.
+// Fewer would alias: the line would show a slower, wrong-frequency sinusoid.
+const POINTS_PER_CYCLE = 4;
+const MAX_COMPONENT_POINTS = 4096;
 
 export class FourierVisualizer {
     private group: THREE.Group;
@@ -8,14 +18,28 @@ export class FourierVisualizer {
     private labelsGroup: THREE.Group;
 
     private complexWaveformLine!: THREE.Line;
+    private windowLines: THREE.Line[] = [];
+    private windowShape: Float32Array | null = null;
     private depthArrow!: THREE.ArrowHelper;
     private hitArea: THREE.Mesh | null = null;
     private spectrumBars: THREE.Mesh[] = [];
-    private sineWaves: THREE.Line[] = [];
+    private peakCaps!: THREE.LineSegments;
+    private maxHoldLine!: THREE.Line;
+    private peakLevels: ArrayLike<number> | null = null;
+    private maxHoldLevels: ArrayLike<number> | null = null;
+    private componentLines: THREE.Line[] = [];
+    private reconstructionLine!: THREE.Line;
+    private residualLine!: THREE.Line;
+    private readoutCanvas!: HTMLCanvasElement;
+    private readoutTexture!: THREE.CanvasTexture;
+    private readoutText = '';
+    private decomposition: FourierDecomposition | null = null;
+    private componentCount = 8;
 
     private readonly planeSize = 50;
     private readonly planeDistance = 60;
     private barCount: number = 48; // Initial default
+    private pitchBarIndex: number = -1;
 
     constructor(scene: THREE.Scene) {
         this.group = new THREE.Group();
@@ -34,6 +58,8 @@ export class FourierVisualizer {
         this.setupPlanes();
         this.setupComponents();
         this.setupLabels();
+        this.setupWindowShape();
+        this.setupDecomposition();
 
         this.hide();
     }
@@ -41,6 +67,7 @@ export class FourierVisualizer {
     public updateBarCount(count: number) {
         if (this.barCount === count) return;
         this.barCount = count;
+        this.pitchBarIndex = -1;
         this.clearComponents();
         this.setupComponents();
     }
@@ -54,13 +81,12 @@ export class FourierVisualizer {
         });
         this.spectrumBars = [];
 
-        // Clear sine waves
-        this.sineWaves.forEach(wave => {
-            this.sineWavesGroup.remove(wave);
-            wave.geometry.dispose();
-            (wave.material as THREE.Material).dispose();
+        // Clear hold markers
+        [this.peakCaps, this.maxHoldLine].forEach(marker => {
+            this.frequencyPlane.remove(marker);
+            marker.geometry.dispose();
+            (marker.material as THREE.Material).dispose();
         });
-        this.sineWaves = [];
     }
 
     private setupPlanes() {
@@ -148,25 +174,196 @@ export class FourierVisualizer {
             bar.position.set(x, -this.planeSize / 2, this.planeDistance);
             this.frequencyPlane.add(bar);
             this.spectrumBars.push(bar);
+        }
 
-            // Sine Waves (Connecting) - Multicolored per frequency band
-            const sineGeom = new THREE.BufferGeometry();
-            const sinePositions = new Float32Array(100 * 3);
-            sineGeom.setAttribute('position', new THREE.BufferAttribute(sinePositions, 3));
-            const sineMat = new THREE.LineBasicMaterial({
-                color: color, // Frequency-band color
-                transparent: true,
-                opacity: 0.4
-            });
-            const sineLine = new THREE.Line(sineGeom, sineMat);
-            this.sineWavesGroup.add(sineLine);
-            this.sineWaves.push(sineLine);
+        // Peak-hold caps (one short segment per bar) and the max-hold outline
+        // (two points per bar, a step across each bar's width), hidden until setHoldLevels
+        const capGeom = new THREE.BufferGeometry();
+        capGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.barCount * 2 * 3), 3));
+        this.peakCaps = new THREE.LineSegments(capGeom, new THREE.LineBasicMaterial({ color: 0xffffff }));
+        this.peakCaps.visible = false;
+        this.frequencyPlane.add(this.peakCaps);
+
+        const maxHoldGeom = new THREE.BufferGeometry();
+        maxHoldGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.barCount * 2 * 3), 3));
+        this.maxHoldLine = new THREE.Line(maxHoldGeom, new THREE.LineBasicMaterial({
+            color: 0xffffff,
+            transparent: true,
+            opacity: 0.4
+        }));
+        this.maxHoldLine.visible = false;
+        this.frequencyPlane.add(this.maxHoldLine);
+    }
+
+    // Peak-hold caps and max-hold outline for the spectrum bars (0-1 per bar, null hides each)
+    setHoldLevels(peaks: ArrayLike<number> | null, maxima: ArrayLike<number> | null) {
+        this.peakLevels = peaks;
+        this.maxHoldLevels = maxima;
+        this.peakCaps.visible = peaks !== null;
+        this.maxHoldLine.visible = maxima !== null;
+    }
+
+    // Write per-bar heights into a marker line: two points per bar spanning its width
+    private updateHoldMarker(marker: THREE.Line, levels: ArrayLike<number>) {
+        const positions = marker.geometry.attributes.position.array as Float32Array;
+        const halfWidth = (this.planeSize / this.barCount) * 0.45;
+        for (let i = 0; i < this.barCount; i++) {
+            const x = ((i / this.barCount) - 0.5) * this.planeSize;
+            const y = -this.planeSize / 2 + Math.max(0.1, (levels[i] || 0) * this.planeSize);
+            positions.set([x - halfWidth, y, this.planeDistance, x + halfWidth, y, this.planeDistance], i * 6);
+        }
+        marker.geometry.attributes.position.needsUpdate = true;
+        marker.geometry.computeBoundingSphere();
+    }
+
+    private setupWindowShape() {
+        // Window function envelope (±w[n]), hidden until setWindowShape is called
+        for (let i = 0; i < 2; i++) {
+            const windowGeom = new THREE.BufferGeometry();
+            windowGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(128 * 3), 3));
+            const windowMat = new THREE.LineDashedMaterial({ color: 0xffff00, dashSize: 1, gapSize: 0.6 });
+            const windowLine = new THREE.Line(windowGeom, windowMat);
+            windowLine.visible = false;
+            this.timePlane.add(windowLine);
+            this.windowLines.push(windowLine);
         }
     }
 
+    // The strongest DFT components, each a sinusoid over the same time axis as the signal,
+    // plus their sum (the reconstruction) and what the sum misses (the residual)
+    private setupDecomposition() {
+        for (let i = 0; i < MAX_FOURIER_COMPONENTS; i++) {
+            const componentGeom = new THREE.BufferGeometry();
+            componentGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_COMPONENT_POINTS * 3), 3));
+            const componentMat = new THREE.LineBasicMaterial({ transparent: true, opacity: 0.8 });
+            const componentLine = new THREE.Line(componentGeom, componentMat);
+            componentLine.visible = false;
+            this.sineWavesGroup.add(componentLine);
+            this.componentLines.push(componentLine);
+        }
+
+        const reconstructionGeom = new THREE.BufferGeometry();
+        reconstructionGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TIME_AXIS_POINTS * 3), 3));
+        this.reconstructionLine = new THREE.Line(reconstructionGeom, new THREE.LineBasicMaterial({ color: 0xffffff }));
+        this.timePlane.add(this.reconstructionLine);
+
+        const residualGeom = new THREE.BufferGeometry();
+        residualGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TIME_AXIS_POINTS * 3), 3));
+        this.residualLine = new THREE.Line(residualGeom, new THREE.LineBasicMaterial({
+            color: 0xff8800,
+            transparent: true,
+            opacity: 0.8
+        }));
+        this.timePlane.add(this.residualLine);
+
+        // Error readout under the time plane, redrawn only when its text changes
+        this.readoutCanvas = document.createElement('canvas');
+        this.readoutCanvas.width = 1024;
+        this.readoutCanvas.height = 128;
+        this.readoutTexture = new THREE.CanvasTexture(this.readoutCanvas);
+        const readout = new THREE.Sprite(new THREE.SpriteMaterial({ map: this.readoutTexture }));
+        readout.scale.set(40, 5, 1);
+        readout.position.set(0, -this.planeSize / 2 - 4, 0);
+        this.timePlane.add(readout);
+    }
+
+    // How many DFT components to keep (1 to MAX_FOURIER_COMPONENTS)
+    setComponentCount(count: number) {
+        this.componentCount = Math.min(Math.max(Math.round(count), 1), MAX_FOURIER_COMPONENTS);
+    }
+
+    private setReadout(text: string) {
+        if (text === this.readoutText) return;
+        this.readoutText = text;
+
+        const ctx = this.readoutCanvas.getContext('2d')!;
+        ctx.clearRect(0, 0, this.readoutCanvas.width, this.readoutCanvas.height);
+        ctx.font = 'bold 44px monospace';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#ffffff';
+        // Squeezed to fit when long
+        ctx.fillText(text, this.readoutCanvas.width / 2, this.readoutCanvas.height / 2, this.readoutCanvas.width - 20);
+        this.readoutTexture.needsUpdate = true;
+    }
+
+    // Decompose the window and draw the components, the reconstruction and the residual
+    private updateDecomposition(timeData: Float32Array, sampleRate: number, localTrackingPos: THREE.Vector3) {
+        // The analyser's window is a power of two already; anything else is cut down to one
+        const size = timeData.length >= 2 ? 2 ** Math.floor(Math.log2(timeData.length)) : 0;
+        if (size === 0) {
+            this.componentLines.forEach(line => line.visible = false);
+            return;
+        }
+        if (!this.decomposition) this.decomposition = new FourierDecomposition(size);
+        this.decomposition.setSize(size);
+
+        const result = this.decomposition.decompose(timeData, sampleRate, this.componentCount);
+        const amplitudeScale = this.planeSize / 2.5;
+
+        // Components in order of frequency, stacked from the time plane (lowest)
+        // towards the spectrum wall (highest), all on the time plane's x axis
+        const components = [...result.components].sort((a, b) => a.frequency - b.frequency);
+        const depthStep = (this.planeDistance - localTrackingPos.z) / (components.length + 1);
+
+        // Each line traces the continuous sinusoid with enough points per cycle; components
+        // faster than MAX_COMPONENT_POINTS can draw are left out (and counted in the readout)
+        let undrawable = 0;
+        this.componentLines.forEach((line, index) => {
+            const component = components[index];
+            const pointCount = component ? Math.max(TIME_AXIS_POINTS, component.bin * POINTS_PER_CYCLE + 1) : 0;
+            line.visible = component !== undefined && pointCount <= MAX_COMPONENT_POINTS;
+            if (component && !line.visible) undrawable++;
+            if (!line.visible) return;
+
+            const z = localTrackingPos.z + depthStep * (index + 1);
+            const linePositions = line.geometry.attributes.position.array as Float32Array;
+            for (let i = 0; i < pointCount; i++) {
+                const t = i / (pointCount - 1);
+                linePositions[i * 3] = localTrackingPos.x + (t - 0.5) * this.planeSize;
+                linePositions[i * 3 + 1] = evaluateComponent(component, t * size, size) * amplitudeScale;
+                linePositions[i * 3 + 2] = z;
+            }
+            line.geometry.setDrawRange(0, pointCount);
+            line.geometry.attributes.position.needsUpdate = true;
+            line.geometry.computeBoundingSphere();
+            (line.material as THREE.LineBasicMaterial).color.setHex(this.getSpectrumColor(
+                Math.log(Math.max(component.frequency, 20) / 20) / Math.log(20000 / 20)
+            ));
+        });
+
+        // Reconstruction x̂[n] = Σ components, overlaid on the signal; residual x[n] - x̂[n] below it
+        const reconstruction = this.reconstructionLine.geometry.attributes.position.array as Float32Array;
+        const residual = this.residualLine.geometry.attributes.position.array as Float32Array;
+        for (let i = 0; i < TIME_AXIS_POINTS; i++) {
+            const n = Math.floor((i / TIME_AXIS_POINTS) * timeData.length);
+            let sum = 0;
+            result.components.forEach(component => sum += evaluateComponent(component, n, size));
+            const x = ((i / TIME_AXIS_POINTS) - 0.5) * this.planeSize;
+
+            reconstruction[i * 3] = x;
+            reconstruction[i * 3 + 1] = sum * amplitudeScale;
+            reconstruction[i * 3 + 2] = 0.2; // Just in front of the signal
+
+            residual[i * 3] = x;
+            residual[i * 3 + 1] = ((timeData[n] || 0) - sum) * amplitudeScale;
+            residual[i * 3 + 2] = 0.15;
+        }
+        this.reconstructionLine.geometry.attributes.position.needsUpdate = true;
+        this.residualLine.geometry.attributes.position.needsUpdate = true;
+
+        const captured = result.energy > 0 ? (1 - result.residualEnergy / result.energy) * 100 : 100;
+        const hidden = undrawable > 0 ? ` (${undrawable} too fast to draw)` : '';
+        this.setReadout(`${result.components.length} sines${hidden}: ${captured.toFixed(1)}% energy, residual RMS ${result.residualRms.toFixed(4)}`);
+    }
+
     private getFrequencyColor(index: number): number {
-        const ratio = index / this.barCount;
-        // Gradient from Red (Bass) to Blue (Treble)
+        return this.getSpectrumColor(index / this.barCount);
+    }
+
+    // Gradient from Red (Bass) to Blue (Treble), ratio 0-1
+    private getSpectrumColor(ratio: number): number {
+        ratio = Math.min(Math.max(ratio, 0), 1);
         const r = Math.floor((1 - ratio) * 255);
         const b = Math.floor(ratio * 255);
         return (r << 16) | b;
@@ -247,7 +444,33 @@ export class FourierVisualizer {
         parent.add(sprite);
     }
 
-    update(timeData: Uint8Array, freqData: Uint8Array, trackingPosition: THREE.Vector3, currentTime: number) {
+    // Draw the analysis window over the time plane (null = hide)
+    // so the taper applied before the FFT is visible next to the signal it shapes
+    setWindowShape(window: Float32Array | null) {
+        if (window === this.windowShape) return;
+        this.windowShape = window;
+
+        this.windowLines.forEach((line, lineIndex) => {
+            line.visible = window !== null;
+            if (!window) return;
+
+            const sign = lineIndex === 0 ? 1 : -1;
+            const positions = line.geometry.attributes.position.array as Float32Array;
+            for (let i = 0; i < 128; i++) {
+                const w = window[Math.floor((i / 127) * (window.length - 1))];
+                positions[i * 3] = ((i / 127) - 0.5) * this.planeSize;
+                positions[i * 3 + 1] = sign * w * (this.planeSize / 2.5);
+                positions[i * 3 + 2] = 0.1; // Just in front of the signal
+            }
+            line.geometry.attributes.position.needsUpdate = true;
+            line.computeLineDistances();
+        });
+    }
+
+    // timeData: samples in -1..1, barLevels: normalised 0-1 level per spectrum bar,
+    // already mapped to frequency bands the same way as the main bar ring
+    // sampleRate turns the decomposition's DFT bins into Hz
+    update(timeData: Float32Array, barLevels: Float32Array, trackingPosition: THREE.Vector3, sampleRate: number) {
         if (!this.group.visible) return;
 
         // Convert world tracking position to local coordinates of the fourier group
@@ -264,7 +487,8 @@ export class FourierVisualizer {
         // Update Complex Waveform (Relative to the moving timePlane)
         const positions = this.complexWaveformLine.geometry.attributes.position.array as Float32Array;
         for (let i = 0; i < 512; i++) {
-            const val = (timeData[i] / 128.0) - 1.0;
+            // Resample to the 512-point line, whatever the current FFT size
+            const val = timeData[Math.floor((i / 512) * timeData.length)] || 0;
             const y = val * (this.planeSize / 2.5);
             const x = ((i / 512) - 0.5) * this.planeSize;
 
@@ -274,51 +498,36 @@ export class FourierVisualizer {
         }
         this.complexWaveformLine.geometry.attributes.position.needsUpdate = true;
 
-        // Update Spectrum Bars & Moving Sine Waves
-        const step = Math.floor(freqData.length / this.barCount);
+        this.updateDecomposition(timeData, sampleRate, localTrackingPos);
+
+        // Update Spectrum Bars
         for (let i = 0; i < this.barCount; i++) {
-            const val = freqData[i * step] / 255.0;
+            const val = barLevels[i] || 0;
             const h = val * this.planeSize;
             this.spectrumBars[i].scale.y = Math.max(0.1, h);
 
-            // Update Sine Wave (Stretch from tracking point to static bar)
-            const sineLine = this.sineWaves[i];
-            const sinePositions = sineLine.geometry.attributes.position.array as Float32Array;
-            const xOffset = ((i / this.barCount) - 0.5) * this.planeSize;
-            const frequency = (i + 1) * 2;
-
-            // Start point (at tracking position on the model)
-            const startX = localTrackingPos.x + xOffset;
-            const startY = localTrackingPos.y;
-            const startZ = localTrackingPos.z;
-
-            // End point (at static bar on back wall)
-            const endX = xOffset;
-            const endY = -this.planeSize / 2;
-            const endZ = this.planeDistance;
-
-            for (let j = 0; j < 100; j++) {
-                const t = j / 100;
-                const x = startX + (endX - startX) * t;
-                const yPos = startY + (endY - startY) * t;
-                const z = startZ + (endZ - startZ) * t;
-
-                // Amplitude projection along the path - scaled for larger space
-                const amp = val * (this.planeSize / 3) * t;
-                // STABLE ANIMATION: Use currentTime instead of Date.now() to stop vibrating when paused
-                const waveY = Math.sin(t * frequency * Math.PI * 2 + currentTime * 5) * amp;
-
-                sinePositions[j * 3] = x;
-                sinePositions[j * 3 + 1] = yPos + waveY;
-                sinePositions[j * 3 + 2] = z;
-            }
-            sineLine.geometry.attributes.position.needsUpdate = true;
-
             // Optional: Dynamic emissive intensity based on value
             const bar = this.spectrumBars[i];
             (bar.material as THREE.MeshStandardMaterial).emissiveIntensity = 0.3 + val * 0.7;
-            (sineLine.material as THREE.LineBasicMaterial).opacity = 0.15 + val * 0.55;
         }
+
+        if (this.peakLevels) this.updateHoldMarker(this.peakCaps, this.peakLevels);
+        if (this.maxHoldLevels) this.updateHoldMarker(this.maxHoldLine, this.maxHoldLevels);
+    }
+
+    // Light up the spectrum bar that holds the detected fundamental (-1 = none)
+    setPitchBar(index: number) {
+        if (index === this.pitchBarIndex) return;
+
+        const previous = this.spectrumBars[this.pitchBarIndex];
+        if (previous) {
+            (previous.material as THREE.MeshStandardMaterial).emissive.setHex(this.getFrequencyColor(this.pitchBarIndex));
+        }
+        const current = this.spectrumBars[index];
+        if (current) {
+            (current.material as THREE.MeshStandardMaterial).emissive.setHex(0xffffff);
+        }
+        this.pitchBarIndex = current ? index : -1;
     }
 
     setPosition(x: number, y: number, z: number) {
@@ -1,3 +1,15 @@
+import { findBandIndex, formatFrequency, type FrequencyBand } from '../audio/FrequencyScale';
+import { GAIN_FILTER_TYPES, type FilterBandParams } from '../audio/FilterChain';
+
+// EQ overlay: the chain's response curve and the bands it is made of
+export interface FilterOverlay {
+    getResponse: (frequencies: Float32Array<ArrayBuffer>) => Float32Array;
+    bands: FilterBandParams[];
+}
+
+// Vertical range of the EQ curve (±dB around the centre line)
+const EQ_RANGE_DB = 24;
+
 // FrequencyGraph: Shows FREQUENCY DOMAIN representation
 // This is what the audio looks like AFTER FFT transformation
 export class FrequencyGraph {
@@ -5,6 +17,15 @@ export class FrequencyGraph {
     private ctx: CanvasRenderingContext2D;
     private width: number = 400;
     private height: number = 150;
+    private pitchMarker: { frequency: number; label: string } | null = null;
+    private peakLevels: ArrayLike<number> | null = null;
+    private maxHoldLevels: ArrayLike<number> | null = null;
+    private filterOverlay: FilterOverlay | null = null;
+    private curveFrequencies: Float32Array<ArrayBuffer>;
+    private lastBands: FrequencyBand[] = [];
+    private dragBandIndex: number = -1;
+    // Called while an EQ handle is dragged (gain is unchanged for cut-only filter types)
+    public onFilterBandDrag: ((index: number, frequency: number, gain: number) => void) | null = null;
 
     constructor() {
         this.canvas = document.createElement('canvas');
@@ -20,6 +41,163 @@ export class FrequencyGraph {
 
         this.ctx = this.canvas.getContext('2d')!;
         document.body.appendChild(this.canvas);
+
+        // One response sample every 2 pixels
+        this.curveFrequencies = new Float32Array(Math.ceil(this.width / 2));
+
+        this.setupFilterDragging();
+    }
+
+    // Show the EQ curve with draggable band handles (null hides it)
+    setFilterOverlay(overlay: FilterOverlay | null) {
+        this.filterOverlay = overlay;
+        this.canvas.style.cursor = overlay ? 'crosshair' : 'default';
+    }
+
+    private setupFilterDragging() {
+        this.canvas.addEventListener('mousedown', (event) => {
+            if (!this.filterOverlay) return;
+
+            // Grab the nearest handle within reach
+            let nearest = -1;
+            let nearestDistance = 12;
+            this.filterOverlay.bands.forEach((band, index) => {
+                if (!band.enabled) return;
+                const handle = this.getHandlePosition(band);
+                const distance = Math.hypot(handle.x - event.offsetX, handle.y - event.offsetY);
+                if (distance < nearestDistance) {
+                    nearestDistance = distance;
+                    nearest = index;
+                }
+            });
+
+            if (nearest !== -1) {
+                this.dragBandIndex = nearest;
+                // Keep the scene (scrubbing, orbit controls) from reacting to this drag
+                event.stopPropagation();
+                event.preventDefault();
+            }
+        });
+
+        window.addEventListener('mousemove', (event) => {
+            if (this.dragBandIndex === -1 || !this.filterOverlay) return;
+            const band = this.filterOverlay.bands[this.dragBandIndex];
+            if (!band) return;
+
+            const rect = this.canvas.getBoundingClientRect();
+            const x = Math.min(Math.max(event.clientX - rect.left, 0), this.width - 1);
+            const y = event.clientY - rect.top;
+            const frequency = Math.min(Math.max(this.xToFrequency(x), 20), 20000);
+            const gain = GAIN_FILTER_TYPES.includes(band.type) ?
+                Math.round(Math.min(Math.max(this.yToDecibels(y), -EQ_RANGE_DB), EQ_RANGE_DB) * 10) / 10 :
+                band.gain;
+
+            if (this.onFilterBandDrag) {
+                this.onFilterBandDrag(this.dragBandIndex, Math.round(frequency), gain);
+            }
+        });
+
+        window.addEventListener('mouseup', () => {
+            this.dragBandIndex = -1;
+        });
+    }
+
+    // Canvas x <-> Hz follows the bars: each bar spans its band's Hz range
+    private frequencyToX(frequency: number): number {
+        const bands = this.lastBands;
+        if (bands.length === 0) return 0;
+        const barWidth = this.width / bands.length;
+        const index = findBandIndex(bands, frequency);
+        if (index === -1) {
+            return frequency < bands[0].lowHz ? 0 : this.width;
+        }
+        const band = bands[index];
+        const fraction = (frequency - band.lowHz) / (band.highHz - band.lowHz);
+        return (index + fraction) * barWidth;
+    }
+
+    private xToFrequency(x: number): number {
+        const bands = this.lastBands;
+        if (bands.length === 0) return 0;
+        const position = (x / this.width) * bands.length;
+        const band = bands[Math.min(Math.floor(position), bands.length - 1)];
+        const fraction = position - Math.floor(position);
+        return band.lowHz + fraction * (band.highHz - band.lowHz);
+    }
+
+    // The EQ's 0 dB line runs through the middle of the graph area
+    private decibelsToY(db: number): number {
+        const graphHeight = this.height - 20;
+        return 20 + graphHeight / 2 - (db / EQ_RANGE_DB) * (graphHeight / 2);
+    }
+
+    private yToDecibels(y: number): number {
+        const graphHeight = this.height - 20;
+        return ((20 + graphHeight / 2 - y) / (graphHeight / 2)) * EQ_RANGE_DB;
+    }
+
+    private getHandlePosition(band: FilterBandParams): { x: number; y: number } {
+        const gain = GAIN_FILTER_TYPES.includes(band.type) ? band.gain : 0;
+        return { x: this.frequencyToX(band.frequency), y: this.decibelsToY(gain) };
+    }
+
+    private drawFilterOverlay() {
+        if (!this.filterOverlay || this.lastBands.length === 0) return;
+        const { ctx } = this;
+
+        // 0 dB reference
+        ctx.strokeStyle = 'rgba(255, 255, 0, 0.3)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(0, this.decibelsToY(0));
+        ctx.lineTo(this.width, this.decibelsToY(0));
+        ctx.stroke();
+
+        // Response curve
+        for (let i = 0; i < this.curveFrequencies.length; i++) {
+            this.curveFrequencies[i] = Math.max(this.xToFrequency(i * 2), 1);
+        }
+        const response = this.filterOverlay.getResponse(this.curveFrequencies);
+
+        ctx.strokeStyle = '#ffff00';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        for (let i = 0; i < response.length; i++) {
+            const db = Math.min(Math.max(response[i], -EQ_RANGE_DB * 2), EQ_RANGE_DB * 2);
+            const y = this.decibelsToY(db);
+            if (i === 0) ctx.moveTo(0, y);
+            else ctx.lineTo(i * 2, y);
+        }
+        ctx.stroke();
+
+        // Handles, numbered like the GUI bands
+        ctx.font = '9px monospace';
+        this.filterOverlay.bands.forEach((band, index) => {
+            if (!band.enabled) return;
+            const handle = this.getHandlePosition(band);
+            ctx.fillStyle = index === this.dragBandIndex ? '#ffffff' : '#ffff00';
+            ctx.beginPath();
+            ctx.arc(handle.x, handle.y, 5, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.fillStyle = '#000000';
+            ctx.fillText(`${index + 1}`, handle.x - 3, handle.y + 3);
+        });
+    }
+
+    // Highlight the detected fundamental (null hides the marker)
+    setPitchMarker(frequency: number | null, label: string = '') {
+        this.pitchMarker = frequency !== null ? { frequency, label } : null;
+    }
+
+    // Peak-hold caps and max-hold line, 0-1 per bar like draw()'s levels (null hides each)
+    setHoldLevels(peaks: ArrayLike<number> | null, maxima: ArrayLike<number> | null) {
+        this.peakLevels = peaks;
+        this.maxHoldLevels = maxima;
+    }
+
+    // The 2D canvas, e.g. for compositing into a recording
+    getCanvas(): HTMLCanvasElement {
+        return this.canvas;
     }
 
     show() {
@@ -30,8 +208,12 @@ export class FrequencyGraph {
         this.canvas.style.display = 'none';
     }
 
-    draw(frequencyData: Uint8Array) {
+    // levels: normalised 0-1 values per bar, bands: what each bar covers in Hz
+    // (the same mapping as the 3D bar ring, see FrequencyScale.computeFrequencyBands)
+    // decibelRange: pass it when levels come from the float path to label the true dB scale
+    draw(levels: Float32Array, bands: FrequencyBand[], decibelRange?: { min: number; max: number }) {
         const { ctx, width, height } = this;
+        const graphHeight = height - 20;
 
         // Clear canvas
         ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
@@ -40,16 +222,33 @@ export class FrequencyGraph {
         // Draw title
         ctx.fillStyle = '#ff00ff';
         ctx.font = '12px monospace';
-        ctx.fillText('FREQUENCY DOMAIN (After FFT)', 10, 15);
+        ctx.fillText(decibelRange ? 'FREQUENCY DOMAIN (After FFT, dB)' : 'FREQUENCY DOMAIN (After FFT)', 10, 15);
+
+        // Decibel grid: one line every 10 dB between minDecibels and maxDecibels
+        if (decibelRange) {
+            const range = decibelRange.max - decibelRange.min;
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.font = '9px monospace';
+            ctx.lineWidth = 1;
+            for (let db = Math.ceil(decibelRange.max / 10) * 10; db >= decibelRange.min; db -= 10) {
+                const y = height - ((db - decibelRange.min) / range) * graphHeight;
+                ctx.beginPath();
+                ctx.moveTo(0, y);
+                ctx.lineTo(width, y);
+                ctx.stroke();
+                ctx.fillText(`${db} dB`, width - 45, y - 2);
+            }
+        }
 
         // Draw frequency bars
-        const barWidth = width / frequencyData.length;
+        const barWidth = width / levels.length;
 
-        for (let i = 0; i < frequencyData.length; i++) {
-            const barHeight = (frequencyData[i] / 255) * (height - 20);
+        for (let i = 0; i < levels.length; i++) {
+            const barHeight = levels[i] * graphHeight;
 
             // Color gradient from bass (red) to treble (blue)
-            const hue = (i / frequencyData.length) * 280;
+            const hue = (i / levels.length) * 280;
             ctx.fillStyle = `hsl(${hue}, 100%, 50%)`;
 
             ctx.fillRect(
@@ -60,10 +259,65 @@ export class FrequencyGraph {
             );
         }
 
-        // Draw labels
+        // Max hold: a faint stepped outline over the highest level each bar has reached
+        if (this.maxHoldLevels) {
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            for (let i = 0; i < levels.length; i++) {
+                const y = height - (this.maxHoldLevels[i] || 0) * graphHeight;
+                if (i === 0) ctx.moveTo(0, y);
+                else ctx.lineTo(i * barWidth, y);
+                ctx.lineTo((i + 1) * barWidth, y);
+            }
+            ctx.stroke();
+        }
+
+        // Peak caps: a short tick above each bar at its recent maximum
+        if (this.peakLevels) {
+            ctx.fillStyle = '#ffffff';
+            for (let i = 0; i < levels.length; i++) {
+                const y = height - (this.peakLevels[i] || 0) * graphHeight;
+                ctx.fillRect(i * barWidth, y - 2, Math.max(barWidth - 1, 1), 2);
+            }
+        }
+
+        // Pitch marker: a line through the bar that holds the fundamental
+        if (this.pitchMarker) {
+            const bandIndex = findBandIndex(bands, this.pitchMarker.frequency);
+            if (bandIndex !== -1) {
+                const x = (bandIndex + 0.5) * barWidth;
+                ctx.strokeStyle = '#ffffff';
+                ctx.lineWidth = 2;
+                ctx.setLineDash([4, 3]);
+                ctx.beginPath();
+                ctx.moveTo(x, 20);
+                ctx.lineTo(x, height - 15);
+                ctx.stroke();
+                ctx.setLineDash([]);
+
+                ctx.fillStyle = '#ffffff';
+                ctx.font = 'bold 11px monospace';
+                const text = `f0 ${this.pitchMarker.label}`;
+                const textX = Math.min(x + 4, width - ctx.measureText(text).width - 4);
+                ctx.fillText(text, textX, 30);
+            }
+        }
+
+        // EQ curve on top of the bars
+        this.lastBands = bands;
+        this.drawFilterOverlay();
+
+        // Draw labels: lower edge (Hz) of a few evenly spaced bars
         ctx.fillStyle = '#ffffff';
         ctx.font = '10px monospace';
-        ctx.fillText('Bass', 5, height - 5);
-        ctx.fillText('Treble', width - 40, height - 5);
+        const labelCount = 5;
+        for (let i = 0; i < labelCount && bands.length > 0; i++) {
+            const bandIndex = Math.floor((i / labelCount) * bands.length);
+            ctx.fillText(formatFrequency(bands[bandIndex].lowHz), bandIndex * barWidth + 2, height - 5);
+        }
+        if (bands.length > 0) {
+            ctx.fillText(`${formatFrequency(bands[bands.length - 1].highHz)} Hz`, width - 50, height - 5);
+        }
     }
 }
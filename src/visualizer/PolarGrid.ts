@@ -1,7 +1,22 @@
 import * as THREE from 'three';
+import {
+    DOUBLE_RING_GAP,
+    HELIX_HEIGHT,
+    HELIX_TURNS,
+    LINE_LENGTH,
+    SPIRAL_TURNS,
+    helixPoint,
+    spiralPoint,
+    type BarLayout
+} from './BarLayouts';
 
-// PolarGrid: Visualizes the polar coordinate system in 3D
-// This helps understand how we convert from polar (r, theta) to cartesian (x, z)
+// Most spokes or ticks the newer layouts' guides draw (thousands of bars would make a
+// solid disc). The plain ring keeps one spoke per bar.
+const MAX_GUIDE_DIVISIONS = 64;
+
+// PolarGrid: Visualizes the coordinate system behind the current bar layout in 3D
+// For the ring this is the polar grid: how we convert from polar (r, theta) to cartesian (x, z).
+// The other layouts get their own guide (axis, spiral, sphere, cylinder).
 export class PolarGrid {
     private group: THREE.Group;
 
@@ -10,10 +25,13 @@ export class PolarGrid {
         scene.add(this.group);
     }
 
-    create(radius: number, divisions: number) {
+    create(radius: number, divisions: number, layout: BarLayout = 'ring') {
         // Clear existing grid
         while (this.group.children.length > 0) {
-            this.group.remove(this.group.children[0]);
+            const line = this.group.children[0] as THREE.Line;
+            this.group.remove(line);
+            line.geometry.dispose();
+            (line.material as THREE.Material).dispose(); // Shared: disposing again is harmless
         }
 
         const material = new THREE.LineBasicMaterial({
@@ -21,41 +39,135 @@ export class PolarGrid {
             transparent: true,
             opacity: 0.5
         });
+        if (layout !== 'ring') divisions = Math.min(divisions, MAX_GUIDE_DIVISIONS);
 
+        switch (layout) {
+            case 'line':
+                this.createAxis(radius, divisions, material);
+                break;
+            case 'spiral':
+                this.createSpiral(radius, divisions, material);
+                break;
+            case 'sphere':
+                this.createSphere(radius, material);
+                break;
+            case 'helix':
+                this.createCylinder(radius, divisions, material);
+                break;
+            case 'double ring':
+                this.createPolar(radius, divisions, 0, material);
+                this.createPolar(radius, divisions, -DOUBLE_RING_GAP, material);
+                break;
+            default:
+                this.createPolar(radius, divisions, 0, material);
+        }
+    }
+
+    // Polar grid: concentric circles (r) and spokes (θ) at height y
+    private createPolar(radius: number, divisions: number, y: number, material: THREE.Material) {
         // Create concentric circles (radius lines)
         const radiusSteps = 5;
         for (let i = 1; i <= radiusSteps; i++) {
-            const r = (radius / radiusSteps) * i;
-            const points = [];
-
-            for (let j = 0; j <= divisions; j++) {
-                const theta = (j / divisions) * Math.PI * 2;
-                const x = r * Math.cos(theta);
-                const z = r * Math.sin(theta);
-                points.push(new THREE.Vector3(x, 0, z));
-            }
-
-            const geometry = new THREE.BufferGeometry().setFromPoints(points);
-            const circle = new THREE.Line(geometry, material);
-            this.group.add(circle);
+            this.addCircle((radius / radiusSteps) * i, y, material);
         }
 
         // Create radial lines (angle divisions)
         for (let i = 0; i < divisions; i++) {
             const theta = (i / divisions) * Math.PI * 2;
-            const points = [
+            this.addLine([
+                new THREE.Vector3(0, y, 0),
+                new THREE.Vector3(radius * Math.cos(theta), y, radius * Math.sin(theta))
+            ], material);
+        }
+    }
+
+    // Cartesian axis: the x axis with evenly spaced ticks, like a ruler
+    private createAxis(radius: number, divisions: number, material: THREE.Material) {
+        const halfLength = (LINE_LENGTH * radius) / 2;
+        this.addLine([new THREE.Vector3(-halfLength, 0, 0), new THREE.Vector3(halfLength, 0, 0)], material);
+        for (let i = 0; i <= divisions; i++) {
+            const x = -halfLength + (i / divisions) * 2 * halfLength;
+            this.addLine([new THREE.Vector3(x, 0, -0.5), new THREE.Vector3(x, 0, 0.5)], material);
+        }
+    }
+
+    // The spiral the bars follow, plus spokes showing θ keeps turning past 2π
+    private createSpiral(radius: number, divisions: number, material: THREE.Material) {
+        const steps = SPIRAL_TURNS * 128;
+        const points = [];
+        for (let i = 0; i <= steps; i++) {
+            points.push(spiralPoint(i / steps, radius));
+        }
+        this.addLine(points, material);
+
+        const spokes = Math.min(divisions, 16);
+        for (let i = 0; i < spokes; i++) {
+            const theta = (i / spokes) * Math.PI * 2;
+            this.addLine([
                 new THREE.Vector3(0, 0, 0),
-                new THREE.Vector3(
-                    radius * Math.cos(theta),
-                    0,
-                    radius * Math.sin(theta)
-                )
-            ];
-
-            const geometry = new THREE.BufferGeometry().setFromPoints(points);
-            const line = new THREE.Line(geometry, material);
-            this.group.add(line);
+                new THREE.Vector3(radius * Math.cos(theta), 0, radius * Math.sin(theta))
+            ], material);
+        }
+    }
+
+    // Spherical coordinates: lines of latitude (polar angle) and longitude (azimuth)
+    private createSphere(radius: number, material: THREE.Material) {
+        const latitudes = 8;
+        for (let i = 1; i < latitudes; i++) {
+            const polar = (i / latitudes) * Math.PI;
+            this.addCircle(radius * Math.sin(polar), radius * Math.cos(polar), material);
         }
+
+        const longitudes = 12;
+        for (let i = 0; i < longitudes; i++) {
+            const azimuth = (i / longitudes) * Math.PI * 2;
+            const points = [];
+            for (let j = 0; j <= 32; j++) {
+                const polar = (j / 32) * Math.PI;
+                points.push(new THREE.Vector3(
+                    radius * Math.sin(polar) * Math.cos(azimuth),
+                    radius * Math.cos(polar),
+                    radius * Math.sin(polar) * Math.sin(azimuth)
+                ));
+            }
+            this.addLine(points, material);
+        }
+    }
+
+    // Cylindrical coordinates: the cylinder the helix winds around, and the helix itself
+    private createCylinder(radius: number, divisions: number, material: THREE.Material) {
+        const height = HELIX_HEIGHT * radius;
+        this.addCircle(radius, 0, material);
+        this.addCircle(radius, height, material);
+
+        const uprights = Math.min(divisions, 16);
+        for (let i = 0; i < uprights; i++) {
+            const theta = (i / uprights) * Math.PI * 2;
+            const x = radius * Math.cos(theta);
+            const z = radius * Math.sin(theta);
+            this.addLine([new THREE.Vector3(x, 0, z), new THREE.Vector3(x, height, z)], material);
+        }
+
+        const steps = HELIX_TURNS * 64;
+        const points = [];
+        for (let i = 0; i <= steps; i++) {
+            points.push(helixPoint(i / steps, radius));
+        }
+        this.addLine(points, material);
+    }
+
+    private addCircle(r: number, y: number, material: THREE.Material) {
+        const points = [];
+        for (let j = 0; j <= 64; j++) {
+            const theta = (j / 64) * Math.PI * 2;
+            points.push(new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta)));
+        }
+        this.addLine(points, material);
+    }
+
+    private addLine(points: THREE.Vector3[], material: THREE.Material) {
+        const geometry = new THREE.BufferGeometry().setFromPoints(points);
+        this.group.add(new THREE.Line(geometry, material));
     }
 
     show() {
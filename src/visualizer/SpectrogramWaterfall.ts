@@ -0,0 +1,233 @@
+import * as THREE from 'three';
+import { findBandIndex, formatFrequency, type FrequencyBand } from '../audio/FrequencyScale';
+
+// SpectrogramWaterfall: The spectrum over time as a terrain
+// X = frequency (one column per bar, on the chosen frequency scale)
+// Z = time (older rows further away, the newest at the front edge)
+// Y and colour = level (0-1)
+//
+// Live: new rows enter at the front and the landscape scrolls back as audio plays.
+// Whole track: the offline spectrogram of a file as one static landscape, with a
+// playhead line moving over it.
+const WIDTH = 40;
+const DEPTH = 40;
+const HEIGHT = 8;
+export const WATERFALL_LIVE_ROWS = 192;
+// Most rows the whole-track landscape uses (longer tracks are reduced to this)
+export const WATERFALL_MAX_TRACK_ROWS = 1024;
+const LABEL_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+// Heat map: deep blue (quiet) through green and yellow to red (loud), as a lookup
+// table because a live terrain recolours ~200k vertices per frame
+const COLOR_STEPS = 256;
+const HEAT_MAP = (() => {
+    const table = new Float32Array(COLOR_STEPS * 3);
+    const color = new THREE.Color();
+    for (let i = 0; i < COLOR_STEPS; i++) {
+        const level = i / (COLOR_STEPS - 1);
+        color.setHSL(0.66 * (1 - level), 1, 0.1 + level * 0.45);
+        table.set([color.r, color.g, color.b], i * 3);
+    }
+    return table;
+})();
+
+export type WaterfallView = 'live' | 'whole track';
+
+export class SpectrogramWaterfall {
+    private group: THREE.Group;
+    private terrain: THREE.Mesh | null = null;
+    private labels: THREE.Group;
+    private playhead: THREE.Mesh;
+    private levels = new Float32Array(0); // rows × columns, row 0 = oldest
+    private rows: number = 0;
+    private columns: number = 0;
+    private dirty: boolean = false;
+
+    constructor(scene: THREE.Scene) {
+        this.group = new THREE.Group();
+        this.group.visible = false;
+        scene.add(this.group);
+
+        this.labels = new THREE.Group();
+        this.group.add(this.labels);
+
+        // Thin glowing wall across the terrain at the current time
+        this.playhead = new THREE.Mesh(
+            new THREE.PlaneGeometry(WIDTH, HEIGHT + 1),
+            new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.25, side: THREE.DoubleSide })
+        );
+        this.playhead.position.y = (HEIGHT + 1) / 2;
+        this.playhead.visible = false;
+        this.group.add(this.playhead);
+    }
+
+    // Empty scrolling terrain for live rows (call again when the bars change)
+    createLive(bands: FrequencyBand[]) {
+        this.createTerrain(WATERFALL_LIVE_ROWS, bands);
+        this.playhead.visible = false;
+    }
+
+    // Static landscape: `levels` holds `rows` rows of bands.length values, oldest first
+    setTrack(levels: Float32Array, rows: number, bands: FrequencyBand[]) {
+        this.createTerrain(rows, bands);
+        this.levels.set(levels.subarray(0, this.levels.length));
+        this.dirty = true;
+    }
+
+    // Add one row at the front; everything else moves one row back
+    pushRow(row: Float32Array) {
+        if (this.rows === 0) return;
+        this.levels.copyWithin(0, this.columns);
+        this.levels.set(row.subarray(0, this.columns), (this.rows - 1) * this.columns);
+        this.dirty = true;
+    }
+
+    // Playhead position along the track (0-1), or null to hide it
+    setPlayhead(progress: number | null) {
+        this.playhead.visible = progress !== null && this.rows > 0;
+        if (progress !== null) {
+            this.playhead.position.z = -DEPTH / 2 + Math.min(Math.max(progress, 0), 1) * DEPTH;
+        }
+    }
+
+    // Write changed levels into the geometry (once per rendered frame at most)
+    update() {
+        if (!this.dirty || !this.terrain) return;
+        this.dirty = false;
+
+        const geometry = this.terrain.geometry;
+        const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+        const colors = geometry.getAttribute('color') as THREE.BufferAttribute;
+        const positionArray = positions.array as Float32Array;
+        const colorArray = colors.array as Float32Array;
+
+        for (let i = 0; i < this.levels.length; i++) {
+            const level = Math.min(Math.max(this.levels[i], 0), 1);
+            positionArray[i * 3 + 1] = level * HEIGHT;
+            const step = Math.round(level * (COLOR_STEPS - 1)) * 3;
+            colorArray[i * 3] = HEAT_MAP[step];
+            colorArray[i * 3 + 1] = HEAT_MAP[step + 1];
+            colorArray[i * 3 + 2] = HEAT_MAP[step + 2];
+        }
+        positions.needsUpdate = true;
+        colors.needsUpdate = true;
+        geometry.computeBoundingSphere();
+    }
+
+    show() {
+        this.group.visible = true;
+    }
+
+    hide() {
+        this.group.visible = false;
+    }
+
+    // Grid of rows × columns vertices on the floor, two triangles per cell
+    private createTerrain(rows: number, bands: FrequencyBand[]) {
+        const columns = bands.length;
+        if (this.terrain && rows === this.rows && columns === this.columns) {
+            this.levels.fill(0);
+            this.dirty = true;
+            this.createLabels(bands);
+            return;
+        }
+        this.clearTerrain();
+
+        this.rows = rows;
+        this.columns = columns;
+        this.levels = new Float32Array(rows * columns);
+
+        const positions = new Float32Array(rows * columns * 3);
+        for (let row = 0; row < rows; row++) {
+            const z = -DEPTH / 2 + (rows > 1 ? row / (rows - 1) : 1) * DEPTH;
+            for (let column = 0; column < columns; column++) {
+                const index = (row * columns + column) * 3;
+                positions[index] = -WIDTH / 2 + (columns > 1 ? column / (columns - 1) : 0.5) * WIDTH;
+                positions[index + 2] = z;
+            }
+        }
+
+        // A whole track can reach a million vertices, so the index goes straight into a typed array
+        const indices = new Uint32Array(Math.max(rows - 1, 0) * Math.max(columns - 1, 0) * 6);
+        let offset = 0;
+        for (let row = 0; row < rows - 1; row++) {
+            for (let column = 0; column < columns - 1; column++) {
+                const a = row * columns + column;
+                const b = a + columns;
+                indices[offset++] = a;
+                indices[offset++] = b;
+                indices[offset++] = a + 1;
+                indices[offset++] = a + 1;
+                indices[offset++] = b;
+                indices[offset++] = b + 1;
+            }
+        }
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(rows * columns * 3), 3));
+        geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+
+        // Unlit: the colour already encodes the level, and normals would need
+        // recomputing for every scrolled row
+        const material = new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide });
+        this.terrain = new THREE.Mesh(geometry, material);
+        this.group.add(this.terrain);
+        this.dirty = true;
+
+        this.createLabels(bands);
+    }
+
+    // Frequency ticks along the front edge, at the bars that contain them
+    // (on a linear scale the low ones crowd together, so overlapping ticks are skipped)
+    private createLabels(bands: FrequencyBand[]) {
+        this.clearLabels();
+        const columns = bands.length;
+        let lastX = -Infinity;
+        LABEL_FREQUENCIES.forEach(hz => {
+            const column = findBandIndex(bands, hz);
+            if (column < 0) return;
+            const x = -WIDTH / 2 + (columns > 1 ? column / (columns - 1) : 0.5) * WIDTH;
+            if (x - lastX < 3) return;
+            lastX = x;
+            const label = this.createLabel(`${formatFrequency(hz)}Hz`);
+            label.position.set(x, 0.3, DEPTH / 2 + 1.5);
+            this.labels.add(label);
+        });
+    }
+
+    private createLabel(text: string): THREE.Sprite {
+        const canvas = document.createElement('canvas');
+        canvas.width = 128;
+        canvas.height = 64;
+        const ctx = canvas.getContext('2d')!;
+        ctx.font = 'bold 28px monospace';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#00ffff';
+        ctx.fillText(text, 64, 32);
+
+        const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true }));
+        sprite.scale.set(2.4, 1.2, 1);
+        return sprite;
+    }
+
+    private clearLabels() {
+        while (this.labels.children.length > 0) {
+            const label = this.labels.children[0] as THREE.Sprite;
+            this.labels.remove(label);
+            label.material.map?.dispose();
+            label.material.dispose();
+        }
+    }
+
+    private clearTerrain() {
+        if (!this.terrain) return;
+        this.group.remove(this.terrain);
+        this.terrain.geometry.dispose();
+        (this.terrain.material as THREE.Material).dispose();
+        this.terrain = null;
+        this.rows = 0;
+        this.columns = 0;
+    }
+}
@@ -1,87 +1,282 @@
 import * as THREE from 'three';
+import { computeBarPlacements, type BarLayout, type BarPlacement } from './BarLayouts';
+
+// Bar levels live in a float texture this many texels wide (as many rows as needed),
+// which keeps even thousands of bars under WebGL2's minimum texture size
+const LEVEL_TEXTURE_WIDTH = 1024;
+// Height of a full-scale bar (level 1) and of a silent one
+const MAX_BAR_HEIGHT = 15;
+const MIN_BAR_HEIGHT = 0.1;
+const CAP_HEIGHT = 0.15;
+// Seconds a layout change takes to morph into the new arrangement
+const LAYOUT_TRANSITION_TIME = 0.8;
+// Instances per bar to allocate: the double ring draws every bar twice
+const MAX_COPIES_PER_BAR = 2;
+
+// Texture channels: r = bar level, g = peak-hold cap, b = max-hold ghost
+type LevelChannel = 'r' | 'g' | 'b';
+const CHANNEL_OFFSETS: Record<LevelChannel, number> = { r: 0, g: 1, b: 2 };
+
+// Patch a built-in material so each instance reads its own texel:
+// 'stretch' scales the unit-high box to the level (bars, ghost ring),
+// 'lift' moves a flat box up to sit on top of it (peak caps).
+// With `glow`, loud instances shine in their own colour (emissive = colour × level).
+function patchLevelShader(
+    material: THREE.Material,
+    texture: THREE.DataTexture,
+    channel: LevelChannel,
+    placement: 'stretch' | 'lift',
+    glow: boolean
+) {
+    const height = `(vBarLevel * ${MAX_BAR_HEIGHT.toFixed(1)} + ${MIN_BAR_HEIGHT.toFixed(1)})`;
+    material.onBeforeCompile = shader => {
+        shader.uniforms.levelTexture = { value: texture };
+        shader.vertexShader = shader.vertexShader
+            .replace('#include <common>', `#include <common>
+uniform sampler2D levelTexture;
+varying float vBarLevel;`)
+            .replace('#include <begin_vertex>', `#include <begin_vertex>
+vBarLevel = texelFetch(levelTexture, ivec2(gl_InstanceID % ${LEVEL_TEXTURE_WIDTH}, gl_InstanceID / ${LEVEL_TEXTURE_WIDTH}), 0).${channel};
+${placement === 'stretch' ? `transformed.y *= ${height};` : `transformed.y += ${height};`}`);
+        if (glow) {
+            shader.fragmentShader = shader.fragmentShader
+                .replace('#include <common>', `#include <common>
+varying float vBarLevel;`)
+                .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+totalEmissiveRadiance = vColor.rgb * vBarLevel;`);
+        }
+    };
+    // three.js keys its program cache on onBeforeCompile.toString(), which is the same
+    // for every patched material: tell the variants apart so none reuses another's GLSL
+    material.customProgramCacheKey = () => `${channel}|${placement}|${glow}`;
+}
 
 export class Visualizer {
-    public meshes: THREE.Mesh[] = [];
     private group: THREE.Group;
+    private bars: THREE.InstancedMesh | null = null;
+    private peakCaps: THREE.InstancedMesh | null = null;
+    private maxHoldGhosts: THREE.InstancedMesh | null = null;
+    private levelTexture: THREE.DataTexture | null = null;
+    private barCount: number = 0;
+    private pulseLevel: number = 0;
+    private radius: number = 0;
+    private layout: BarLayout = 'ring';
+    // Layout transition: from the placements at the moment of the change to the new ones
+    private fromPlacements: BarPlacement[] = [];
+    private toPlacements: BarPlacement[] = [];
+    private transition: number = 1; // 0-1, 1 = settled
 
     constructor(scene: THREE.Scene) {
         this.group = new THREE.Group();
         scene.add(this.group);
     }
 
-    createVisualizerBars(count: number, radius: number) {
+    // Performance Check: Instancing
+    // One Mesh per bar means one draw call per bar: at 1024 bars the CPU spends the
+    // frame talking to the GPU. An InstancedMesh draws every bar in ONE call; each
+    // instance only differs by its matrix (position on the ring) and colour.
+    // The heights don't even go through the CPU-side matrices: the levels are
+    // uploaded as one texture per frame and the vertex shader stretches each bar.
+    createVisualizerBars(count: number, radius: number, layout: BarLayout = this.layout) {
         // Clear existing bars first
         this.clear();
 
-        // 1. Geometry
-        // We use BoxGeometry for each bar.
-        // Initial size: width, height, depth.
-        // We'll scale the Y-axis (height) dynamically.
-        // Note: To make scaling "grow up" from the floor, we would typically translate geometry,
-        // but here we can just position the mesh at y = scale/2, or easier: scale usually happens from center.
-        // For simplicity in this prompt, we scale from center and let it grow both ways, 
-        // OR we can translate the geometry so the pivot is at the bottom.
-        // Let's stick to simple center scaling but maybe shift positions up by scale/2 in the loop?
-        // Actually, simpler: just let it grow from center (it will go below floor).
-        // Better Optimization Tip: Translate the geometry buffer so the origin is at the bottom (y=0).
+        // Translate the geometry so the origin is at the bottom (y = 0):
+        // scaling y then grows the bar up from the floor
         const geometry = new THREE.BoxGeometry(0.5, 1, 0.5);
-        // Shift vertices so that y=0 is the bottom.
         geometry.translate(0, 0.5, 0);
 
-        // 2. Material
-        // Using MeshStandardMaterial for nice lighting response.
-        // We clone for each bar later if we want unique dynamic colors per bar without attributes (simplest way for now).
-        // Or we can use vertex colors, but individual materials are easier for beginners to grasp "one color per bar".
-        const baseMaterial = new THREE.MeshStandardMaterial({
+        // Every instance has its own texel; mirrored copies get the same levels (writeChannel)
+        const capacity = count * MAX_COPIES_PER_BAR;
+        const textureHeight = Math.ceil(capacity / LEVEL_TEXTURE_WIDTH);
+        this.levelTexture = new THREE.DataTexture(
+            new Float32Array(LEVEL_TEXTURE_WIDTH * textureHeight * 4),
+            LEVEL_TEXTURE_WIDTH,
+            textureHeight,
+            THREE.RGBAFormat,
+            THREE.FloatType
+        );
+        this.levelTexture.needsUpdate = true;
+
+        const material = new THREE.MeshStandardMaterial({
             color: 0xffffff,
             roughness: 0.1,
             metalness: 0.6
         });
+        patchLevelShader(material, this.levelTexture, 'r', 'stretch', true);
+        this.bars = new THREE.InstancedMesh(geometry, material, capacity);
+
+        // Peak caps: thin slabs floating on top of each bar's recent maximum
+        const capGeometry = new THREE.BoxGeometry(0.5, CAP_HEIGHT, 0.5);
+        capGeometry.translate(0, CAP_HEIGHT / 2, 0);
+        const capMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff });
+        patchLevelShader(capMaterial, this.levelTexture, 'g', 'lift', false);
+        this.peakCaps = new THREE.InstancedMesh(capGeometry, capMaterial, capacity);
+        this.peakCaps.visible = false;
+
+        // Max-hold ghost: see-through bars at the highest level reached so far
+        const ghostMaterial = new THREE.MeshBasicMaterial({
+            color: 0xffffff,
+            transparent: true,
+            opacity: 0.15,
+            depthWrite: false
+        });
+        patchLevelShader(ghostMaterial, this.levelTexture, 'b', 'stretch', false);
+        this.maxHoldGhosts = new THREE.InstancedMesh(geometry, ghostMaterial, capacity);
+        this.maxHoldGhosts.visible = false;
+
+        const layers = [this.bars, this.peakCaps, this.maxHoldGhosts];
+        // The shader changes the heights, so the CPU-side bounds are wrong: never cull
+        layers.forEach(layer => layer.frustumCulled = false);
+        this.barCount = count;
+        this.radius = radius;
+        this.layout = layout;
 
-        // 3. Distribution Loop
-        for (let i = 0; i < count; i++) {
-            // We clone the material so each bar can have its own color
-            const material = baseMaterial.clone();
-            const bar = new THREE.Mesh(geometry, material);
-
-            // Theory Check: Polar to Cartesian Coordinates
-            // We want to arrange bars in a circle.
-            // Polar coordinates describe a point by an angle (theta) and a distance (radius).
-            // Cartesian coordinates (x, z) are needed for Three.js.
-            //
-            // Conversion Formula:
-            // x = r * cos(theta)
-            // z = r * sin(theta)
-            //
-            // Calculate the angle for this specific bar.
-            // We divide the full circle (2 * PI radians) by the total count.
-            const theta = (i / count) * Math.PI * 2;
-
-            const x = radius * Math.cos(theta);
-            const z = radius * Math.sin(theta);
-
-            // Position the bar
-            bar.position.set(x, 0, z);
-
-            // Position them in the circle facing outward (lookAt center)
-            bar.lookAt(0, 0, 0);
-
-            // Add to group and array
-            this.group.add(bar);
-            this.meshes.push(bar);
+        // Theory Check: Coordinate Systems
+        // The default ring converts polar coordinates (angle θ, radius r) to the
+        // Cartesian (x, z) Three.js needs: x = r·cos(θ), z = r·sin(θ), with θ = i/n · 2π.
+        // The other layouts use other systems, see BarLayouts.
+        this.toPlacements = computeBarPlacements(layout, count, radius);
+        this.fromPlacements = this.toPlacements;
+        this.transition = 1;
+        this.applyPlacements(1);
+
+        const color = new THREE.Color();
+        const capColor = new THREE.Color();
+        for (let i = 0; i < capacity; i++) {
+            // HSV Color Mapping: the hue walks once around the colour wheel (copies match)
+            const hue = (i % count) / count;
+            color.setHSL(hue, 1.0, 0.5);
+            this.bars.setColorAt(i, color);
+            this.maxHoldGhosts.setColorAt(i, color);
+            this.peakCaps.setColorAt(i, capColor.setHSL(hue, 1.0, 0.8));
         }
+
+        layers.forEach(layer => this.group.add(layer));
     }
 
-    clear() {
-        this.meshes.forEach(mesh => {
-            mesh.geometry.dispose();
-            if (Array.isArray(mesh.material)) {
-                mesh.material.forEach(m => m.dispose());
-            } else {
-                (mesh.material as THREE.Material).dispose();
+    // Morph into another layout over LAYOUT_TRANSITION_TIME (driven by updateLayout)
+    setLayout(layout: BarLayout) {
+        if (layout === this.layout || this.barCount === 0) return;
+        this.fromPlacements = this.getCurrentPlacements();
+        this.toPlacements = computeBarPlacements(layout, this.barCount, this.radius);
+        this.layout = layout;
+        this.transition = 0;
+    }
+
+    getLayout(): BarLayout {
+        return this.layout;
+    }
+
+    updateLayout(deltaTime: number) {
+        if (this.transition >= 1) return;
+        this.transition = Math.min(this.transition + deltaTime / LAYOUT_TRANSITION_TIME, 1);
+        // Smoothstep easing: starts and ends gently
+        const t = this.transition;
+        this.applyPlacements(t * t * (3 - 2 * t));
+    }
+
+    // Where every bar is right now (mid-transition too), so a new change starts from there
+    private getCurrentPlacements(): BarPlacement[] {
+        if (this.transition >= 1) return this.toPlacements;
+        const matrix = new THREE.Matrix4();
+        const scale = new THREE.Vector3();
+        const placements: BarPlacement[] = [];
+        for (let i = 0; i < this.bars!.count; i++) {
+            this.bars!.getMatrixAt(i, matrix);
+            const placement = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() };
+            matrix.decompose(placement.position, placement.quaternion, scale);
+            placements.push(placement);
+        }
+        return placements;
+    }
+
+    // Blend between the two placement sets: positions move in straight lines,
+    // orientations turn along the shortest arc (slerp). When only one set has the
+    // double ring's mirrored copies, the other side's copies start (or end) on
+    // their original bar, so the lower ring grows out of the upper one.
+    private applyPlacements(amount: number) {
+        const layers = [this.bars, this.peakCaps, this.maxHoldGhosts];
+        const matrix = new THREE.Object3D();
+        const instanceCount = amount >= 1 ?
+            this.toPlacements.length :
+            Math.max(this.fromPlacements.length, this.toPlacements.length);
+        for (let i = 0; i < instanceCount; i++) {
+            const from = this.fromPlacements[i % this.fromPlacements.length];
+            const to = this.toPlacements[i % this.toPlacements.length];
+            matrix.position.lerpVectors(from.position, to.position, amount);
+            matrix.quaternion.slerpQuaternions(from.quaternion, to.quaternion, amount);
+            matrix.updateMatrix();
+            layers.forEach(layer => layer?.setMatrixAt(i, matrix.matrix));
+        }
+        layers.forEach(layer => {
+            if (!layer) return;
+            layer.count = instanceCount;
+            layer.instanceMatrix.needsUpdate = true;
+        });
+    }
+
+    // Levels (0-1, one per bar) for this frame: one texture upload for the whole ring
+    update(levels: ArrayLike<number>) {
+        this.writeChannel('r', levels);
+    }
+
+    // Peak-hold caps and max-hold ghost ring (0-1 per bar, null hides the layer).
+    // Call before update(), which uploads the texture.
+    setHoldLevels(peaks: ArrayLike<number> | null, maxima: ArrayLike<number> | null) {
+        if (this.peakCaps) this.peakCaps.visible = peaks !== null;
+        if (this.maxHoldGhosts) this.maxHoldGhosts.visible = maxima !== null;
+        if (peaks) this.writeChannel('g', peaks);
+        if (maxima) this.writeChannel('b', maxima);
+    }
+
+    private writeChannel(channel: LevelChannel, values: ArrayLike<number>) {
+        if (!this.levelTexture) return;
+        const data = this.levelTexture.image.data as Float32Array;
+        const offset = CHANNEL_OFFSETS[channel];
+        for (let i = 0; i < this.barCount; i++) {
+            const value = values[i] || 0;
+            for (let copy = 0; copy < MAX_COPIES_PER_BAR; copy++) {
+                data[(copy * this.barCount + i) * 4 + offset] = value;
             }
-            this.group.remove(mesh);
+        }
+        this.levelTexture.needsUpdate = true;
+    }
+
+    setVisible(visible: boolean) {
+        this.group.visible = visible;
+    }
+
+    getBarCount(): number {
+        return this.barCount;
+    }
+
+    // Beat-reactive pulse: push the ring outward, updatePulse() lets it settle back
+    pulse(strength: number = 1) {
+        this.pulseLevel = Math.max(this.pulseLevel, strength);
+    }
+
+    updatePulse(deltaTime: number) {
+        // Exponential decay: about 1/8 s to fall to a third
+        this.pulseLevel *= Math.exp(-deltaTime * 8);
+        const scale = 1 + this.pulseLevel * 0.15;
+        this.group.scale.set(scale, 1, scale);
+    }
+
+    clear() {
+        // (The ghost ring shares the bars' geometry; disposing it twice is harmless)
+        [this.bars, this.peakCaps, this.maxHoldGhosts].forEach(layer => {
+            if (!layer) return;
+            this.group.remove(layer);
+            layer.geometry.dispose();
+            (layer.material as THREE.Material).dispose();
+            layer.dispose();
         });
-        this.meshes = [];
+        this.bars = null;
+        this.peakCaps = null;
+        this.maxHoldGhosts = null;
+        this.levelTexture?.dispose();
+        this.levelTexture = null;
+        this.barCount = 0;
     }
 }
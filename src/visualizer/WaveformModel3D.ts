@@ -1,15 +1,118 @@
 import * as THREE from 'three';
+import type { LoopRegion } from '../audio/AudioController';
+import type { RhythmAnalysis } from '../audio/BeatDetector';
+import { LOUDNESS_SEGMENT, type LoudnessAnalysis } from '../audio/LoudnessMeter';
+import type { Chromagram } from '../audio/Chroma';
+import { PeakPyramid, type PeakLevel } from '../audio/PeakPyramid';
+import { HIGH_BAND_EDGE, LOW_BAND_EDGE, type SpectralFeatures } from '../audio/SpectralFeatures';
+
+// How multichannel audio is laid out on the model:
+// stacked  = one lane per channel, top to bottom (L above R)
+// mirrored = channel 1 drawn upward, channel 2 drawn downward from a shared axis (stereo only)
+export type ChannelLayout = 'stacked' | 'mirrored';
+
+// What the envelope colour shows:
+// channel            = one tint per channel (L cyan, R magenta, ...)
+// spectral centroid  = dark (red) to bright (violet) sound, on a log frequency scale
+// band energy        = low / mid / high energy as red / green / blue
+// zero-crossing rate = tonal and low (blue) to noisy and hissy (yellow)
+export type WaveformColoring = 'channel' | 'spectral centroid' | 'band energy' | 'zero-crossing rate';
+
+export const WAVEFORM_COLORINGS: WaveformColoring[] = ['channel', 'spectral centroid', 'band energy', 'zero-crossing rate'];
+
+// Lane colors per channel (RGB 0-1): cyan, magenta, yellow, green
+const CHANNEL_COLORS: [number, number, number][] = [
+    [0, 1, 1],
+    [1, 0, 1],
+    [1, 1, 0],
+    [0, 1, 0]
+];
+
+// Colour scale ends: centroid 100 Hz → 8 kHz (log), ZCR 0 → 0.25 crossings per sample
+const CENTROID_MIN_HZ = 100;
+const CENTROID_MAX_HZ = 8000;
+const MAX_ZERO_CROSSING_RATE = 0.25;
+const SILENCE_GREY = 0.3;
+
+// Spectral colour scales (feature value -> colour), shared by the envelope and the legend
+function centroidColor(hz: number, target: THREE.Color): THREE.Color {
+    const position = Math.log(Math.max(hz, CENTROID_MIN_HZ) / CENTROID_MIN_HZ) / Math.log(CENTROID_MAX_HZ / CENTROID_MIN_HZ);
+    return target.setHSL(Math.min(position, 1) * 0.75, 1, 0.5);
+}
+
+function zeroCrossingColor(rate: number, target: THREE.Color): THREE.Color {
+    const position = Math.min(rate / MAX_ZERO_CROSSING_RATE, 1);
+    return target.setHSL(0.66 - position * 0.5, 1, 0.5);
+}
+
+// Balance between the bands: the strongest band at full brightness
+function bandEnergyColor(low: number, mid: number, high: number, target: THREE.Color): THREE.Color {
+    const max = Math.max(low, mid, high);
+    return max > 0 ? target.setRGB(low / max, mid / max, high / max) : target.setScalar(SILENCE_GREY);
+}
+
+// Level of detail: aim for about one envelope bucket per screen pixel, but never
+// draw more than this many buckets per channel in the detailed stretch. When the
+// whole track at that resolution would need more, only the visible stretch (plus a
+// margin) is built from the finer level; the rest stays an overview.
+const MAX_RENDER_BUCKETS = 32768;
+const OVERVIEW_BUCKETS = 8192;
+const PIXELS_PER_BUCKET = 1;
+// The detailed stretch covers this many times the visible width, so panning a little
+// doesn't rebuild it
+const DETAIL_MARGIN = 3;
+// Keep the current level while it has up to this many times the buckets needed,
+// so small camera moves near a boundary don't rebuild the geometry back and forth
+const LOD_HYSTERESIS = 2.5;
+// Silence still shows as a thin band
+const MIN_ENVELOPE_THICKNESS = 0.02;
+// Time grid spacing (seconds): the finest of these that gives at most MAX_GRID_TICKS lines
+const GRID_TICK_INTERVALS = [1, 5, 10, 30, 60, 300, 600];
+const MAX_GRID_TICKS = 120;
+
+// A run of buckets [first, last) of one pyramid level
+interface BucketRange {
+    level: PeakLevel;
+    first: number;
+    last: number;
+}
 
 // WaveformModel3D: Dynamic animated waveform with playback visualization
 export class WaveformModel3D {
     private group: THREE.Group;
-    private waveformLine: THREE.Line | null = null;
+    private envelopeMeshes: THREE.Mesh[] = [];
+    // Min/max/RMS pyramids per channel, kept per decoded buffer
+    private pyramids: PeakPyramid[] = [];
+    private pyramidCache = new WeakMap<AudioBuffer, PeakPyramid[]>();
+    private detailLevel: number = -1;
+    // Part of the track (0-1) drawn at detailLevel; the rest uses the overview level
+    private detailStart: number = 0;
+    private detailEnd: number = 1;
+    private coloring: WaveformColoring = 'channel';
+    private spectralFeatures: SpectralFeatures | null = null;
     private hitArea: THREE.Mesh | null = null;
     private progressIndicator: THREE.Mesh | null = null;
+    private loopMesh: THREE.Mesh | null = null;
+    private loopEdges: THREE.Line[] = [];
+    private loopRegion: LoopRegion | null = null;
+    private playbackRate: number = 1;
+    private rhythm: RhythmAnalysis | null = null;
+    private beatMarkers: THREE.LineSegments[] = [];
+    private beatMarkersVisible: boolean = true;
+    private loudness: LoudnessAnalysis | null = null;
+    private loudnessCurve: THREE.Line[] = [];
+    private loudnessCurveVisible: boolean = true;
+    private chromagram: Chromagram | null = null;
+    private chromaStrip: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial> | null = null;
+    private chromaStripVisible: boolean = true;
     private audioBuffer: AudioBuffer | null = null;
     private infoPanel: HTMLDivElement;
     private currentTime: number = 0;
     private spreadFactor: number = 1.0;
+    private channelLayout: ChannelLayout = 'stacked';
+    // Decoded tracks by file, so switching back to a playlist entry skips decoding
+    private decodeCache = new WeakMap<File, AudioBuffer>();
+    private loadRequest: number = 0;
     private isPlaying: boolean = false;
 
     constructor(scene: THREE.Scene) {
@@ -40,11 +143,24 @@ export class WaveformModel3D {
         return panel;
     }
 
-    async loadAudioFile(file: File, audioContext: AudioContext): Promise<void> {
+    // Resolves false when a newer loadAudioFile call took over while this one was decoding
+    // (the model then still shows the newer track, not this one)
+    async loadAudioFile(file: File, audioContext: AudioContext): Promise<boolean> {
         try {
             console.log('[WaveformModel3D] Loading audio file:', file.name);
-            const arrayBuffer = await file.arrayBuffer();
-            this.audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+            const request = ++this.loadRequest;
+            const audioBuffer = await this.decodeAudioFile(file, audioContext);
+
+            // A newer track was requested while this one was decoding
+            if (request !== this.loadRequest) return false;
+            this.audioBuffer = audioBuffer;
+            this.detailLevel = -1;
+            this.detailStart = 0;
+            this.detailEnd = 1;
+            this.spectralFeatures = null;
+            this.rhythm = null;
+            this.loudness = null;
+            this.chromagram = null;
 
             console.log(`[WaveformModel3D] Audio loaded: ${this.audioBuffer.duration.toFixed(2)}s`);
 
@@ -55,68 +171,380 @@ export class WaveformModel3D {
             this.updateInfoPanel(file.name);
 
             console.log('[WaveformModel3D] Dynamic waveform ready!');
+            return true;
         } catch (err) {
             console.error('[WaveformModel3D] Error loading audio:', err);
             throw err;
         }
     }
 
+    // Decode a file (or reuse an earlier decode of the same file).
+    // Public so a playlist can warm the cache before a track is shown.
+    async decodeAudioFile(file: File, audioContext: AudioContext): Promise<AudioBuffer> {
+        const cached = this.decodeCache.get(file);
+        if (cached) {
+            console.log(`[WaveformModel3D] Using cached decode: ${file.name}`);
+            return cached;
+        }
+
+        const arrayBuffer = await file.arrayBuffer();
+        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+        this.decodeCache.set(file, audioBuffer);
+        return audioBuffer;
+    }
+
     private generateDynamicWaveform() {
         if (!this.audioBuffer) return;
 
         // Clear existing
         this.clearMeshes();
 
-        const channelData = this.audioBuffer.getChannelData(0);
+        const channelCount = this.audioBuffer.numberOfChannels;
+        const length = 60 * this.spreadFactor; // Apply spread factor
+        const amplitudeScale = 6;
 
-        // Create readable waveform with good detail
-        const targetPoints = 8000;
-        const step = Math.max(1, Math.floor(channelData.length / targetPoints));
+        // Envelope per channel, each in its own lane (level of detail picked later
+        // by updateLevelOfDetail; start with a whole-track overview)
+        this.pyramids = this.getPyramids(this.audioBuffer);
+        if (this.detailLevel < 0) {
+            this.detailLevel = this.pyramids[0].selectLevel(OVERVIEW_BUCKETS, MAX_RENDER_BUCKETS);
+        }
+        this.createEnvelopes(length, amplitudeScale);
 
-        const points: THREE.Vector3[] = [];
-        const colors: number[] = [];
+        // Add a transparent hit area for easier raycasting
+        this.createHitArea(length, amplitudeScale);
 
-        const length = 60 * this.spreadFactor; // Apply spread factor
-        const amplitudeScale = 6;
+        // Add progress indicator (moving sphere)
+        this.createProgressIndicator(length, amplitudeScale);
 
-        // Generate waveform points
-        for (let i = 0; i < channelData.length; i += step) {
-            const sample = channelData[i];
-            const progress = i / channelData.length;
+        // Add readable grid
+        this.addReadableGrid(length, amplitudeScale);
+
+        // A–B loop shading (hidden until a loop is set)
+        this.createLoopRegion(amplitudeScale);
 
-            const x = progress * length - length / 2;
-            const y = sample * amplitudeScale;
-            const z = 0;
+        // Beat and onset ticks (once the offline rhythm analysis is in)
+        this.createBeatMarkers(length, amplitudeScale);
 
-            points.push(new THREE.Vector3(x, y, z));
+        // Short-term loudness curve (once the offline loudness measurement is in)
+        this.createLoudnessCurve(length, amplitudeScale);
+
+        // Chroma-over-time strip under the timeline (once the chromagram is in)
+        this.createChromaStrip(length, amplitudeScale);
+
+        const level = this.pyramids[0].getLevel(this.detailLevel);
+        const built = Math.ceil((this.detailEnd - this.detailStart) * level.count);
+        console.log(`[WaveformModel3D] Generated ${built} of ${level.count} buckets of ${level.bucketSize} samples across ${channelCount} channel(s)`);
+    }
 
-            // Cyan to white gradient for readability
-            const intensity = 0.5 + Math.abs(sample) * 0.5;
-            colors.push(0, intensity, intensity); // Cyan tones
+    private getPyramids(buffer: AudioBuffer): PeakPyramid[] {
+        let pyramids = this.pyramidCache.get(buffer);
+        if (!pyramids) {
+            pyramids = [];
+            for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+                pyramids.push(new PeakPyramid(buffer.getChannelData(channel)));
+            }
+            this.pyramidCache.set(buffer, pyramids);
         }
+        return pyramids;
+    }
 
-        // Create main waveform line
-        const geometry = new THREE.BufferGeometry().setFromPoints(points);
-        geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    // Filled min/max envelope with the RMS core drawn over it, one pair per channel
+    // and bucket range (the detailed stretch, and the overview on either side of it)
+    private createEnvelopes(length: number, amplitudeScale: number) {
+        this.pyramids.forEach((pyramid, channel) => {
+            const lane = this.getLane(channel, amplitudeScale);
+            this.getBucketRanges(pyramid).forEach((range, index) => {
+                const colors = this.computeBucketColors(range, pyramid.sampleCount, channel);
 
-        const material = new THREE.LineBasicMaterial({
-            vertexColors: true,
-            linewidth: 3
+                // Envelope in a darker shade; the core is lifted towards white, so it reads on top
+                const envelope = this.createBand(range, pyramid.sampleCount, length, lane, 'envelope', colors, 0.55, 0);
+                const core = this.createBand(range, pyramid.sampleCount, length, lane, 'rms', colors, 0.6, 0.4);
+                // The detailed stretch (first range) sits in front where it meets the overview
+                const z = index === 0 ? 0.02 : 0;
+                envelope.position.z = z;
+                core.position.z = z + 0.01; // Just in front of the envelope
+
+                [envelope, core].forEach(mesh => {
+                    this.envelopeMeshes.push(mesh);
+                    this.group.add(mesh);
+                });
+            });
         });
+    }
 
-        this.waveformLine = new THREE.Line(geometry, material);
-        this.group.add(this.waveformLine);
+    // The detailed stretch first, then the overview buckets before and after it
+    // (each overlapping the stretch by up to one bucket, so there is no gap)
+    private getBucketRanges(pyramid: PeakPyramid): BucketRange[] {
+        const detail = pyramid.getLevel(this.detailLevel);
+        const first = Math.floor(this.detailStart * detail.count);
+        const last = Math.max(first + 1, Math.min(detail.count, Math.ceil(this.detailEnd * detail.count)));
+        const ranges: BucketRange[] = [{ level: detail, first, last }];
+        if (first === 0 && last === detail.count) return ranges;
 
-        // Add a transparent hit area for easier raycasting
-        this.createHitArea(length, amplitudeScale);
+        const overview = pyramid.getLevel(pyramid.selectLevel(OVERVIEW_BUCKETS, MAX_RENDER_BUCKETS));
+        const startSample = first * detail.bucketSize;
+        const endSample = last * detail.bucketSize;
+        if (first > 0) {
+            ranges.push({ level: overview, first: 0, last: Math.min(overview.count, Math.floor(startSample / overview.bucketSize) + 1) });
+        }
+        if (last < detail.count) {
+            ranges.push({ level: overview, first: Math.floor(endSample / overview.bucketSize), last: overview.count });
+        }
+        return ranges.filter(range => range.last > range.first);
+    }
 
-        // Add progress indicator (moving sphere)
-        this.createProgressIndicator(length, amplitudeScale);
+    // A strip of two vertices per bucket (top and bottom edge), triangulated between buckets.
+    // envelope: min..max of the samples (mirrored lanes: 0..peak magnitude)
+    // rms:      -rms..+rms around the lane centre (mirrored lanes: 0..rms)
+    private createBand(
+        range: BucketRange,
+        sampleCount: number,
+        length: number,
+        lane: { offset: number; scale: number; mirrored: boolean; direction: number },
+        kind: 'envelope' | 'rms',
+        bucketColors: Float32Array,
+        shade: number,
+        lift: number
+    ): THREE.Mesh {
+        const { level, first } = range;
+        const count = range.last - range.first;
+        const positions = new Float32Array(count * 2 * 3);
+        const colors = new Float32Array(count * 2 * 3);
+        for (let i = 0; i < count; i++) {
+            const bucket = first + i;
+            const center = Math.min((bucket + 0.5) * level.bucketSize, sampleCount);
+            const x = (center / sampleCount) * length - length / 2;
 
-        // Add readable grid
-        this.addReadableGrid(length, amplitudeScale);
+            let low: number;
+            let high: number;
+            if (kind === 'rms') {
+                high = level.rms[bucket];
+                low = lane.mirrored ? 0 : -high;
+            } else if (lane.mirrored) {
+                low = 0;
+                high = Math.max(Math.abs(level.min[bucket]), Math.abs(level.max[bucket]));
+            } else {
+                low = level.min[bucket];
+                high = level.max[bucket];
+            }
+
+            let top = lane.offset + high * lane.scale * lane.direction;
+            let bottom = lane.offset + low * lane.scale * lane.direction;
+            if (Math.abs(top - bottom) < MIN_ENVELOPE_THICKNESS) {
+                const middle = (top + bottom) / 2;
+                top = middle + MIN_ENVELOPE_THICKNESS / 2;
+                bottom = middle - MIN_ENVELOPE_THICKNESS / 2;
+            }
+            positions.set([x, top, 0, x, bottom, 0], i * 6);
+
+            for (let component = 0; component < 3; component++) {
+                const value = bucketColors[i * 3 + component] * shade + lift;
+                colors[i * 6 + component] = value;
+                colors[i * 6 + 3 + component] = value;
+            }
+        }
+
+        const indices = new Uint32Array(Math.max(count - 1, 0) * 6);
+        for (let i = 0; i < count - 1; i++) {
+            const a = i * 2;
+            indices.set([a, a + 1, a + 2, a + 1, a + 3, a + 2], i * 6);
+        }
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+        return new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide }));
+    }
+
+    // One colour per bucket (RGB 0-1). Spectral colours average every feature frame the
+    // bucket spans (a coarse bucket would otherwise show whichever frame its centre hits);
+    // silent frames are skipped, all-silent buckets stay grey.
+    private computeBucketColors(range: BucketRange, sampleCount: number, channel: number): Float32Array {
+        const { level, first } = range;
+        const count = range.last - range.first;
+        const colors = new Float32Array(count * 3);
+        const features = this.spectralFeatures;
+        if (this.coloring === 'channel' || !features || !this.audioBuffer) {
+            const [r, g, b] = CHANNEL_COLORS[channel % CHANNEL_COLORS.length];
+            for (let i = 0; i < count; i++) colors.set([r, g, b], i * 3);
+            return colors;
+        }
+
+        const framesPerSample = 1 / (features.frameDuration * this.audioBuffer.sampleRate);
+        const color = new THREE.Color();
+        for (let i = 0; i < count; i++) {
+            const bucket = first + i;
+            const startSample = bucket * level.bucketSize;
+            const endSample = Math.min(startSample + level.bucketSize, sampleCount);
+            const firstFrame = Math.min(Math.floor(startSample * framesPerSample), features.frameCount - 1);
+            const lastFrame = Math.min(Math.max(Math.ceil(endSample * framesPerSample), firstFrame + 1), features.frameCount);
+
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let frames = 0;
+            for (let frame = firstFrame; frame < lastFrame; frame++) {
+                if (features.silent[frame]) continue;
+                if (this.coloring === 'spectral centroid') {
+                    centroidColor(features.centroid[frame], color);
+                } else if (this.coloring === 'band energy') {
+                    const offset = frame * 3;
+                    bandEnergyColor(features.bandEnergy[offset], features.bandEnergy[offset + 1], features.bandEnergy[offset + 2], color);
+                } else {
+                    zeroCrossingColor(features.zeroCrossingRate[frame], color);
+                }
+                r += color.r;
+                g += color.g;
+                b += color.b;
+                frames++;
+            }
+            if (frames > 0) {
+                colors.set([r / frames, g / frames, b / frames], i * 3);
+            } else {
+                colors.set([SILENCE_GREY, SILENCE_GREY, SILENCE_GREY], i * 3);
+            }
+        }
+        return colors;
+    }
 
-        console.log(`[WaveformModel3D] Generated ${points.length} points`);
+    // Colour the envelope by a spectral feature, or per channel
+    setColoring(coloring: WaveformColoring) {
+        if (this.coloring === coloring) return;
+        this.coloring = coloring;
+        if (this.audioBuffer) this.rebuildEnvelopes();
+        this.updateColorLegend();
+    }
+
+    // Features from the offline analysis of the current track (null removes them)
+    setSpectralFeatures(features: SpectralFeatures | null) {
+        this.spectralFeatures = features;
+        if (this.audioBuffer && this.coloring !== 'channel') this.rebuildEnvelopes();
+        this.updateColorLegend();
+    }
+
+    // Legend in the info panel: a gradient (or swatches) built from the same colour scales
+    private updateColorLegend() {
+        const legend = document.getElementById('model-color-legend');
+        if (!legend) return;
+
+        const css = (color: THREE.Color) => `#${color.getHexString()}`;
+        const color = new THREE.Color();
+        const gradient = (toColor: (position: number) => THREE.Color) => {
+            const stops: string[] = [];
+            for (let i = 0; i <= 6; i++) stops.push(css(toColor(i / 6)));
+            return `<div style="height: 8px; margin: 3px 0; background: linear-gradient(to right, ${stops.join(', ')});"></div>`;
+        };
+        const ends = (left: string, right: string) =>
+            `<div style="display: flex; justify-content: space-between; font-size: 10px;"><span>${left}</span><span>${right}</span></div>`;
+
+        if (this.coloring === 'channel') {
+            legend.innerHTML = 'Colour: channel (L cyan / R magenta)';
+        } else if (!this.spectralFeatures) {
+            legend.innerHTML = `Colour: ${this.coloring} (waiting for the offline analysis)`;
+        } else if (this.coloring === 'spectral centroid') {
+            legend.innerHTML = 'Colour: spectral centroid (dark → bright)' +
+                gradient(position => centroidColor(CENTROID_MIN_HZ * Math.pow(CENTROID_MAX_HZ / CENTROID_MIN_HZ, position), color)) +
+                ends(`${CENTROID_MIN_HZ} Hz`, `${CENTROID_MAX_HZ / 1000} kHz`);
+        } else if (this.coloring === 'band energy') {
+            const swatch = (hex: string, label: string) =>
+                `<span style="display: inline-block; width: 10px; height: 10px; background: ${hex}; margin: 0 3px 0 6px;"></span>${label}`;
+            legend.innerHTML = 'Colour: band energy (mix = balance)<br>' +
+                swatch('#ff0000', `low &lt; ${LOW_BAND_EDGE} Hz`) +
+                swatch('#00ff00', 'mid') +
+                swatch('#0000ff', `high &gt; ${HIGH_BAND_EDGE / 1000} kHz`);
+        } else {
+            legend.innerHTML = 'Colour: zero-crossing rate (tonal → noisy)' +
+                gradient(position => zeroCrossingColor(position * MAX_ZERO_CROSSING_RATE, color)) +
+                ends('0', `${MAX_ZERO_CROSSING_RATE} per sample`);
+        }
+    }
+
+    // Level of detail: pick the pyramid level that gives about one bucket per pixel
+    // at the camera's distance from the nearest part of the model (or its zoom).
+    // Zoomed in on a long track, that level is built for the visible stretch only.
+    updateLevelOfDetail(camera: THREE.Camera, viewportHeight: number) {
+        if (!this.audioBuffer || this.pyramids.length === 0 || !this.group.visible) return;
+
+        const length = 60 * this.spreadFactor;
+        const local = this.group.worldToLocal(camera.position.clone());
+        let pixelsPerUnit: number;
+        let visibleHalfWidth: number;
+        if (camera instanceof THREE.OrthographicCamera) {
+            pixelsPerUnit = (viewportHeight * camera.zoom) / (camera.top - camera.bottom);
+            visibleHalfWidth = (camera.right - camera.left) / (2 * camera.zoom);
+        } else if (camera instanceof THREE.PerspectiveCamera) {
+            const nearest = new THREE.Vector3(Math.min(Math.max(local.x, -length / 2), length / 2), 0, 0);
+            const distance = Math.max(local.distanceTo(nearest), 0.1);
+            const halfHeight = distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+            pixelsPerUnit = viewportHeight / (2 * halfHeight);
+            visibleHalfWidth = halfHeight * camera.aspect;
+        } else {
+            return;
+        }
+
+        // Visible part of the track (0-1), around the point nearest the camera
+        const center = Math.min(Math.max(local.x / length + 0.5, 0), 1);
+        const visibleStart = Math.max(center - visibleHalfWidth / length, 0);
+        const visibleEnd = Math.min(center + visibleHalfWidth / length, 1);
+
+        const targetBuckets = (length * pixelsPerUnit) / PIXELS_PER_BUCKET;
+        const pyramid = this.pyramids[0];
+        const current = pyramid.getLevel(this.detailLevel).count;
+        const levelFits = current >= targetBuckets && current <= targetBuckets * LOD_HYSTERESIS;
+        const covered = visibleStart >= this.detailStart && visibleEnd <= this.detailEnd;
+        if (levelFits && covered) return;
+
+        const level = pyramid.selectLevel(targetBuckets, Infinity);
+        const count = pyramid.getLevel(level).count;
+        let start = 0;
+        let end = 1;
+        if (count > MAX_RENDER_BUCKETS) {
+            const halfSpan = Math.min(((visibleEnd - visibleStart) * DETAIL_MARGIN) / 2, MAX_RENDER_BUCKETS / count / 2);
+            const middle = (visibleStart + visibleEnd) / 2;
+            start = Math.max(middle - halfSpan, 0);
+            end = Math.min(middle + halfSpan, 1);
+        }
+        if (level === this.detailLevel && start === this.detailStart && end === this.detailEnd) return;
+        this.detailLevel = level;
+        this.detailStart = start;
+        this.detailEnd = end;
+        this.rebuildEnvelopes();
+    }
+
+    // Swap the envelope geometry only, leaving grid, markers and curves in place
+    private rebuildEnvelopes() {
+        this.removeObjects(this.envelopeMeshes);
+        this.envelopeMeshes = [];
+        this.createEnvelopes(60 * this.spreadFactor, 6);
+    }
+
+    // Take one layer out of the model and free its geometry and material
+    private removeObjects(objects: (THREE.Line | THREE.Mesh)[]) {
+        objects.forEach(object => {
+            this.group.remove(object);
+            object.geometry.dispose();
+            (object.material as THREE.Material).dispose();
+        });
+    }
+
+    // Vertical placement of one channel's lane within the ±amplitudeScale band
+    private getLane(channel: number, amplitudeScale: number): { offset: number; scale: number; mirrored: boolean; direction: number } {
+        const channelCount = this.audioBuffer ? this.audioBuffer.numberOfChannels : 1;
+
+        if (channelCount === 2 && this.channelLayout === 'mirrored') {
+            return { offset: 0, scale: amplitudeScale, mirrored: true, direction: channel === 0 ? 1 : -1 };
+        }
+
+        // Stacked: split the height evenly, first channel on top
+        const laneHeight = (amplitudeScale * 2) / channelCount;
+        return {
+            offset: amplitudeScale - laneHeight * (channel + 0.5),
+            scale: laneHeight / 2,
+            mirrored: false,
+            direction: 1
+        };
     }
 
     private createHitArea(length: number, amplitudeScale: number) {
@@ -158,50 +586,282 @@ export class WaveformModel3D {
         this.group.add(progressLine);
     }
 
+    // One unit wide; updateLoopRegion() stretches and moves it onto the loop
+    private createLoopRegion(amplitudeScale: number) {
+        const height = amplitudeScale * 2 + 2;
+        const geometry = new THREE.PlaneGeometry(1, height);
+        const material = new THREE.MeshBasicMaterial({
+            color: 0xffff00,
+            transparent: true,
+            opacity: 0.15,
+            side: THREE.DoubleSide,
+            depthWrite: false
+        });
+        this.loopMesh = new THREE.Mesh(geometry, material);
+        this.loopMesh.position.z = -0.05; // Just behind the waveform lines
+        this.group.add(this.loopMesh);
+
+        // A and B edges
+        const edgeMaterial = new THREE.LineBasicMaterial({ color: 0xffff00 });
+        for (let i = 0; i < 2; i++) {
+            const edgeGeometry = new THREE.BufferGeometry().setFromPoints([
+                new THREE.Vector3(0, -height / 2, 0),
+                new THREE.Vector3(0, height / 2, 0)
+            ]);
+            const edge = new THREE.Line(edgeGeometry, edgeMaterial);
+            this.loopEdges.push(edge);
+            this.group.add(edge);
+        }
+
+        this.updateLoopRegion();
+    }
+
+    private updateLoopRegion() {
+        if (!this.loopMesh || !this.audioBuffer) return;
+
+        const visible = this.loopRegion !== null;
+        this.loopMesh.visible = visible;
+        this.loopEdges.forEach(edge => edge.visible = visible);
+        if (!this.loopRegion) return;
+
+        const length = 60 * this.spreadFactor;
+        const duration = this.audioBuffer.duration;
+        const startX = (this.loopRegion.start / duration) * length - length / 2;
+        const endX = (this.loopRegion.end / duration) * length - length / 2;
+
+        this.loopMesh.scale.x = Math.max(endX - startX, 0.01);
+        this.loopMesh.position.x = (startX + endX) / 2;
+        this.loopEdges[0].position.x = startX;
+        this.loopEdges[1].position.x = endX;
+    }
+
+    // Shade the A–B loop (seconds), or remove the shading with null
+    setLoopRegion(region: LoopRegion | null) {
+        if (region?.start === this.loopRegion?.start && region?.end === this.loopRegion?.end) return;
+        this.loopRegion = region ? { ...region } : null;
+        this.updateLoopRegion();
+    }
+
+    // Beats as tall ticks above the waveform, onsets as short ticks below it
+    private createBeatMarkers(length: number, amplitudeScale: number) {
+        if (!this.rhythm || !this.audioBuffer) return;
+
+        const duration = this.audioBuffer.duration;
+        const toX = (time: number) => (time / duration) * length - length / 2;
+
+        const beatPoints: THREE.Vector3[] = [];
+        this.rhythm.beats.forEach(time => {
+            const x = toX(time);
+            beatPoints.push(new THREE.Vector3(x, amplitudeScale + 1, 0), new THREE.Vector3(x, amplitudeScale + 2.5, 0));
+        });
+
+        const onsetPoints: THREE.Vector3[] = [];
+        this.rhythm.onsets.forEach(time => {
+            const x = toX(time);
+            onsetPoints.push(new THREE.Vector3(x, -amplitudeScale - 1, 0), new THREE.Vector3(x, -amplitudeScale - 2, 0));
+        });
+
+        const beatTicks = new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints(beatPoints),
+            new THREE.LineBasicMaterial({ color: 0xff8800 })
+        );
+        const onsetTicks = new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints(onsetPoints),
+            new THREE.LineBasicMaterial({ color: 0xff8800, transparent: true, opacity: 0.5 })
+        );
+
+        this.beatMarkers = [beatTicks, onsetTicks];
+        this.beatMarkers.forEach(marker => {
+            marker.visible = this.beatMarkersVisible;
+            this.group.add(marker);
+        });
+    }
+
+    // Mark the detected beats and onsets along the timeline (null removes them)
+    setRhythm(rhythm: RhythmAnalysis | null) {
+        this.rhythm = rhythm;
+        this.removeObjects(this.beatMarkers);
+        this.beatMarkers = [];
+        this.createBeatMarkers(60 * this.spreadFactor, 6);
+
+        const tempoElement = document.getElementById('model-tempo');
+        if (tempoElement) {
+            tempoElement.textContent = rhythm && rhythm.beats.length > 0 ?
+                `${rhythm.bpm.toFixed(1)} BPM (${rhythm.onsets.length} onsets)` : '—';
+        }
+    }
+
+    setBeatMarkersVisible(visible: boolean) {
+        this.beatMarkersVisible = visible;
+        this.beatMarkers.forEach(marker => marker.visible = visible);
+    }
+
+    // Short-term loudness drawn across the full height: bottom = -60 LUFS, top = 0 LUFS,
+    // plus a flat line at the integrated loudness of the whole file
+    private createLoudnessCurve(length: number, amplitudeScale: number) {
+        if (!this.loudness || !this.audioBuffer) return;
+
+        const duration = this.audioBuffer.duration;
+        const floor = -60;
+        const toY = (lufs: number) =>
+            -amplitudeScale + (Math.max(Number.isFinite(lufs) ? lufs : floor, floor) / -floor + 1) * amplitudeScale * 2;
+
+        // Segment k is the 3 s window ending at (k + 1) · 100 ms
+        const points: THREE.Vector3[] = [];
+        this.loudness.shortTerm.forEach((lufs, index) => {
+            const x = (((index + 1) * LOUDNESS_SEGMENT) / duration) * length - length / 2;
+            points.push(new THREE.Vector3(x, toY(lufs), 0.05));
+        });
+        if (points.length < 2) return;
+
+        const curve = new THREE.Line(
+            new THREE.BufferGeometry().setFromPoints(points),
+            new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.8 })
+        );
+
+        const integratedY = toY(this.loudness.integrated);
+        const integratedLine = new THREE.Line(
+            new THREE.BufferGeometry().setFromPoints([
+                new THREE.Vector3(-length / 2, integratedY, 0.05),
+                new THREE.Vector3(length / 2, integratedY, 0.05)
+            ]),
+            new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.3 })
+        );
+
+        this.loudnessCurve = [curve, integratedLine];
+        this.loudnessCurve.forEach(line => {
+            line.visible = this.loudnessCurveVisible;
+            this.group.add(line);
+        });
+    }
+
+    // Show the file's loudness over time (null removes the curve)
+    setLoudness(loudness: LoudnessAnalysis | null) {
+        this.loudness = loudness;
+        this.removeObjects(this.loudnessCurve);
+        this.loudnessCurve = [];
+        this.createLoudnessCurve(60 * this.spreadFactor, 6);
+
+        const loudnessElement = document.getElementById('model-loudness');
+        if (loudnessElement) {
+            loudnessElement.textContent = loudness && Number.isFinite(loudness.integrated) ?
+                `${loudness.integrated.toFixed(1)} LUFS (LRA ${loudness.range.toFixed(1)} LU)` : '—';
+        }
+    }
+
+    setLoudnessCurveVisible(visible: boolean) {
+        this.loudnessCurveVisible = visible;
+        this.loudnessCurve.forEach(line => line.visible = visible);
+    }
+
+    // Chromagram as an image below the onset ticks: one column per 100 ms,
+    // one row per pitch class (C at the bottom, B at the top), brightness = energy
+    private createChromaStrip(length: number, amplitudeScale: number) {
+        if (!this.chromagram || !this.audioBuffer || this.chromagram.frameCount === 0) return;
+
+        // Keep the texture within what every GPU supports by merging columns
+        const { frames, frameCount } = this.chromagram;
+        const columns = Math.min(frameCount, 4096);
+        const data = new Uint8Array(columns * 12 * 4);
+        const color = new THREE.Color();
+        for (let column = 0; column < columns; column++) {
+            const start = Math.floor((column / columns) * frameCount);
+            const end = Math.max(start + 1, Math.floor(((column + 1) / columns) * frameCount));
+            for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+                let value = 0;
+                for (let frame = start; frame < end; frame++) value = Math.max(value, frames[frame * 12 + pitchClass]);
+
+                // Same hue per pitch class as the chroma ring
+                color.setHSL(pitchClass / 12, 0.9, value * 0.6);
+                const offset = (pitchClass * columns + column) * 4;
+                data[offset] = color.r * 255;
+                data[offset + 1] = color.g * 255;
+                data[offset + 2] = color.b * 255;
+                data[offset + 3] = 255;
+            }
+        }
+
+        const texture = new THREE.DataTexture(data, columns, 12, THREE.RGBAFormat);
+        texture.magFilter = THREE.NearestFilter;
+        texture.needsUpdate = true;
+
+        // The chromagram may end slightly before the file does (last partial frame)
+        const width = Math.min(1, (frameCount * this.chromagram.frameDuration) / this.audioBuffer.duration) * length;
+        const height = 3;
+        this.chromaStrip = new THREE.Mesh(
+            new THREE.PlaneGeometry(width, height),
+            new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide })
+        );
+        this.chromaStrip.position.set(-length / 2 + width / 2, -amplitudeScale - 2.5 - height / 2, 0);
+        this.chromaStrip.visible = this.chromaStripVisible;
+        this.group.add(this.chromaStrip);
+    }
+
+    // Show the file's chroma over time and its estimated key (null removes them)
+    setChromagram(chromagram: Chromagram | null) {
+        this.chromagram = chromagram;
+        if (this.chromaStrip) {
+            // Textures aren't freed with their material
+            this.chromaStrip.material.map?.dispose();
+            this.removeObjects([this.chromaStrip]);
+            this.chromaStrip = null;
+        }
+        this.createChromaStrip(60 * this.spreadFactor, 6);
+
+        const keyElement = document.getElementById('model-key');
+        if (keyElement) {
+            keyElement.textContent = chromagram?.key ?
+                `${chromagram.key.name} (${Math.round(chromagram.key.confidence * 100)}% fit)` : '—';
+        }
+    }
+
+    setChromaStripVisible(visible: boolean) {
+        this.chromaStripVisible = visible;
+        if (this.chromaStrip) this.chromaStrip.visible = visible;
+    }
+
+    // Time ticks and amplitude lines as one batch of segments (a single draw call,
+    // however long the file)
     private addReadableGrid(length: number, amplitudeScale: number) {
         const gridMaterial = new THREE.LineBasicMaterial({
             color: 0x00ff00,
             transparent: true,
             opacity: 0.2
         });
+        const points: THREE.Vector3[] = [];
 
-        // Time divisions (every second)
+        // Time divisions, thinned out for long files
         const duration = this.audioBuffer?.duration || 1;
-        const secondsCount = Math.ceil(duration);
-
-        for (let i = 0; i <= secondsCount; i++) {
-            const progress = i / duration;
-            const x = progress * length - length / 2;
-
-            if (x >= -length / 2 && x <= length / 2) {
-                const points = [
-                    new THREE.Vector3(x, -amplitudeScale - 1, 0),
-                    new THREE.Vector3(x, amplitudeScale + 1, 0)
-                ];
-                const geometry = new THREE.BufferGeometry().setFromPoints(points);
-                const line = new THREE.Line(geometry, gridMaterial);
-                this.group.add(line);
-            }
+        const interval = GRID_TICK_INTERVALS.find(seconds => duration / seconds <= MAX_GRID_TICKS) ??
+            GRID_TICK_INTERVALS[GRID_TICK_INTERVALS.length - 1];
+
+        for (let time = 0; time <= duration; time += interval) {
+            const x = (time / duration) * length - length / 2;
+            points.push(
+                new THREE.Vector3(x, -amplitudeScale - 1, 0),
+                new THREE.Vector3(x, amplitudeScale + 1, 0)
+            );
         }
 
         // Amplitude grid
         for (let i = -4; i <= 4; i++) {
             const y = (i / 4) * amplitudeScale;
-            const points = [
+            points.push(
                 new THREE.Vector3(-length / 2, y, 0),
                 new THREE.Vector3(length / 2, y, 0)
-            ];
-            const geometry = new THREE.BufferGeometry().setFromPoints(points);
-            const line = new THREE.Line(geometry, gridMaterial);
-            this.group.add(line);
+            );
         }
+
+        const geometry = new THREE.BufferGeometry().setFromPoints(points);
+        this.group.add(new THREE.LineSegments(geometry, gridMaterial));
     }
 
     // Simplified update loop (Graph removed)
-    updatePlayback(currentTime: number, isPlaying: boolean) {
+    updatePlayback(currentTime: number, isPlaying: boolean, playbackRate: number = 1) {
         if (!this.audioBuffer || !this.progressIndicator) return;
 
         this.isPlaying = isPlaying;
+        this.playbackRate = playbackRate;
 
         const duration = this.audioBuffer.duration;
         const progress = currentTime / duration;
@@ -211,12 +871,13 @@ export class WaveformModel3D {
         const x = progress * length - length / 2;
         this.progressIndicator.position.x = x;
 
-        // Update waveform at current position
+        // Update waveform at current position (follows the first channel's lane)
         const channelData = this.audioBuffer.getChannelData(0);
         const sampleIndex = Math.floor(progress * channelData.length);
         const sample = channelData[sampleIndex] || 0;
-        const amplitudeScale = 6;
-        this.progressIndicator.position.y = sample * amplitudeScale;
+        const lane = this.getLane(0, 6);
+        const value = lane.mirrored ? Math.abs(sample) : sample;
+        this.progressIndicator.position.y = lane.offset + value * lane.scale;
 
         // Update info panel with current time
         this.updatePlaybackInfo(currentTime);
@@ -237,16 +898,28 @@ export class WaveformModel3D {
         <strong>File:</strong> ${filename}<br>
         <strong>Duration:</strong> ${this.formatTime(duration)}<br>
         <strong>Sample Rate:</strong> ${sampleRate} Hz<br>
-        <strong>Channels:</strong> ${channels === 1 ? 'Mono' : 'Stereo'}<br>
+        <strong>Channels:</strong> ${channels === 1 ? 'Mono' : channels === 2 ? 'Stereo (L cyan / R magenta)' : `${channels} channels (live analysis: down-mixed to stereo)`}<br>
+        <strong>Tempo:</strong> <span id="model-tempo">—</span><br>
+        <strong>Loudness:</strong> <span id="model-loudness">—</span><br>
+        <strong>Key:</strong> <span id="model-key">—</span><br>
         <div id="playback-time" style="margin-top: 10px; padding: 8px; background: rgba(0, 255, 0, 0.1); border-radius: 4px;">
           <strong>⏱️ Time:</strong> <span id="current-time">0:00</span> / ${this.formatTime(duration)}
+          <span id="model-playback-rate"></span><br>
+          <span id="model-loop-info"></span>
         </div>
       </div>
       <div style="margin-top: 10px; padding-top: 8px; border-top: 1px solid #00ff00; font-size: 10px; color: #0f0;">
         🔴 Red sphere = Current playback position<br>
+        🟨 Shift + drag = Set A–B loop (Shift + click clears)<br>
+        🟧 Ticks above = beats, below = onsets<br>
+        ⬜ White curve = short-term loudness (-60…0 LUFS)<br>
+        🌈 Strip below = chroma over time (C bottom → B top)<br>
+        Filled band = min/max envelope, bright core = RMS<br>
+        <div id="model-color-legend" style="margin: 4px 0;"></div>
         Use Spread slider to stretch waveform
       </div>
     `;
+        this.updateColorLegend();
     }
 
     private updatePlaybackInfo(currentTime: number) {
@@ -255,6 +928,17 @@ export class WaveformModel3D {
             timeElement.textContent = this.formatTime(currentTime);
             timeElement.style.color = this.isPlaying ? '#ff0000' : '#00ff00';
         }
+
+        const rateElement = document.getElementById('model-playback-rate');
+        if (rateElement) {
+            rateElement.textContent = this.playbackRate !== 1 ? `(${this.playbackRate}×)` : '';
+        }
+
+        const loopElement = document.getElementById('model-loop-info');
+        if (loopElement) {
+            loopElement.textContent = this.loopRegion ?
+                `🔁 Loop: ${this.formatTime(this.loopRegion.start)} – ${this.formatTime(this.loopRegion.end)}` : '';
+        }
     }
 
     private formatTime(seconds: number): string {
@@ -264,6 +948,8 @@ export class WaveformModel3D {
     }
 
     private clearMeshes() {
+        // Textures aren't freed with their material
+        this.chromaStrip?.material.map?.dispose();
         while (this.group.children.length > 0) {
             const child = this.group.children[0];
             this.group.remove(child);
@@ -276,9 +962,14 @@ export class WaveformModel3D {
                 }
             }
         }
-        this.waveformLine = null;
+        this.envelopeMeshes = [];
         this.hitArea = null;
         this.progressIndicator = null;
+        this.loopMesh = null;
+        this.loopEdges = [];
+        this.beatMarkers = [];
+        this.loudnessCurve = [];
+        this.chromaStrip = null;
     }
 
     // Helper to get the hit area mesh for raycasting
@@ -319,6 +1010,15 @@ export class WaveformModel3D {
         }
     }
 
+    setChannelLayout(layout: ChannelLayout) {
+        if (this.channelLayout !== layout) {
+            this.channelLayout = layout;
+            if (this.audioBuffer) {
+                this.generateDynamicWaveform();
+            }
+        }
+    }
+
     show() {
         this.group.visible = true;
         this.infoPanel.style.display = 'block';
@@ -334,6 +1034,16 @@ export class WaveformModel3D {
         this.infoPanel.style.display = 'none';
     }
 
+    // The decoded buffer, so offline analysis (STFT, etc.) can reuse this decode
+    getAudioBuffer(): AudioBuffer | null {
+        return this.audioBuffer;
+    }
+
+    // Min/max/RMS pyramids of the loaded track, one per channel (e.g. for model export)
+    getPeakPyramids(): PeakPyramid[] {
+        return this.audioBuffer ? this.getPyramids(this.audioBuffer) : [];
+    }
+
     getAudioInfo(): { duration: number; sampleRate: number; channels: number } | null {
         if (!this.audioBuffer) return null;
         return {
@@ -5,6 +5,7 @@ export class WaveformVisualizer {
     private ctx: CanvasRenderingContext2D;
     private width: number = 400;
     private height: number = 150;
+    private windowOverlay: Float32Array | null = null;
 
     constructor() {
         this.canvas = document.createElement('canvas');
@@ -22,6 +23,11 @@ export class WaveformVisualizer {
         document.body.appendChild(this.canvas);
     }
 
+    // The 2D canvas, e.g. for compositing into a recording
+    getCanvas(): HTMLCanvasElement {
+        return this.canvas;
+    }
+
     show() {
         this.canvas.style.display = 'block';
     }
@@ -30,7 +36,14 @@ export class WaveformVisualizer {
         this.canvas.style.display = 'none';
     }
 
-    draw(timeDomainData: Uint8Array) {
+    // Window function drawn on top of the trace (null = hidden).
+    // The FFT sees the signal multiplied by this curve, so anything outside it is faded out.
+    setWindowOverlay(window: Float32Array | null) {
+        this.windowOverlay = window;
+    }
+
+    // samples: time domain values in the range -1..1 (see AudioController.getTimeDomainSamples)
+    draw(samples: Float32Array) {
         const { ctx, width, height } = this;
 
         // Clear canvas
@@ -47,11 +60,11 @@ export class WaveformVisualizer {
         ctx.strokeStyle = '#00ff00';
         ctx.beginPath();
 
-        const sliceWidth = width / timeDomainData.length;
+        const sliceWidth = width / samples.length;
         let x = 0;
 
-        for (let i = 0; i < timeDomainData.length; i++) {
-            const v = timeDomainData[i] / 128.0; // Normalize to 0-2
+        for (let i = 0; i < samples.length; i++) {
+            const v = samples[i] + 1.0; // Shift to 0-2
             const y = (v * height) / 2;
 
             if (i === 0) {
@@ -72,5 +85,37 @@ export class WaveformVisualizer {
         ctx.moveTo(0, height / 2);
         ctx.lineTo(width, height / 2);
         ctx.stroke();
+
+        if (this.windowOverlay) {
+            this.drawWindowOverlay(this.windowOverlay);
+        }
+    }
+
+    private drawWindowOverlay(window: Float32Array) {
+        const { ctx, width, height } = this;
+
+        // Mirrored envelope (±w[n]) around the centre line, in the same units as the trace
+        ctx.strokeStyle = '#ffff00';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+
+        for (const sign of [1, -1]) {
+            ctx.beginPath();
+            for (let i = 0; i < window.length; i++) {
+                const x = (i / (window.length - 1)) * width;
+                const y = ((1 - sign * window[i]) * height) / 2;
+                if (i === 0) {
+                    ctx.moveTo(x, y);
+                } else {
+                    ctx.lineTo(x, y);
+                }
+            }
+            ctx.stroke();
+        }
+
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#ffff00';
+        ctx.font = '10px monospace';
+        ctx.fillText('WINDOW', width - 50, 15);
     }
 }